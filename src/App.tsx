@@ -17,6 +17,7 @@ import CalendarPage from './components/CalendarPage';
 import ConfirmCalendar from './components/ConfirmCalendar';
 import EventCreatePage from "./components/EventCreatePage";
 import ConfirmEventParticipation from "./components/ConfirmEventParticipation";
+import RollbackToast from './components/RollbackToast';
 import React, { useEffect, useState } from 'react';
 import './App.css';
 import csrfService from "@/services/csrfService.ts";
@@ -69,6 +70,7 @@ function App() {
           </main>
           {/* Футер */}
           <Footer />
+          <RollbackToast />
         </div>
       </Router>
     </Provider>
@@ -1,11 +1,13 @@
 import { AppDispatch } from "../store";
-import calendarService from "../services/calendarService";
+import { getApiErrorMessage, planqApi } from "../services/planqApi";
 import {
   getCalendarsRequest,
   getCalendarsSuccess,
   getCalendarsFailure,
   updateCalendarRequest,
-  toggleCalendarVisibilitySuccess,
+  calendarSettingsChanged,
+  calendarSettingsSaved,
+  calendarSettingsRejected,
   updateCalendarSuccess,
   updateCalendarFailure,
   deleteCalendarRequest,
@@ -25,14 +27,17 @@ import {
   addCalendarUserFailure,
 } from "../reducers/calendarReducer";
 
+// Reads come from planqApi's cache until a mutation invalidates them, and identical requests are shared.
+const read = { subscribe: false };
+
 export const getUserCalendars = (userId: string) => async (dispatch: AppDispatch) => {
   try {
     dispatch(getCalendarsRequest());
-    const data = await calendarService.getUserCalendars(userId);
+    const data = await dispatch(planqApi.endpoints.getUserCalendars.initiate(userId, read)).unwrap();
     console.log('userCalendars', data);
     dispatch(getCalendarsSuccess(data));
   } catch (error: any) {
-    dispatch(getCalendarsFailure(error.response?.data?.message || "Failed to get calendars"));
+    dispatch(getCalendarsFailure(getApiErrorMessage(error) || "Failed to get calendars"));
   }
 };
 
@@ -43,24 +48,20 @@ export const toggleCalendarVisibility = (
 ) => async (dispatch: AppDispatch) => {
   try {
     dispatch(updateCalendarRequest());
-    const updatedCalendar = await calendarService.toggleCalendarVisibility(
-      calendarId,
-      userId,
-      !currentVisibility
-    );
+    const changes = { isVisible: !currentVisibility };
+    dispatch(calendarSettingsChanged({ calendarId, changes }));
+    const updatedCalendar = await dispatch(
+      planqApi.endpoints.toggleCalendarVisibility.initiate({ calendarId, userId, isVisible: !currentVisibility })
+    ).unwrap();
     console.log('updatedCalendar', updatedCalendar);
-    dispatch(
-      toggleCalendarVisibilitySuccess({
-        calendarId,
-        isVisible: !currentVisibility,
-      })
-    );
+    dispatch(calendarSettingsSaved({ calendarId, changes }));
    dispatch(getUserCalendars(userId));
   } catch (error: any) {
     dispatch(
-      updateCalendarFailure(
-        error.response?.data?.message || "Failed to toggle calendar visibility"
-      )
+      calendarSettingsRejected({
+        calendarId,
+        error: getApiErrorMessage(error) || "Failed to toggle calendar visibility",
+      })
     );
   }
 };
@@ -68,10 +69,12 @@ export const toggleCalendarVisibility = (
 export const updateCalendar = (calendarId: string, calendarData: any) => async (dispatch: AppDispatch) => {
   try {
     dispatch(updateCalendarRequest());
-    const data = await calendarService.updateCalendar(calendarId, calendarData);
+    const data = await dispatch(
+      planqApi.endpoints.updateCalendar.initiate({ calendarId, changes: calendarData })
+    ).unwrap();
     dispatch(updateCalendarSuccess(data));
   } catch (error: any) {
-    dispatch(updateCalendarFailure(error.response?.data?.message || "Failed to update calendar"));
+    dispatch(updateCalendarFailure(getApiErrorMessage(error) || "Failed to update calendar"));
   }
 };
 
@@ -81,65 +84,75 @@ export const addCalendar = (
 ) => async (dispatch: AppDispatch) => {
   try {
     dispatch(addCalendarRequest());
-    const data = await calendarService.addCalendar(calendarData);
+    const data = await dispatch(planqApi.endpoints.addCalendar.initiate(calendarData)).unwrap();
     dispatch(addCalendarSuccess(data));
     dispatch(getUserCalendars(userId));
   } catch (error: any) {
-    dispatch(addCalendarFailure(error.response?.data?.message || "Не удалось создать календарь"));
+    dispatch(addCalendarFailure(getApiErrorMessage(error) || "Не удалось создать календарь"));
   }
 };
 
 export const changeCalendarColor = (calendarId: string, userId: string, color: string) => async (dispatch: AppDispatch) => {
   try {
     dispatch(updateCalendarRequest());
-    const updatedCalendar = await calendarService.updateCalendarColor(calendarId, userId, color);
-    dispatch(updateCalendarSuccess(updatedCalendar));
+    dispatch(calendarSettingsChanged({ calendarId, changes: { color } }));
+    await dispatch(
+      planqApi.endpoints.changeCalendarColor.initiate({ calendarId, userId, color })
+    ).unwrap();
+    dispatch(calendarSettingsSaved({ calendarId, changes: { color } }));
     dispatch(getUserCalendars(userId));
   } catch (error: any) {
-    dispatch(updateCalendarFailure(error.message));
+    dispatch(
+      calendarSettingsRejected({
+        calendarId,
+        error: getApiErrorMessage(error) || "Failed to change calendar color",
+      })
+    );
   }
 };
 
 export const deleteCalendar = (calendarId: string, userId: string) => async (dispatch: AppDispatch) => {
   try {
     dispatch(deleteCalendarRequest());
-    await calendarService.deleteCalendar(calendarId);
+    await dispatch(planqApi.endpoints.deleteCalendar.initiate(calendarId)).unwrap();
     dispatch(deleteCalendarSuccess(calendarId));
     dispatch(getUserCalendars(userId));
   } catch (error: any) {
-    dispatch(deleteCalendarFailure(error.message));
+    dispatch(deleteCalendarFailure(getApiErrorMessage(error) || "Failed to delete calendar"));
   }
 };
 
 export const editCalendar = (calendarId: string, title: string, description: string, userId: string) => async (dispatch: AppDispatch) => {
   try {
     dispatch(updateCalendarRequest());
-    const updatedCalendar = await calendarService.updateCalendar(calendarId, { name: title, description });
+    const updatedCalendar = await dispatch(
+      planqApi.endpoints.updateCalendar.initiate({ calendarId, changes: { name: title, description } })
+    ).unwrap();
     dispatch(updateCalendarSuccess(updatedCalendar));
     dispatch(getUserCalendars(userId));
   } catch (error: any) {
-    dispatch(updateCalendarFailure(error.message));
+    dispatch(updateCalendarFailure(getApiErrorMessage(error) || "Failed to update calendar"));
   }
 };
 
 export const getHolidays = () => async (dispatch: AppDispatch) => {
   try {
     dispatch(getHolidaysRequest());
-    const data = await calendarService.getHolidays();
+    const data = await dispatch(planqApi.endpoints.getHolidays.initiate(undefined, read)).unwrap();
     dispatch(getHolidaysSuccess(data));
   } catch (error: any) {
-    dispatch(getHolidaysFailure(error.response?.data?.message || "Failed to get holidays"));
+    dispatch(getHolidaysFailure(getApiErrorMessage(error) || "Failed to get holidays"));
   }
 };
 
 export const getCalendarUsers = (calendarId: string) => async (dispatch: AppDispatch) => {
   try {
     dispatch(getCalendarUsersRequest());
-    const data = await calendarService.getCalendarUsers(calendarId);
+    const data = await dispatch(planqApi.endpoints.getCalendarUsers.initiate(calendarId, read)).unwrap();
     dispatch(getCalendarUsersSuccess(data));
     return data;
   } catch (error: any) {
-    const errorMessage = error.response?.data?.message || "Failed to get calendar users";
+    const errorMessage = getApiErrorMessage(error) || "Failed to get calendar users";
     dispatch(getCalendarUsersFailure(errorMessage));
     throw new Error(errorMessage);
   }
@@ -151,14 +164,14 @@ export const addCalendarUser = (
 ) => async (dispatch: AppDispatch) => {
   try {
     dispatch(addCalendarUserRequest());
-    const data = await calendarService.addCalendarUser(calendarId, payload);
+    const data = await dispatch(planqApi.endpoints.addCalendarUser.initiate({ calendarId, payload })).unwrap();
     dispatch(addCalendarUserSuccess(data));
-    const updatedUsers = await calendarService.getCalendarUsers(calendarId);
+    const updatedUsers = await dispatch(planqApi.endpoints.getCalendarUsers.initiate(calendarId, read)).unwrap();
     dispatch(getCalendarUsersSuccess(updatedUsers));
     return data;
   } catch (error: any) {
     const errorMessage =
-      error.response?.data?.message || "Failed to add calendar user";
+      getApiErrorMessage(error) || "Failed to add calendar user";
     dispatch(addCalendarUserFailure(errorMessage));
     return { error: errorMessage };
   }
@@ -169,7 +182,7 @@ export const confirmCalendar = (
   token: string
 ) => async (dispatch: AppDispatch) => {
   try {
-    const data = await calendarService.confirmCalendar(token);
+    const data = await dispatch(planqApi.endpoints.confirmCalendar.initiate(token)).unwrap();
     return data;
   } catch (error: any) {
     throw error;
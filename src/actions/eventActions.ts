@@ -1,14 +1,24 @@
-import { Dispatch } from 'redux';
 import { EventActionTypes } from '../reducers/eventReducer';
-import eventService from '../services/eventService';
+import { getApiErrorMessage, planqApi } from '../services/planqApi';
 import { CreateEventPayload, UpdateEventPayload } from '../types/eventTypes';
 import { AppDispatch } from "../store";
+import { buildPendingEvent, createPendingEventId } from '../lib/optimisticEvents';
 
-export const getCalendarEvents = (calendarId: number, userId: number) => async (dispatch: Dispatch) => {
+// Reads come from planqApi's cache until a mutation invalidates them, and identical requests are shared.
+const read = { subscribe: false };
+
+export interface EventChangeOptions {
+  /** Set by callers that report the failure themselves, so the rollback toast doesn't repeat it. */
+  silent?: boolean;
+}
+
+export const getCalendarEvents = (calendarId: number, userId: number) => async (dispatch: AppDispatch) => {
   try {
     dispatch({ type: EventActionTypes.FETCH_EVENTS_REQUEST });
     
-    const events = await eventService.getCalendarEvents(calendarId, userId);
+    const events = await dispatch(
+      planqApi.endpoints.getCalendarEvents.initiate({ calendarId: Number(calendarId), userId: Number(userId) }, read)
+    ).unwrap();
     
     dispatch({
       type: EventActionTypes.FETCH_EVENTS_SUCCESS,
@@ -20,17 +30,17 @@ export const getCalendarEvents = (calendarId: number, userId: number) => async (
     console.error(`Error fetching events for calendar ${calendarId}:`, error);
     dispatch({
       type: EventActionTypes.FETCH_EVENTS_FAILURE,
-      payload: error.response?.data?.message || 'Failed to fetch events'
+      payload: getApiErrorMessage(error) || 'Failed to fetch events'
     });
     throw error;
   }
 };
 
-export const getEvent = (eventId: number) => async (dispatch: Dispatch) => {
+export const getEvent = (eventId: number) => async (dispatch: AppDispatch) => {
   try {
     dispatch({ type: EventActionTypes.FETCH_EVENT_REQUEST });
     
-    const event = await eventService.getEvent(eventId);
+    const event = await dispatch(planqApi.endpoints.getEvent.initiate(Number(eventId), read)).unwrap();
     
     dispatch({
       type: EventActionTypes.FETCH_EVENT_SUCCESS,
@@ -42,22 +52,27 @@ export const getEvent = (eventId: number) => async (dispatch: Dispatch) => {
     console.error(`Error fetching event ${eventId}:`, error);
     dispatch({
       type: EventActionTypes.FETCH_EVENT_FAILURE,
-      payload: error.response?.data?.message || 'Failed to fetch event'
+      payload: getApiErrorMessage(error) || 'Failed to fetch event'
     });
     throw error;
   }
 };
 
-export const createEvent = (eventData: CreateEventPayload) => async (dispatch: Dispatch) => {
+export const createEvent = (eventData: CreateEventPayload, { silent }: EventChangeOptions = {}) => async (dispatch: AppDispatch) => {
+  const pendingId = createPendingEventId();
   try {
-    dispatch({ type: EventActionTypes.CREATE_EVENT_REQUEST });
+    dispatch({
+      type: EventActionTypes.CREATE_EVENT_REQUEST,
+      meta: { pendingEvent: buildPendingEvent(eventData, pendingId) }
+    });
     
-    const event = await eventService.createEvent(eventData);
+    const event = await dispatch(planqApi.endpoints.createEvent.initiate(eventData)).unwrap();
     console.log('Created event:', event);
     
     dispatch({
       type: EventActionTypes.CREATE_EVENT_SUCCESS,
-      payload: event
+      payload: event,
+      meta: { pendingId }
     });
     
     return event;
@@ -65,17 +80,21 @@ export const createEvent = (eventData: CreateEventPayload) => async (dispatch: D
     console.error('Error creating event:', error);
     dispatch({
       type: EventActionTypes.CREATE_EVENT_FAILURE,
-      payload: error.response?.data?.message || 'Failed to create event'
+      payload: getApiErrorMessage(error) || 'Failed to create event',
+      meta: { pendingId, silent }
     });
     throw error;
   }
 };
 
-export const updateEvent = (eventId: number, eventData: UpdateEventPayload) => async (dispatch: Dispatch) => {
+export const updateEvent = (eventId: number, eventData: UpdateEventPayload, { silent }: EventChangeOptions = {}) => async (dispatch: AppDispatch) => {
   try {
-    dispatch({ type: EventActionTypes.UPDATE_EVENT_REQUEST });
+    dispatch({
+      type: EventActionTypes.UPDATE_EVENT_REQUEST,
+      meta: { eventId: Number(eventId), changes: eventData }
+    });
     
-    const event = await eventService.updateEvent(eventId, eventData);
+    const event = await dispatch(planqApi.endpoints.updateEvent.initiate({ eventId: Number(eventId), changes: eventData })).unwrap();
     console.log('Updated event:', event);
     
     dispatch({
@@ -88,17 +107,18 @@ export const updateEvent = (eventId: number, eventData: UpdateEventPayload) => a
     console.error(`Error updating event ${eventId}:`, error);
     dispatch({
       type: EventActionTypes.UPDATE_EVENT_FAILURE,
-      payload: error.response?.data?.message || 'Failed to update event'
+      payload: getApiErrorMessage(error) || 'Failed to update event',
+      meta: { eventId: Number(eventId), silent }
     });
     throw error;
   }
 };
 
-export const deleteEvent = (eventId: number) => async (dispatch: Dispatch) => {
+export const deleteEvent = (eventId: number, { silent }: EventChangeOptions = {}) => async (dispatch: AppDispatch) => {
   try {
-    dispatch({ type: EventActionTypes.DELETE_EVENT_REQUEST });
+    dispatch({ type: EventActionTypes.DELETE_EVENT_REQUEST, meta: { eventId: Number(eventId) } });
     
-    await eventService.deleteEvent(eventId);
+    await dispatch(planqApi.endpoints.deleteEvent.initiate(Number(eventId))).unwrap();
     console.log(`Event ${eventId} deleted successfully`);
     
     dispatch({
@@ -111,22 +131,18 @@ export const deleteEvent = (eventId: number) => async (dispatch: Dispatch) => {
     console.error(`Error deleting event ${eventId}:`, error);
     dispatch({
       type: EventActionTypes.DELETE_EVENT_FAILURE,
-      payload: error.response?.data?.message || 'Failed to delete event'
+      payload: getApiErrorMessage(error) || 'Failed to delete event',
+      meta: { eventId: Number(eventId), silent }
     });
     throw error;
   }
 };
 
-export const addEventParticipant = (eventId: number, calendarId: number, email: string) => async (dispatch: Dispatch) => {
+export const addEventParticipant = (eventId: number, calendarId: number, email: string) => async (dispatch: AppDispatch) => {
   try {
-    const users = await eventService.findUserByEmail(email);
-    if (!users || users.length === 0) {
-      console.error('User not found for email:', email);
-      throw new Error('User not found');
-    }
-    const userId = users.id;
-    
-    const result = await eventService.addParticipant(eventId, calendarId, userId);
+    const result = await dispatch(
+      planqApi.endpoints.addEventParticipant.initiate({ eventId: Number(eventId), calendarId, email })
+    ).unwrap();
     console.log('Participant added successfully:', result);
     
     dispatch(getEvent(eventId));
@@ -138,23 +154,41 @@ export const addEventParticipant = (eventId: number, calendarId: number, email:
   }
 };
 
-export const updateEventParticipant = (eventId: number, calendarMemberId: number, data: { responseStatus?: string, color?: string }) => async (dispatch: Dispatch) => {
+export const updateEventParticipant = (
+  eventId: number,
+  calendarMemberId: number,
+  data: { responseStatus?: string, color?: string },
+  { silent }: EventChangeOptions = {}
+) => async (dispatch: AppDispatch) => {
+  const meta = { eventId: Number(eventId), calendarMemberId, changes: data };
   try {
-    const result = await eventService.updateParticipant(eventId, calendarMemberId, data);
+    dispatch({ type: EventActionTypes.UPDATE_PARTICIPANT_REQUEST, meta });
+
+    const result = await dispatch(
+      planqApi.endpoints.updateEventParticipant.initiate({ eventId: Number(eventId), calendarMemberId, changes: data })
+    ).unwrap();
     console.log('Participant updated successfully:', result);
-    
+
+    dispatch({ type: EventActionTypes.UPDATE_PARTICIPANT_SUCCESS, meta });
     dispatch(getEvent(eventId));
     
     return result;
   } catch (error: any) {
     console.error(`Error updating participant ${calendarMemberId} for event ${eventId}:`, error);
+    dispatch({
+      type: EventActionTypes.UPDATE_PARTICIPANT_FAILURE,
+      payload: getApiErrorMessage(error) || 'Failed to update participant',
+      meta: { ...meta, silent }
+    });
     throw error;
   }
 };
 
-export const removeEventParticipant = (eventId: number, calendarMemberId: number) => async (dispatch: Dispatch) => {
+export const removeEventParticipant = (eventId: number, calendarMemberId: number) => async (dispatch: AppDispatch) => {
   try {
-    await eventService.removeParticipant(eventId, calendarMemberId);
+    await dispatch(
+      planqApi.endpoints.removeEventParticipant.initiate({ eventId: Number(eventId), calendarMemberId })
+    ).unwrap();
     console.log('Participant removed successfully');
     
     dispatch(getEvent(eventId));
@@ -172,7 +206,9 @@ export const confirmEventParticipation = (
 ) => async (dispatch: AppDispatch) => {
   try {
     // dispatch(setLoading(true));
-    const data = await eventService.confirmEventParticipation(eventId, calendarMemberId, token);
+    const data = await dispatch(
+      planqApi.endpoints.confirmEventParticipation.initiate({ eventId, calendarMemberId, token })
+    ).unwrap();
     // dispatch(setLoading(false));
     return data;
   } catch (error: any) {
@@ -0,0 +1,14 @@
+import {AppDispatch, RootState} from '../store'
+import preferencesService from '../services/preferencesService'
+import {setPreferences} from '../reducers/preferencesReducer'
+import {UserPreferences} from '../types/preferenceTypes'
+
+export const updatePreferences = (userId: string, changes: Partial<UserPreferences>) =>
+    (dispatch: AppDispatch, getState: () => RootState) => {
+        const preferences = preferencesService.savePreferences(userId, {
+            ...getState().preferences.preferences,
+            ...changes,
+        })
+        dispatch(setPreferences(preferences))
+        return preferences
+    }
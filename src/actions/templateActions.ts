@@ -0,0 +1,25 @@
+import {AppDispatch, RootState} from '../store'
+import templateService from '../services/templateService'
+import {setTemplates} from '../reducers/templatesReducer'
+import {EventTemplate} from '../types/templateTypes'
+
+export const saveTemplate = (userId: string, template: Omit<EventTemplate, 'id' | 'createdAt'>) =>
+    (dispatch: AppDispatch, getState: () => RootState) => {
+        const saved: EventTemplate = {
+            ...template,
+            id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            createdAt: new Date().toISOString(),
+        }
+        const templates = templateService.saveTemplates(userId, [...getState().templates.templates, saved])
+        dispatch(setTemplates(templates))
+        return saved
+    }
+
+export const deleteTemplate = (userId: string, templateId: string) =>
+    (dispatch: AppDispatch, getState: () => RootState) => {
+        const templates = templateService.saveTemplates(
+            userId,
+            getState().templates.templates.filter((template) => template.id !== templateId)
+        )
+        dispatch(setTemplates(templates))
+    }
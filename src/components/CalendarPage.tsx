@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useState } from "react";
-import { useDispatch, useSelector } from "react-redux";
-import { CalendarClock, Plus, Menu, X, Check, Edit2, Trash2, Palette, UserPlus } from "lucide-react";
+import { shallowEqual, useDispatch, useSelector } from "react-redux";
+import { CalendarClock, Plus, Menu, X, Check, Edit2, Trash2, Palette, UserPlus, Download, ListChecks, CalendarDays, KanbanSquare } from "lucide-react";
+import { addDays, endOfDay, endOfMonth, format, startOfDay, startOfMonth } from "date-fns";
 import Header from "./Header";
 import CustomCalendar, { CalendarData, CalendarEvent } from "./CustomCalendar";
 import { AppDispatch, RootState } from "../store";
@@ -13,12 +14,28 @@ import {
   addCalendar,
   getCalendarUsers,
   addCalendarUser,
-  getHolidays,
 } from "../actions/calendarActions";
-import { getCalendarEvents } from "../actions/eventActions";
-import calendarService from "../services/calendarService";
+import {
+  getCalendarEventsArgs,
+  planqApi,
+  selectCalendarEventWindows,
+  useGetHolidaysQuery,
+} from "../services/planqApi";
+import { EventParticipation, ParticipationWithEvent } from "../types/eventTypes";
+import { getAvatarUrl } from "../services/apiClient";
 import Alert from "./Alert";
 import Sidebar from "./Sidebar";
+import IcsImportModal from "./IcsImportModal";
+import CsvImportWizard from "./CsvImportWizard";
+import ReminderCenter from "./ReminderCenter";
+import TaskPanel from "./TaskPanel";
+import TaskBoard from "./TaskBoard";
+import TodayPanel from "./TodayPanel";
+import { buildICalendar, calendarEventToICal, getICalFileName } from "../lib/ical";
+import { expandRecurringEvents } from "../lib/recurrence";
+import { getReminderRange } from "../lib/reminders";
+import { downloadFile } from "../lib/utils";
+import { DateWindow, getAdjacentWindows, getMonthWindows } from "../lib/eventWindows";
 
 const predefinedColors = [
   "#4285F4", "#DB4437", "#F4B400", "#0F9D58", 
@@ -27,7 +44,7 @@ const predefinedColors = [
 ];
 
 interface ModalData {
-  type: 'create' | 'edit' | 'color' | 'share' | 'delete' | null;
+  type: 'create' | 'edit' | 'color' | 'share' | 'delete' | 'export' | 'import' | 'importCsv' | null;
   calendarId?: string;
   calendarTitle?: string;
   calendarDescription?: string;
@@ -36,6 +53,146 @@ interface ModalData {
   userRole?: string;
 }
 
+const toCalendarEvents = (
+  participations: ParticipationWithEvent[],
+  calendarId: string,
+  calendarColor: string
+): CalendarEvent[] =>
+  participations.map((participation: any) => {
+    const event = participation.event;
+    if (!event) return null;
+
+    return {
+      id: String(event.id),
+      title: event.name,
+      start: event.startedAt,
+      end: event.endedAt,
+      description: event.description,
+      calendarId,
+      type: event.type,
+      color: participation.color || calendarColor,
+      category: event.category,
+      priority: event.task?.priority,
+      isCompleted: event.task?.isCompleted,
+      checklist: event.task?.checklist,
+      creatorId: event.creatorId,
+      recurrence: event.recurrence,
+      timeZone: event.timeZone,
+      reminderOffsets: event.reminderOffsets,
+      participations: [participation]
+    };
+  }).filter(Boolean);
+
+// The same calendars with their events taken from another load.
+const withCalendarEvents = (
+  calendars: CalendarData[],
+  eventsMap: Record<number, ParticipationWithEvent[]>
+): CalendarData[] =>
+  calendars.map((cal) =>
+    cal.calendarType === "holiday"
+      ? cal
+      : { ...cal, events: toCalendarEvents(eventsMap[Number(cal.id)] || [], cal.id, cal.color) }
+  );
+
+/**
+ * Events of several calendars keyed by calendar id, limited to `windows` when
+ * given; recurring series and open tasks are then loaded whole, since they
+ * matter outside the window they start in. Every calendar and window is its own cached query, so they load in
+ * parallel, stay cached while the user pages back and forth and refetch on
+ * their own when their tags are invalidated. With `prefetchAdjacent`, the
+ * windows just outside the range are prefetched.
+ */
+const useCalendarEventsByCalendar = (
+  calendarIds: number[],
+  userId: number | undefined,
+  windows: DateWindow[] | null,
+  prefetchAdjacent = false
+): Record<number, ParticipationWithEvent[]> => {
+  const dispatch = useDispatch<AppDispatch>();
+
+  const argsList = useMemo(
+    () => (userId ? getCalendarEventsArgs(calendarIds, userId, windows) : []),
+    [calendarIds, userId, windows]
+  );
+
+  useEffect(() => {
+    const subscriptions = argsList.map((args) =>
+      dispatch(planqApi.endpoints.getCalendarEvents.initiate(args))
+    );
+
+    if (prefetchAdjacent && userId && windows) {
+      getCalendarEventsArgs(calendarIds, userId, getAdjacentWindows(windows)).forEach((args) =>
+        dispatch(planqApi.util.prefetch("getCalendarEvents", args, { ifOlderThan: 60 }))
+      );
+    }
+
+    return () => subscriptions.forEach((subscription) => subscription.unsubscribe());
+  }, [dispatch, argsList, calendarIds, userId, windows, prefetchAdjacent]);
+
+  const loaded = useSelector(
+    (state: RootState) => selectCalendarEventWindows(state, argsList),
+    shallowEqual
+  );
+
+  return useMemo(() => {
+    // An event spanning several windows comes back with each of them.
+    const eventsByCalendar: Record<number, Map<number, ParticipationWithEvent>> = {};
+    argsList.forEach((args, index) => {
+      const events = (eventsByCalendar[args.calendarId] ??= new Map());
+      loaded[index]?.forEach((participation) => {
+        if (participation.event) {
+          events.set(participation.event.id, participation);
+        }
+      });
+    });
+
+    return Object.fromEntries(
+      Object.entries(eventsByCalendar).map(([calendarId, events]) => [calendarId, [...events.values()]])
+    );
+  }, [argsList, loaded]);
+};
+
+/** Events of the visible calendars, each once; events shared with the main calendar keep the other calendar's copy. */
+const getVisibleEvents = (calendars: CalendarData[]): CalendarEvent[] => {
+  const addedEventIds = new Set<string>();
+  const result: CalendarEvent[] = [];
+  
+  const additionalCalendars = calendars
+    .filter(cal => 
+      cal.isVisible && 
+      cal.events && 
+      cal.events.length > 0 && 
+      cal.calendarType !== 'main'
+    );
+    
+  for (const cal of additionalCalendars) {
+    for (const event of cal.events || []) {
+      if (event && event.id) {
+        addedEventIds.add(event.id);
+        result.push(event);
+      }
+    }
+  }
+  
+  const mainCalendars = calendars
+    .filter(cal => 
+      cal.isVisible && 
+      cal.events && 
+      cal.events.length > 0 && 
+      cal.calendarType === 'main'
+    );
+    
+  for (const cal of mainCalendars) {
+    for (const event of cal.events || []) {
+      if (event && event.id && !addedEventIds.has(event.id)) {
+        result.push(event);
+      }
+    }
+  }
+  
+  return result;
+};
+
 const CalendarPage: React.FC = () => {
   const dispatch: AppDispatch = useDispatch();
   const authUser = useSelector((state: RootState) => state.auth.user);
@@ -51,11 +208,10 @@ const CalendarPage: React.FC = () => {
     (state: RootState) => state.event
   ) || { events: [] };
   
-  const [holidayEvents, setHolidayEvents] = useState<CalendarEvent[]>([]);
   const [alertMessage, setAlertMessage] = useState<string | null>(null);
-  const [calendarEventsMap, setCalendarEventsMap] = useState<Record<string, any[]>>({});
   
   const [modalData, setModalData] = useState<ModalData>({ type: null });
+  const [mainView, setMainView] = useState<'calendar' | 'tasks' | 'board'>('calendar');
 
   const [newCalendarTitle, setNewCalendarTitle] = useState("");
   const [newCalendarDescription, setNewCalendarDescription] = useState("");
@@ -68,6 +224,10 @@ const CalendarPage: React.FC = () => {
   
   const [sharedUserEmail, setSharedUserEmail] = useState("");
   const [sharedRole, setSharedRole] = useState<"owner" | "editor" | "viewer">("viewer");
+
+  const [exportRange, setExportRange] = useState<"all" | "range">("all");
+  const [exportFrom, setExportFrom] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [exportTo, setExportTo] = useState(format(addDays(new Date(), 30), "yyyy-MM-dd"));
   const [isSharedLoading, setIsSharedLoading] = useState(false);
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
   const [editedRole, setEditedRole] = useState<"owner" | "editor" | "viewer">("viewer");
@@ -78,62 +238,75 @@ const CalendarPage: React.FC = () => {
     }
   }, [dispatch, authUser]);
 
-  useEffect(() => {
-    const fetchEventsForCalendars = async () => {
-      if (authUser && authUser.id && calendars.length > 0) {
-        const eventsMap: Record<string, any[]> = {};
-        
-        for (const cal of calendars) {
-          if (cal.calendarType !== "holiday" && cal.calendarId) {
-            try {
-              const calendarEvents = await dispatch(getCalendarEvents(cal.calendarId, authUser.id));
-              
-              eventsMap[cal.calendarId] = calendarEvents;
-            } catch (error) {
-              console.error(`Failed to fetch events for calendar ${cal.calendarId}:`, error);
-            }
-          }
-        }
-        
-        setCalendarEventsMap(eventsMap);
-      }
-    };
-    
-    if (calendars.length > 0 && authUser?.id) {
-      fetchEventsForCalendars();
-    }
-  }, [calendars, authUser, dispatch]);
+  // Refetched calendars come back as a new array; the ids only change when calendars are added or removed.
+  const eventCalendarIdsKey = calendars
+    .filter((cal: any) => cal.calendarType !== "holiday" && cal.calendarId)
+    .map((cal: any) => cal.calendarId)
+    .join(",");
+  const eventCalendarIds = useMemo(
+    () => (eventCalendarIdsKey ? eventCalendarIdsKey.split(",").map(Number) : []),
+    [eventCalendarIdsKey]
+  );
+
+  // What the calendar view shows; the current month until it reports its range.
+  const [visibleRange, setVisibleRange] = useState<DateWindow>(() => ({
+    start: startOfMonth(new Date()),
+    end: endOfMonth(new Date()),
+  }));
+
+  // The task views list every open task, so they still load whole calendars.
+  const loadWindows = useMemo(
+    () => mainView === 'calendar' ? getMonthWindows(visibleRange) : null,
+    [mainView, visibleRange]
+  );
 
+  // Moves on at midnight, so a page left open keeps loading the right day.
+  const [today, setToday] = useState(() => startOfDay(new Date()));
   useEffect(() => {
-    const fetchHolidays = async () => {
-      try {
-        const data: any[] = await calendarService.getHolidays();
-        const holidayCalendar = calendars.find(cal => cal.calendarType === "holiday");
-        const holidayColor = holidayCalendar?.color || "#FF7043";
-        
-        const transformedHolidays: CalendarEvent[] = data.map((holiday) => {
-          let startStr: string = holiday.startedAt;
-          if (startStr && !startStr.includes("T")) {
-            startStr = startStr + "T00:00";
-          }
-          return {
-            id: holiday.title,
-            title: holiday.title,
-            start: startStr,
-            calendarId: "holiday",
-            type: "holiday",
-            color: holidayColor, 
-            description: holiday.description,
-          };
-        });
-        
-        setHolidayEvents(transformedHolidays);
-      } catch (error) {
-        console.error("Error fetching holidays:", error);
+    const timer = setTimeout(
+      () => setToday(startOfDay(new Date())),
+      addDays(today, 1).getTime() - Date.now()
+    );
+    return () => clearTimeout(timer);
+  }, [today]);
+
+  // The today panel needs today and every open task, whatever month the calendar shows.
+  const todayWindows = useMemo(
+    () => mainView === 'calendar' ? getMonthWindows({ start: today, end: endOfDay(today) }) : null,
+    [mainView, today]
+  );
+
+  // Reminders look up to a week ahead, in every view.
+  const reminderWindows = useMemo(() => getMonthWindows(getReminderRange(today)), [today]);
+
+  const calendarEventsMap = useCalendarEventsByCalendar(
+    eventCalendarIds,
+    authUser?.id ? Number(authUser.id) : undefined,
+    loadWindows,
+    true
+  );
+
+  const { data: holidays } = useGetHolidaysQuery();
+  const holidayEvents: CalendarEvent[] = useMemo(() => {
+    const holidayCalendar = calendars.find(cal => cal.calendarType === "holiday");
+    const holidayColor = holidayCalendar?.color || "#FF7043";
+
+    return (holidays || []).map((holiday) => {
+      let startStr: string = holiday.startedAt;
+      if (startStr && !startStr.includes("T")) {
+        startStr = startStr + "T00:00";
       }
-    };
-    fetchHolidays();
-  }, [calendars]);
+      return {
+        id: holiday.title,
+        title: holiday.title,
+        start: startStr,
+        calendarId: "holiday",
+        type: "holiday",
+        color: holidayColor, 
+        description: holiday.description,
+      };
+    });
+  }, [holidays, calendars]);
 
   const formattedCalendars: CalendarData[] = useMemo(() => {
     
@@ -144,26 +317,7 @@ const CalendarPage: React.FC = () => {
       if (item.calendarType === "holiday") {
         calendarEvents = holidayEvents;
       } else if (calendarEventsMap[calId] && Array.isArray(calendarEventsMap[calId])) {
-        calendarEvents = calendarEventsMap[calId].map((participation: any) => {
-          const event = participation.event;
-          if (!event) return null;
-
-          return {
-            id: String(event.id),
-            title: event.name,
-            start: event.startedAt,
-            end: event.endedAt,
-            description: event.description,
-            calendarId: String(calId),
-            type: event.type,
-            color: participation.color || item.color,
-            category: event.category,
-            priority: event.task?.priority,
-            isCompleted: event.task?.isCompleted,
-            creatorId: event.creatorId,
-            participations: [participation]
-          };
-        }).filter(Boolean);
+        calendarEvents = toCalendarEvents(calendarEventsMap[calId], String(calId), item.color);
       }
       
       return {
@@ -182,45 +336,35 @@ const CalendarPage: React.FC = () => {
     });
   }, [calendars, holidayEvents, calendarEventsMap]);
 
-  const allEvents: CalendarEvent[] = useMemo(() => {
-    const addedEventIds = new Set<string>();
-    const result: CalendarEvent[] = [];
-    
-    const additionalCalendars = formattedCalendars
-      .filter(cal => 
-        cal.isVisible && 
-        cal.events && 
-        cal.events.length > 0 && 
-        cal.calendarType !== 'main'
-      );
-      
-    for (const cal of additionalCalendars) {
-      for (const event of cal.events || []) {
-        if (event && event.id) {
-          addedEventIds.add(event.id);
-          result.push(event);
-        }
-      }
-    }
-    
-    const mainCalendars = formattedCalendars
-      .filter(cal => 
-        cal.isVisible && 
-        cal.events && 
-        cal.events.length > 0 && 
-        cal.calendarType === 'main'
-      );
-      
-    for (const cal of mainCalendars) {
-      for (const event of cal.events || []) {
-        if (event && event.id && !addedEventIds.has(event.id)) {
-          result.push(event);
-        }
-      }
-    }
-    
-    return result;
-  }, [formattedCalendars]);
+  const allEvents: CalendarEvent[] = useMemo(
+    () => getVisibleEvents(formattedCalendars),
+    [formattedCalendars]
+  );
+
+  const todayEventsMap = useCalendarEventsByCalendar(
+    eventCalendarIds,
+    authUser?.id ? Number(authUser.id) : undefined,
+    todayWindows
+  );
+  const todayEvents: CalendarEvent[] = useMemo(
+    () => getVisibleEvents(withCalendarEvents(formattedCalendars, todayEventsMap)),
+    [formattedCalendars, todayEventsMap]
+  );
+
+  const reminderEventsMap = useCalendarEventsByCalendar(
+    eventCalendarIds,
+    authUser?.id ? Number(authUser.id) : undefined,
+    reminderWindows
+  );
+  const reminderEvents: CalendarEvent[] = useMemo(
+    () => getVisibleEvents(withCalendarEvents(formattedCalendars, reminderEventsMap)),
+    [formattedCalendars, reminderEventsMap]
+  );
+
+  const importableCalendars = useMemo(() => formattedCalendars.filter(cal =>
+    cal.calendarType !== 'holiday' &&
+    (String(cal.creatorId) === String(authUser?.id) || cal.role === 'owner' || cal.role === 'editor')
+  ), [formattedCalendars, authUser]);
 
   const closeModal = () => {
     setModalData({ type: null });
@@ -304,6 +448,66 @@ const CalendarPage: React.FC = () => {
     closeModal();
   };
 
+  const handleExportCalendar = async () => {
+    const calendar = formattedCalendars.find(cal => cal.id === modalData.calendarId);
+    if (!calendar || !authUser?.id) return;
+
+    let events = calendar.events || [];
+    // Calendar events only carry the user's own participation; attendees are everyone taking part.
+    const attendeesById = new Map<string, EventParticipation[]>();
+
+    // The calendar view only loads the months on screen, so the export reads the whole calendar.
+    if (calendar.calendarType !== "holiday") {
+      try {
+        const participations = await dispatch(
+          planqApi.endpoints.getCalendarEvents.initiate(
+            { calendarId: Number(calendar.id), userId: Number(authUser.id) },
+            { subscribe: false }
+          )
+        ).unwrap();
+        events = toCalendarEvents(participations, calendar.id, calendar.color);
+        participations.forEach((participation) => {
+          if (participation.event?.participations) {
+            attendeesById.set(String(participation.event.id), participation.event.participations);
+          }
+        });
+      } catch (error) {
+        console.error("Error loading events to export:", error);
+        setAlertMessage("Failed to export calendar");
+        return;
+      }
+    }
+
+    if (exportRange === "range") {
+      const rangeStart = new Date(`${exportFrom}T00:00:00`);
+      const rangeEnd = addDays(new Date(`${exportTo}T00:00:00`), 1);
+      // Recurring series are exported whole when any of their occurrences falls in the range.
+      const idsInRange = new Set(
+        expandRecurringEvents(events, rangeStart, rangeEnd)
+          .filter(event => new Date(event.start) < rangeEnd &&
+            new Date(event.end || event.start) >= rangeStart)
+          .map(event => event.id)
+      );
+      events = events.filter(event => idsInRange.has(event.id));
+    }
+
+    if (events.length === 0) {
+      setAlertMessage("No events to export");
+      return;
+    }
+
+    const content = buildICalendar(
+      events.map((event) => calendarEventToICal({
+        ...event,
+        participations: attendeesById.get(event.id) ?? event.participations,
+      })),
+      { name: calendar.title }
+    );
+    downloadFile(content, getICalFileName(calendar.title), "text/calendar;charset=utf-8");
+    setAlertMessage(`Exported ${events.length} event${events.length === 1 ? "" : "s"}`);
+    closeModal();
+  };
+
   const handleEditCalendar = () => { 
     try {
       if (!modalData.calendarId) return;
@@ -319,88 +523,25 @@ const CalendarPage: React.FC = () => {
     }
   };
 
-const handleAddEvent = async (newEvent: CalendarEvent & { deleted?: boolean }) => {
-  
-  if (authUser && authUser.id) {
-    try {
-      const calendarId = newEvent.calendarId;
-      
-      if (newEvent.deleted) {
-        
-        const mainCalendar = formattedCalendars.find(cal => 
-          cal.calendarType === 'main' && 
-          cal.isVisible
-        );
-        
-        setCalendarEventsMap(prevMap => {
-          const newMap = { ...prevMap };
-          
-          if (newMap[calendarId]) {
-            newMap[calendarId] = newMap[calendarId].filter(participation => 
-              participation.event && String(participation.event.id) !== String(newEvent.id)
-            );
-          }
-          
-          if (mainCalendar && mainCalendar.id && newMap[mainCalendar.id]) {
-            newMap[mainCalendar.id] = newMap[mainCalendar.id].filter(participation => 
-              participation.event && String(participation.event.id) !== String(newEvent.id)
-            );
-          }
-          
-          return newMap;
-        });
-        
-        const updatedEvents = await dispatch(getCalendarEvents(calendarId, authUser.id));
-        
-        if (mainCalendar && mainCalendar.id) {
-          const mainEvents = await dispatch(getCalendarEvents(mainCalendar.id, authUser.id));
-          
-          setCalendarEventsMap(prevMap => ({
-            ...prevMap,
-            [calendarId]: updatedEvents,
-            [mainCalendar.id]: mainEvents
-          }));
-        } else {
-          setCalendarEventsMap(prevMap => ({
-            ...prevMap,
-            [calendarId]: updatedEvents
-          }));
-        }
-      } else {
-        const events = await dispatch(getCalendarEvents(calendarId, authUser.id));
-        
-        const mainCalendar = formattedCalendars.find(cal => 
-          cal.calendarType === 'main' && 
-          cal.isVisible
-        );
-        
-        if (mainCalendar && mainCalendar.id) {
-          if (calendarId !== mainCalendar.id) {
-            const mainEvents = await dispatch(getCalendarEvents(mainCalendar.id, authUser.id));
-            
-            setCalendarEventsMap(prevMap => ({
-              ...prevMap,
-              [calendarId]: events,
-              [mainCalendar.id]: mainEvents
-            }));
-          } else {
-            setCalendarEventsMap(prevMap => ({
-              ...prevMap,
-              [calendarId]: events
-            }));
-          }
-        } else {
-          setCalendarEventsMap(prevMap => ({
-            ...prevMap,
-            [calendarId]: events
-          }));
-        }
-      }
-    } catch (error) {
-      console.error("Error handling event action:", error);
-    }
-  }
-};
+  // The changed calendar and the main calendar that mirrors its events; their cached queries refetch.
+  const refreshCalendarEvents = (calendarIds: string[]) => {
+    const mainCalendar = formattedCalendars.find(cal => 
+      cal.calendarType === 'main' && 
+      cal.isVisible
+    );
+    const ids = Array.from(new Set([...calendarIds, ...(mainCalendar ? [mainCalendar.id] : [])]));
+
+    dispatch(planqApi.util.invalidateTags(ids.map((id) => ({ type: "CalendarEvents" as const, id: Number(id) }))));
+  };
+
+  const handleAddEvent = (newEvent: CalendarEvent & { deleted?: boolean }) => {
+    refreshCalendarEvents([newEvent.calendarId]);
+  };
+
+  const handleImportComplete = (calendarId: string, count: number) => {
+    setAlertMessage(`Imported ${count} item${count === 1 ? "" : "s"}`);
+    refreshCalendarEvents([calendarId]);
+  };
 
   const fetchSharedUsers = async (calendarId: string) => {
     try {
@@ -440,7 +581,9 @@ const handleAddEvent = async (newEvent: CalendarEvent & { deleted?: boolean }) =
   const handleUserRoleSave = async (userId: string) => {
     if (!sharedCalendarId) return;
     try {
-      await calendarService.updateUserRole(sharedCalendarId, userId, editedRole);
+      await dispatch(
+        planqApi.endpoints.updateCalendarUserRole.initiate({ calendarId: sharedCalendarId, userId, role: editedRole })
+      ).unwrap();
       const updatedUsers = await fetchSharedUsers(sharedCalendarId);
       setSharedUsers(updatedUsers);
       setAlertMessage("Role updated successfully");
@@ -454,7 +597,9 @@ const handleAddEvent = async (newEvent: CalendarEvent & { deleted?: boolean }) =
   const handleRemoveUser = async (userId: string) => {
     if (!sharedCalendarId) return;
     try {
-      await calendarService.removeUserFromCalendar(sharedCalendarId, userId);
+      await dispatch(
+        planqApi.endpoints.removeCalendarUser.initiate({ calendarId: sharedCalendarId, userId })
+      ).unwrap();
       const updatedUsers = await fetchSharedUsers(sharedCalendarId);
       setSharedUsers(updatedUsers);
       setAlertMessage("User removed successfully");
@@ -467,7 +612,9 @@ const handleAddEvent = async (newEvent: CalendarEvent & { deleted?: boolean }) =
   const handleLeaveCalendar = async (calendarId: string) => {
     if (!authUser || !authUser.id) return;
     try {
-      await calendarService.leaveCalendar(calendarId, String(authUser.id));
+      await dispatch(
+        planqApi.endpoints.leaveCalendar.initiate({ calendarId, userId: String(authUser.id) })
+      ).unwrap();
       setAlertMessage("You have left the calendar");
       closeModal();
     } catch (error) {
@@ -800,7 +947,7 @@ const handleAddEvent = async (newEvent: CalendarEvent & { deleted?: boolean }) =
                           <li key={item.id} className="p-3 hover:bg-gray-50">
                             <div className="flex items-center space-x-3">
                               <img
-                                src={`http://localhost:3000/uploads/avatars/${item.user.profilePictureName}`}
+                                src={getAvatarUrl(item.user.profilePictureName)}
                                 alt="avatar"
                                 className="w-10 h-10 rounded-full object-cover"
                               />
@@ -911,6 +1058,115 @@ const handleAddEvent = async (newEvent: CalendarEvent & { deleted?: boolean }) =
           </div>
         );
 
+      case 'export':
+        return (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[1000]">
+            <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+              <div className="flex justify-between items-center px-6 py-4 border-b">
+                <h2 className="text-lg font-semibold text-gray-800">Export "{modalData.calendarTitle || "Untitled"}"</h2>
+                <button 
+                  onClick={closeModal}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              <div className="p-6">
+                <form onSubmit={(e) => { e.preventDefault(); handleExportCalendar(); }}>
+                  <div className="space-y-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        checked={exportRange === "all"}
+                        onChange={() => setExportRange("all")}
+                      />
+                      All events
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        checked={exportRange === "range"}
+                        onChange={() => setExportRange("range")}
+                      />
+                      Date range
+                    </label>
+                    {exportRange === "range" && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            From
+                          </label>
+                          <input
+                            type="date"
+                            value={exportFrom}
+                            onChange={(e) => setExportFrom(e.target.value)}
+                            className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                            required
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            To
+                          </label>
+                          <input
+                            type="date"
+                            value={exportTo}
+                            min={exportFrom}
+                            onChange={(e) => setExportTo(e.target.value)}
+                            className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                            required
+                          />
+                        </div>
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      The .ics file can be imported into Outlook, Apple Calendar or Google Calendar.
+                    </p>
+                  </div>
+
+                  <div className="flex justify-end mt-6 space-x-3">
+                    <button
+                      type="button"
+                      onClick={closeModal}
+                      className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      className="px-4 py-2 text-sm text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 flex items-center"
+                    >
+                      <Download size={16} className="mr-1" />
+                      Export
+                    </button>
+                  </div>
+                </form>
+              </div>
+            </div>
+          </div>
+        );
+
+      case 'import':
+        return (
+          <IcsImportModal
+            calendars={importableCalendars}
+            defaultCalendarId={modalData.calendarId}
+            onClose={closeModal}
+            onImported={handleImportComplete}
+          />
+        );
+
+      case 'importCsv':
+        return (
+          <CsvImportWizard
+            calendars={importableCalendars}
+            defaultCalendarId={modalData.calendarId}
+            onClose={closeModal}
+            onImported={handleImportComplete}
+          />
+        );
+
       default:
         return null;
     }
@@ -973,12 +1229,67 @@ const handleAddEvent = async (newEvent: CalendarEvent & { deleted?: boolean }) =
         {/* Main content area */}
         <div className="flex-1 overflow-auto bg-white border-l border-gray-200">
           <div className="p-4 md:p-6">
-            <CustomCalendar
-              events={allEvents}
-              calendars={formattedCalendars}
-              onAddEvent={handleAddEvent}
-              setAlertMessage={setAlertMessage}
-            />
+            <div className="flex justify-end mb-4">
+              <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+                <button
+                  onClick={() => setMainView('calendar')}
+                  className={`flex items-center px-3 py-1.5 ${mainView === 'calendar' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  <CalendarDays size={16} className="mr-1" />
+                  Calendar
+                </button>
+                <button
+                  onClick={() => setMainView('tasks')}
+                  className={`flex items-center px-3 py-1.5 ${mainView === 'tasks' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  <ListChecks size={16} className="mr-1" />
+                  Tasks
+                </button>
+                <button
+                  onClick={() => setMainView('board')}
+                  className={`flex items-center px-3 py-1.5 ${mainView === 'board' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                >
+                  <KanbanSquare size={16} className="mr-1" />
+                  Board
+                </button>
+              </div>
+            </div>
+
+            {mainView === 'tasks' ? (
+              <TaskPanel
+                events={allEvents}
+                calendars={formattedCalendars}
+                onTasksChanged={refreshCalendarEvents}
+                setAlertMessage={setAlertMessage}
+              />
+            ) : mainView === 'board' ? (
+              <TaskBoard
+                events={allEvents}
+                calendars={formattedCalendars}
+                onTasksChanged={refreshCalendarEvents}
+                setAlertMessage={setAlertMessage}
+              />
+            ) : (
+              <div className="flex flex-col xl:flex-row gap-4">
+                <div className="flex-1 min-w-0">
+                  <CustomCalendar
+                    events={allEvents}
+                    calendars={formattedCalendars}
+                    onAddEvent={handleAddEvent}
+                    onVisibleRangeChange={setVisibleRange}
+                    setAlertMessage={setAlertMessage}
+                  />
+                </div>
+                <div className="xl:w-72 flex-shrink-0">
+                  <TodayPanel
+                    events={todayEvents}
+                    calendars={formattedCalendars}
+                    onTasksChanged={refreshCalendarEvents}
+                    setAlertMessage={setAlertMessage}
+                  />
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -987,6 +1298,8 @@ const handleAddEvent = async (newEvent: CalendarEvent & { deleted?: boolean }) =
       {alertMessage && (
         <Alert message={alertMessage} onClose={() => setAlertMessage(null)} />
       )}
+
+      <ReminderCenter events={reminderEvents} />
       
       {renderModalContent()}
     </div>
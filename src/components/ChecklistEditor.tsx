@@ -0,0 +1,133 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronUp, ListChecks, Plus, X } from "lucide-react";
+import { ChecklistItem } from "../types/eventTypes";
+import { getChecklistProgress } from "../lib/tasks";
+
+interface ChecklistEditorProps {
+  value: ChecklistItem[];
+  onChange: (value: ChecklistItem[]) => void;
+  label?: string;
+}
+
+const ChecklistEditor: React.FC<ChecklistEditorProps> = ({
+  value,
+  onChange,
+  label = "Checklist",
+}) => {
+  const [newItemText, setNewItemText] = useState("");
+  const progress = getChecklistProgress(value);
+
+  const updateItem = (index: number, changes: Partial<ChecklistItem>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= value.length) return;
+
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addItem = () => {
+    const text = newItemText.trim();
+    if (!text) return;
+
+    onChange([...value, { text, isDone: false }]);
+    setNewItemText("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center justify-between text-sm font-medium text-gray-700">
+        <span>{label}</span>
+        {progress && (
+          <span className="text-xs font-normal text-gray-500">
+            {progress.done}/{progress.total} done
+          </span>
+        )}
+      </label>
+
+      {value.length > 0 && (
+        <ul className="space-y-1">
+          {value.map((item, index) => (
+            <li key={index} className="flex items-center gap-2 group">
+              <input
+                type="checkbox"
+                checked={item.isDone}
+                onChange={(e) => updateItem(index, { isDone: e.target.checked })}
+                className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              />
+              <input
+                type="text"
+                value={item.text}
+                onChange={(e) => updateItem(index, { text: e.target.value })}
+                className={`flex-1 min-w-0 border border-transparent rounded-md px-2 py-1 text-sm hover:border-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  item.isDone ? "line-through text-gray-400" : "text-gray-800"
+                }`}
+              />
+              <button
+                type="button"
+                onClick={() => moveItem(index, -1)}
+                disabled={index === 0}
+                className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move up"
+              >
+                <ChevronUp size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveItem(index, 1)}
+                disabled={index === value.length - 1}
+                className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move down"
+              >
+                <ChevronDown size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-600"
+                title="Remove step"
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="relative flex gap-2">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <ListChecks size={16} className="text-gray-400" />
+        </div>
+        <input
+          type="text"
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter adds a step instead of submitting the surrounding form.
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addItem();
+            }
+          }}
+          placeholder="Add a step"
+          className="pl-10 flex-1 border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button
+          type="button"
+          onClick={addItem}
+          disabled={!newItemText.trim()}
+          className="px-3 rounded-md border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+          title="Add step"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChecklistEditor;
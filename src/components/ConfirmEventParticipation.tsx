@@ -7,6 +7,7 @@ import { Button } from "./ui/button";
 import { Card, CardContent, CardHeader } from "./ui/card";
 import { Alert, AlertDescription } from "./ui/alert";
 import { CheckCircle2, XCircle, Loader2, ArrowRight } from "lucide-react";
+import { getApiErrorMessage } from "../services/planqApi";
 
 function ConfirmEventParticipation() {
   const [message, setMessage] = useState("");
@@ -28,9 +29,9 @@ function ConfirmEventParticipation() {
           setMessage("You have successfully confirmed your participation in the event!");
           setIsSuccess(true);
         }
-      } catch (err: any) {
+      } catch (err) {
         setMessage(
-          err.response?.data?.message || 
+          getApiErrorMessage(err) || 
           "An error occurred during event participation confirmation. Please try again or contact support."
         );
         setIsSuccess(false);
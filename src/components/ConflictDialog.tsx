@@ -0,0 +1,97 @@
+import React from "react";
+import { format, isSameDay } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { BusyInterval, TimeSlot } from "../lib/availability";
+import { toZonedTime } from "../lib/timezone";
+
+interface ConflictDialogProps {
+  conflicts: BusyInterval[];
+  /** Free slots on the same day, as instants. */
+  suggestions: TimeSlot[];
+  /** Zone the times are shown in. */
+  timeZone: string;
+  onProceed: () => void;
+  onPickSlot: (slot: TimeSlot) => void;
+  onCancel: () => void;
+}
+
+const formatRange = (slot: TimeSlot, timeZone: string) => {
+  const start = toZonedTime(slot.start, timeZone);
+  const end = toZonedTime(slot.end, timeZone);
+  return `${format(start, "EEE, MMM d, h:mm a")} – ${format(end, isSameDay(start, end) ? "h:mm a" : "EEE, MMM d, h:mm a")}`;
+};
+
+const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  conflicts,
+  suggestions,
+  timeZone,
+  onProceed,
+  onPickSlot,
+  onCancel,
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+        <div className="px-6 py-4 border-b flex items-center">
+          <AlertTriangle size={18} className="mr-2 text-amber-500" />
+          <h3 className="text-lg font-semibold text-gray-800">
+            {conflicts.length === 1 ? "This clashes with another event" : `This clashes with ${conflicts.length} events`}
+          </h3>
+        </div>
+        <div className="p-6 space-y-4">
+          <ul className="space-y-2">
+            {conflicts.map((conflict) => (
+              <li
+                key={`${conflict.eventId}-${conflict.start.getTime()}`}
+                className="px-3 py-2 rounded-md bg-amber-50 border border-amber-200 text-sm"
+              >
+                <div className="font-medium text-gray-800 truncate">{conflict.name}</div>
+                <div className="text-xs text-gray-600">{formatRange(conflict, timeZone)}</div>
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            <div className="text-xs font-medium text-gray-600 mb-1">Free slots that day</div>
+            {suggestions.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {suggestions.map((slot) => (
+                  <button
+                    key={slot.start.getTime()}
+                    type="button"
+                    onClick={() => onPickSlot(slot)}
+                    className="px-2 py-1 text-xs rounded-md border border-emerald-300 bg-emerald-50 text-emerald-800 hover:bg-emerald-100"
+                  >
+                    {format(toZonedTime(slot.start, timeZone), "h:mm a")}
+                    {" – "}
+                    {format(toZonedTime(slot.end, timeZone), "h:mm a")}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500">No free slot left during working hours.</div>
+            )}
+          </div>
+        </div>
+        <div className="px-6 py-4 bg-gray-50 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium shadow-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onProceed}
+            className="px-4 py-2 text-white rounded-md transition-colors text-sm font-medium shadow-sm bg-amber-600 hover:bg-amber-700"
+          >
+            Save anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
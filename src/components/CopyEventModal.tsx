@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { differenceInCalendarDays, format, parse } from "date-fns";
+import { Loader2, X } from "lucide-react";
+import { AppDispatch, RootState } from "../store";
+import { createEvent } from "../actions/eventActions";
+import { Event, EventType } from "../types/eventTypes";
+import { CalendarData } from "./CustomCalendar";
+import { buildEventCopyPayload } from "../lib/eventCopy";
+import { getOtherParticipants } from "../lib/templates";
+import { getBrowserTimeZone, toZonedTime } from "../lib/timezone";
+import { getApiErrorMessage } from "../services/planqApi";
+
+export type CopyEventMode = "duplicate" | "copy";
+
+interface CopyEventModalProps {
+  event: Event;
+  mode: CopyEventMode;
+  calendars: CalendarData[];
+  onClose: () => void;
+  onCopied: (newEvent: Event, calendarId: number) => void;
+}
+
+const CopyEventModal: React.FC<CopyEventModalProps> = ({ event, mode, calendars, onClose, onCopied }) => {
+  const dispatch: AppDispatch = useDispatch();
+  const authUser = useSelector((state: RootState) => state.auth.user);
+  const { displayTimeZone } = useSelector((state: RootState) => state.preferences.preferences);
+  const timeZone = displayTimeZone || getBrowserTimeZone();
+
+  const sourceCalendarId = String(event.participations?.[0]?.calendarMember?.calendarId ?? "");
+  const writableCalendars = calendars.filter(cal => {
+    const role = cal.role?.toLowerCase();
+    return cal.calendarType !== "holiday" && (role === "owner" || role === "editor");
+  });
+  const defaultCalendar = mode === "duplicate"
+    ? writableCalendars.find(cal => cal.id === sourceCalendarId) || writableCalendars[0]
+    : writableCalendars.find(cal => cal.id !== sourceCalendarId) || writableCalendars[0];
+
+  const originalDay = toZonedTime(new Date(event.startedAt), timeZone);
+  const participants = event.type === EventType.ARRANGEMENT
+    ? getOtherParticipants(event, authUser?.id ? Number(authUser.id) : undefined)
+    : [];
+
+  const [calendarId, setCalendarId] = useState(defaultCalendar?.id || "");
+  const [startDate, setStartDate] = useState(format(originalDay, "yyyy-MM-dd"));
+  const [keepParticipants, setKeepParticipants] = useState(true);
+  const [isCopying, setIsCopying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const calendar = writableCalendars.find(cal => cal.id === calendarId);
+    const newDay = parse(startDate, "yyyy-MM-dd", originalDay);
+    if (!calendar || isNaN(newDay.getTime())) return;
+
+    const payload = buildEventCopyPayload(event, {
+      calendarId: parseInt(calendar.id),
+      // A copy in the same calendar keeps its own color; elsewhere it takes the calendar's.
+      color: calendar.id === sourceCalendarId
+        ? event.participations?.[0]?.color || calendar.color
+        : calendar.color,
+      dayShift: differenceInCalendarDays(newDay, originalDay),
+      keepParticipants,
+      currentUserId: authUser?.id ? Number(authUser.id) : undefined,
+    });
+
+    setIsCopying(true);
+    setError(null);
+
+    try {
+      const newEvent: Event = await dispatch(createEvent(payload, { silent: true }));
+      onCopied(newEvent, payload.calendarId);
+    } catch (error) {
+      console.error("Error copying event:", error);
+      setError(
+        getApiErrorMessage(error) ||
+        "Couldn't create the copy. Please try again."
+      );
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[1000] p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+        <div className="bg-indigo-600 text-white px-6 py-4 flex justify-between items-center">
+          <h2 className="text-xl font-bold">{mode === "duplicate" ? "Duplicate event" : "Copy to calendar"}</h2>
+          <button onClick={onClose} className="text-white hover:text-indigo-100">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="text-sm text-slate-600">
+            <span className="font-medium text-slate-800">{event.name}</span>
+            {" · "}
+            {format(originalDay, "EEE, MMM d, h:mm a")}
+          </div>
+
+          {writableCalendars.length === 0 ? (
+            <div className="p-3 rounded-md bg-red-50 text-sm text-red-700">
+              You don't have a calendar you can add events to.
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Calendar
+                </label>
+                <select
+                  value={calendarId}
+                  onChange={(e) => setCalendarId(e.target.value)}
+                  className="w-full border border-slate-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {writableCalendars.map(cal => (
+                    <option key={cal.id} value={cal.id}>
+                      {cal.title}{cal.id === sourceCalendarId ? " (current)" : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">
+                  Date
+                </label>
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="w-full border border-slate-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  required
+                />
+                <p className="mt-1 text-xs text-slate-500">The time and duration stay the same.</p>
+              </div>
+
+              {participants.length > 0 && (
+                <label className="flex items-start text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={keepParticipants}
+                    onChange={(e) => setKeepParticipants(e.target.checked)}
+                    className="h-4 w-4 mt-0.5 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  />
+                  <span>
+                    Keep participants
+                    <span className="block text-xs text-slate-500">
+                      {participants.map(participant => participant.email).join(", ")}
+                    </span>
+                  </span>
+                </label>
+              )}
+            </>
+          )}
+
+          {error && (
+            <div className="p-3 rounded-md bg-red-50 text-sm text-red-700">{error}</div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-md hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isCopying || writableCalendars.length === 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors flex items-center disabled:opacity-50"
+            >
+              {isCopying && <Loader2 size={16} className="mr-2 animate-spin" />}
+              {mode === "duplicate" ? "Duplicate and edit" : "Copy and edit"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CopyEventModal;
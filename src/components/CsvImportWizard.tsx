@@ -0,0 +1,393 @@
+import React, { useMemo, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { skipToken } from "@reduxjs/toolkit/query/react";
+import { AlertCircle, Check, FileUp, X } from "lucide-react";
+import { AppDispatch, RootState } from "../store";
+import { createEvent, updateEvent } from "../actions/eventActions";
+import { CalendarData } from "./CustomCalendar";
+import {
+  CSV_FIELDS,
+  CsvColumnMapping,
+  CsvField,
+  CsvRowResult,
+  detectCsvDelimiter,
+  guessColumnMapping,
+  parseCsv,
+  validateCsvRow,
+} from "../lib/csv";
+import { getDuplicateKey, getExistingEventKeys } from "../lib/importDuplicates";
+import { getApiErrorMessage, useGetCalendarEventsQuery } from "../services/planqApi";
+
+interface CsvImportWizardProps {
+  calendars: CalendarData[];
+  defaultCalendarId?: string;
+  onClose: () => void;
+  onImported: (calendarId: string, count: number) => void;
+}
+
+type WizardStep = "upload" | "map" | "review";
+
+const STEP_TITLES: Record<WizardStep, string> = {
+  upload: "1. Choose file",
+  map: "2. Map columns",
+  review: "3. Review and import",
+};
+
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({
+  calendars,
+  defaultCalendarId,
+  onClose,
+  onImported,
+}) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const authUser = useSelector((state: RootState) => state.auth.user);
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [calendarId, setCalendarId] = useState(defaultCalendarId || calendars[0]?.id || "");
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importedRows, setImportedRows] = useState<number[]>([]);
+  const [failedRows, setFailedRows] = useState<Record<number, string>>({});
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = hasHeaderRow && rows.length > 0
+    ? rows[0]
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+  const dataRows = useMemo(() => hasHeaderRow ? rows.slice(1) : rows, [rows, hasHeaderRow]);
+  const firstRowNumber = hasHeaderRow ? 2 : 1;
+
+  const results = useMemo(
+    () => dataRows.map((row, index) => validateCsvRow(row, mapping, index + firstRowNumber)),
+    [dataRows, mapping, firstRowNumber]
+  );
+  const missingRequired = CSV_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined);
+  const targetCalendar = calendars.find(cal => cal.id === calendarId);
+
+  // The calendar only holds the months on screen, so duplicates are looked for in the whole calendar.
+  const { currentData: existingEvents, isFetching: isLoadingExisting } = useGetCalendarEventsQuery(
+    targetCalendar && authUser?.id
+      ? { calendarId: Number(targetCalendar.id), userId: Number(authUser.id) }
+      : skipToken
+  );
+  const existingKeys = useMemo(() => getExistingEventKeys(existingEvents), [existingEvents]);
+
+  const validResults = results.filter(result => result.payload);
+  const invalidResults = results.filter(result => !result.payload);
+  const isDuplicate = (result: CsvRowResult) =>
+    !!result.payload && existingKeys.has(getDuplicateKey(result.payload.name, result.payload.startedAt));
+  const duplicateResults = validResults.filter(result =>
+    !importedRows.includes(result.rowNumber) && isDuplicate(result)
+  );
+  const pendingResults = validResults.filter(result =>
+    !importedRows.includes(result.rowNumber) && !isDuplicate(result)
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setFileError(null);
+    setImportedRows([]);
+    setFailedRows({});
+
+    const text = await file.text();
+    const parsed = parseCsv(text, detectCsvDelimiter(text));
+
+    if (parsed.length === 0) {
+      setFileError("The file is empty.");
+      setRows([]);
+      return;
+    }
+
+    setRows(parsed);
+    setMapping(hasHeaderRow ? guessColumnMapping(parsed[0]) : {});
+  };
+
+  const handleHeaderRowChange = (checked: boolean) => {
+    setHasHeaderRow(checked);
+    setMapping(checked && rows.length > 0 ? guessColumnMapping(rows[0]) : {});
+  };
+
+  const handleMappingChange = (field: CsvField, value: string) => {
+    const next = { ...mapping };
+    if (value === "") {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    if (!targetCalendar) return;
+
+    setIsImporting(true);
+    const imported = [...importedRows];
+    const failed: Record<number, string> = {};
+
+    for (const result of pendingResults) {
+      if (!result.payload) continue;
+
+      try {
+        const newEvent = await dispatch(createEvent({
+          ...result.payload,
+          calendarId: Number(targetCalendar.id),
+          color: targetCalendar.color,
+        }, { silent: true }));
+        if (result.isCompleted) {
+          await dispatch(updateEvent(newEvent.id, { isCompleted: true }, { silent: true }));
+        }
+        imported.push(result.rowNumber);
+      } catch (error) {
+        failed[result.rowNumber] = getApiErrorMessage(error)
+          || "Failed to create event";
+      }
+    }
+
+    setImportedRows(imported);
+    setFailedRows(failed);
+    setIsImporting(false);
+
+    const count = imported.length - importedRows.length;
+    if (count > 0) {
+      onImported(targetCalendar.id, count);
+    }
+  };
+
+  const renderUploadStep = () => (
+    <div className="space-y-4">
+      <label className="flex flex-col items-center justify-center w-full rounded-md border-2 border-dashed border-gray-300 px-3 py-8 text-sm text-gray-600 cursor-pointer hover:bg-gray-50">
+        <FileUp size={24} className="mb-2 text-gray-400" />
+        <span>{fileName || "Choose a .csv file"}</span>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={hasHeaderRow}
+          onChange={(e) => handleHeaderRowChange(e.target.checked)}
+        />
+        First row contains column names
+      </label>
+      {fileError && (
+        <div className="flex items-center p-3 bg-red-50 text-red-700 rounded-md text-sm">
+          <AlertCircle size={16} className="mr-2" />
+          {fileError}
+        </div>
+      )}
+      {rows.length > 0 && (
+        <p className="text-sm text-gray-600">
+          {dataRows.length} row{dataRows.length === 1 ? "" : "s"}, {columnCount} column{columnCount === 1 ? "" : "s"} found.
+        </p>
+      )}
+    </div>
+  );
+
+  const renderMapStep = () => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Target calendar
+        </label>
+        <select
+          value={calendarId}
+          onChange={(e) => setCalendarId(e.target.value)}
+          className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {calendars.map(cal => (
+            <option key={cal.id} value={cal.id}>{cal.title}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {CSV_FIELDS.map(({ field, label, required }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {label}{required && <span className="text-red-500"> *</span>}
+            </label>
+            <select
+              value={mapping[field] ?? ""}
+              onChange={(e) => handleMappingChange(field, e.target.value)}
+              className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">— Not mapped —</option>
+              {headers.map((header, index) => (
+                <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Dates are read as YYYY-MM-DD HH:mm, DD.MM.YYYY HH:mm or MM/DD/YYYY HH:mm. Unmapped type, category and priority
+        default to arrangement, home and medium; without an end the event lasts one hour (or the whole day for dates without a time).
+      </p>
+    </div>
+  );
+
+  const renderReviewStep = () => (
+    <div className="space-y-4">
+      <div className="flex gap-3 text-sm">
+        <span className="px-2 py-1 rounded bg-emerald-50 text-emerald-700">
+          {validResults.length} valid
+        </span>
+        <span className={`px-2 py-1 rounded ${invalidResults.length > 0 ? 'bg-red-50 text-red-700' : 'bg-gray-50 text-gray-500'}`}>
+          {invalidResults.length} with errors
+        </span>
+        {duplicateResults.length > 0 && (
+          <span className="px-2 py-1 rounded bg-amber-50 text-amber-700">
+            {duplicateResults.length} already in calendar
+          </span>
+        )}
+        {importedRows.length > 0 && (
+          <span className="px-2 py-1 rounded bg-indigo-50 text-indigo-700">
+            {importedRows.length} imported
+          </span>
+        )}
+      </div>
+
+      <div className="border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium w-14">Row</th>
+              <th className="px-3 py-2 text-left font-medium">Name</th>
+              <th className="px-3 py-2 text-left font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {results.map(result => (
+              <tr key={result.rowNumber} className={result.payload ? "" : "bg-red-50/50"}>
+                <td className="px-3 py-2 text-gray-500">{result.rowNumber}</td>
+                <td className="px-3 py-2 text-gray-800">
+                  {result.payload?.name || dataRows[result.rowNumber - firstRowNumber][mapping.name ?? -1] || "—"}
+                </td>
+                <td className="px-3 py-2">
+                  {importedRows.includes(result.rowNumber) ? (
+                    <span className="flex items-center text-emerald-600"><Check size={14} className="mr-1" /> Imported</span>
+                  ) : failedRows[result.rowNumber] ? (
+                    <span className="text-red-600">{failedRows[result.rowNumber]}</span>
+                  ) : isDuplicate(result) ? (
+                    <span className="text-amber-700">Already in calendar</span>
+                  ) : result.payload ? (
+                    <span className="text-gray-500">Ready</span>
+                  ) : (
+                    <ul className="text-red-600 text-xs list-disc list-inside">
+                      {result.errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {invalidResults.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Rows with errors are skipped. Fix them in the spreadsheet or adjust the column mapping.
+        </p>
+      )}
+      {duplicateResults.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Rows with the same name and start as an event already in the calendar are skipped.
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[1000]">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center px-6 py-4 border-b">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">Import from CSV</h2>
+            <p className="text-xs text-gray-500">{STEP_TITLES[step]}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+            disabled={isImporting}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {step === "upload" && renderUploadStep()}
+          {step === "map" && renderMapStep()}
+          {step === "review" && renderReviewStep()}
+        </div>
+
+        <div className="flex justify-between px-6 py-4 border-t">
+          <button
+            type="button"
+            onClick={() => setStep(step === "review" ? "map" : "upload")}
+            disabled={step === "upload" || isImporting}
+            className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            Back
+          </button>
+          <div className="space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isImporting}
+              className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-300"
+            >
+              {importedRows.length > 0 ? "Close" : "Cancel"}
+            </button>
+            {step === "upload" && (
+              <button
+                type="button"
+                onClick={() => setStep("map")}
+                disabled={dataRows.length === 0}
+                className="px-4 py-2 text-sm text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400"
+              >
+                Next
+              </button>
+            )}
+            {step === "map" && (
+              <button
+                type="button"
+                onClick={() => setStep("review")}
+                disabled={missingRequired.length > 0 || !targetCalendar}
+                title={missingRequired.length > 0 ? `Map ${missingRequired.map(f => f.label).join(", ")} first` : undefined}
+                className="px-4 py-2 text-sm text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400"
+              >
+                Next
+              </button>
+            )}
+            {step === "review" && (
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isImporting || isLoadingExisting || pendingResults.length === 0}
+                className="px-4 py-2 text-sm text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400"
+              >
+                {isImporting
+                  ? "Importing..."
+                  : isLoadingExisting
+                  ? "Checking calendar..."
+                  : `Import ${pendingResults.length} event${pendingResults.length === 1 ? "" : "s"}`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportWizard;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from "react";
 import { useDispatch, useSelector } from "react-redux";
 import {
   format,
@@ -9,24 +9,26 @@ import {
   addDays,
   addMonths,
   subMonths,
-  addWeeks,
-  subWeeks,
   getWeek,
   parseISO,
   isSameDay,
   differenceInDays,
+  addMinutes,
+  differenceInCalendarDays,
+  startOfDay,
 } from "date-fns";
 import { 
   createEvent, 
   updateEvent, 
   deleteEvent, 
   getEvent,
-  getCalendarEvents,
   addEventParticipant,
   updateEventParticipant,
   removeEventParticipant
 } from "../actions/eventActions";
 import eventService  from "../services/eventService";
+import availabilityService from "../services/availabilityService";
+import { getAvatarUrl } from "../services/apiClient";
 import { AppDispatch, RootState } from "../store";
 import { 
   EventCategory, 
@@ -35,8 +37,12 @@ import {
   ResponseStatus,
   CreateEventPayload,
   UpdateEventPayload,
-  Event
+  Event,
+  RecurrenceRule,
+  RecurrenceEditScope,
+  ChecklistItem
 } from "../types/eventTypes";
+import { CalendarView, WeekStartDay } from "../types/preferenceTypes";
 import { 
   Check, 
   Edit2, 
@@ -49,9 +55,57 @@ import {
   Clock,
   ChevronRight,
   Plus,
-  LogOut
+  LogOut,
+  Repeat,
+  Download,
+  Globe,
+  ListChecks,
+  LayoutTemplate,
+  Copy,
+  CalendarPlus
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import RecurrenceEditor from "./RecurrenceEditor";
+import RecurrenceScopeDialog from "./RecurrenceScopeDialog";
+import ReminderEditor from "./ReminderEditor";
+import ChecklistEditor from "./ChecklistEditor";
+import QuickAddInput from "./QuickAddInput";
+import SaveTemplateModal from "./SaveTemplateModal";
+import TemplatePicker from "./TemplatePicker";
+import CopyEventModal, { CopyEventMode } from "./CopyEventModal";
+import SchedulingAssistant, { SchedulingParticipant } from "./SchedulingAssistant";
+import ConflictDialog from "./ConflictDialog";
+import UndoToast from "./UndoToast";
+import { buildICalendar, eventToICal, getICalFileName } from "../lib/ical";
+import { eventsToCsv, getCsvFileName } from "../lib/csv";
+import { downloadFile } from "../lib/utils";
+import { getChecklistProgress, isChecklistComplete, isTaskOverdue } from "../lib/tasks";
+import { getOtherParticipants, getTemplateEnd } from "../lib/templates";
+import {
+  BusyInterval,
+  TimeSlot,
+  eventsOverlap,
+  getConflicts,
+  getDayRange,
+  getEventRange,
+  getEventsBusyIntervals,
+  suggestAlternativeSlots,
+} from "../lib/availability";
+import { isPendingEventId } from "../lib/optimisticEvents";
+import { EventTemplate } from "../types/templateTypes";
+import {
+  expandRecurringEvents,
+  excludeOccurrence,
+  formatRecurrence,
+  splitRecurrence,
+} from "../lib/recurrence";
+import {
+  fromZonedTime,
+  getBrowserTimeZone,
+  getTimeZoneLabel,
+  getTimeZoneOptions,
+  toZonedTime,
+} from "../lib/timezone";
 
 export interface CalendarEvent {
   id: string;
@@ -65,9 +119,14 @@ export interface CalendarEvent {
   category?: "home" | "work";
   priority?: "low" | "medium" | "high";
   isCompleted?: boolean;
+  checklist?: ChecklistItem[] | null;
   creatorId?: number;
   participations?: any[];
   deleted?: boolean;
+  recurrence?: RecurrenceRule | null;
+  occurrenceStart?: string;
+  timeZone?: string | null;
+  reminderOffsets?: number[] | null;
 }
 
 export interface CalendarData {
@@ -82,10 +141,32 @@ export interface CalendarData {
   role?: string;
 }
 
+type DragMode = "move" | "resize";
+
+interface DragState {
+  event: CalendarEvent;
+  mode: DragMode;
+  originX: number;
+  originY: number;
+  columnWidth: number;
+  columnDays: Date[];
+  originColumn: number;
+  originalStart: Date;
+  originalEnd: Date;
+}
+
+interface EventTimes {
+  eventId: string;
+  start: string;
+  end: string;
+}
+
 interface CustomCalendarProps {
   events: CalendarEvent[];
   calendars: CalendarData[];
   onAddEvent: (event: CalendarEvent) => void;
+  /** Called with the range the current view shows, so the parent can load just that. */
+  onVisibleRangeChange?: (range: { start: Date; end: Date }) => void;
   setAlertMessage?: (message: string | null) => void;
 }
 const predefinedColors = [
@@ -144,24 +225,10 @@ const calculateEventPositions = (
   sortedEvents.forEach((event) => {
     if (!event || !event.start) return;
     
-    const eventStart = new Date(event.start);
-    const eventEnd = event.end
-      ? new Date(event.end)
-      : new Date(eventStart.getTime() + 30 * 60000);
-    
     if (currentGroup.length === 0) {
       currentGroup.push(event);
     } else {
-      const overlap = currentGroup.some((ev) => {
-        if (!ev || !ev.start) return false;
-        
-        const evStart = new Date(ev.start).getTime();
-        const evEnd = ev.end
-          ? new Date(ev.end).getTime()
-          : new Date(ev.start).getTime() + 30 * 60000;
-        
-        return eventStart < evEnd && eventEnd > evStart;
-      });
+      const overlap = currentGroup.some((ev) => ev?.start && eventsOverlap(ev, event));
       
       if (overlap) {
         currentGroup.push(event);
@@ -191,10 +258,7 @@ const calculateEventPositions = (
     group.forEach((event) => {
       if (!event || !event.start) return;
       
-      const eventStart = new Date(event.start).getTime();
-      const eventEnd = event.end
-        ? new Date(event.end).getTime()
-        : new Date(event.start).getTime() + 30 * 60000;
+      const eventStart = getEventRange(event).start;
       
       let placed = false;
       
@@ -202,11 +266,7 @@ const calculateEventPositions = (
         const lastEvent = columns[i];
         if (!lastEvent || !lastEvent.start) continue;
         
-        const lastEnd = lastEvent.end
-          ? new Date(lastEvent.end).getTime()
-          : new Date(lastEvent.start).getTime() + 30 * 60000;
-        
-        if (eventStart >= lastEnd) {
+        if (eventStart >= getEventRange(lastEvent).end) {
           columns[i] = event;
           layouts.push({ 
             event, 
@@ -237,7 +297,7 @@ const calculateEventPositions = (
     group.forEach((event) => {
       if (!event) return;
       
-      const layout = layouts.find((l) => l.event.id === event.id);
+      const layout = layouts.find((l) => l.event === event);
       if (layout) {
         layout.total = columns.length;
       }
@@ -247,16 +307,14 @@ const calculateEventPositions = (
   return layouts.map((item) => {
     if (!item.event.start) return null;
     
-    const eventStart = new Date(item.event.start);
-    const eventEnd = item.event.end
-      ? new Date(item.event.end)
-      : new Date(eventStart.getTime() + 30 * 60000);
+    const { start: eventStart, end: eventEnd } = getEventRange(item.event);
     
+    // Positions use wall-clock minutes, so a DST change inside the event doesn't stretch or shrink it.
     const adjustedStartTime = item.continuesFromPrevDay
-      ? new Date(viewDate)
+      ? startOfDay(viewDate)
       : eventStart;
     
-    const nextDayStart = new Date(viewDate);
+    const nextDayStart = startOfDay(viewDate);
     nextDayStart.setHours(23, 59, 59, 999);
     
     const adjustedEndTime = item.continuesNextDay
@@ -285,30 +343,23 @@ const calculateEventPositions = (
   }).filter(Boolean) as any[];
 };
 
+// Days are counted on the calendar rather than in 24h steps, so DST changes can't skip or repeat a day.
 const getEventDays = (event: CalendarEvent): Date[] => {
   if (!event.start) return [];
   
-  const startDate = new Date(event.start);
-  startDate.setHours(0, 0, 0, 0);
+  const start = new Date(event.start);
+  const startDate = startOfDay(start);
   
   if (!event.end) return [startDate];
   
-  const endDate = new Date(event.end);
-  endDate.setHours(0, 0, 0, 0);
-  
-  if (startDate.toDateString() === endDate.toDateString()) {
-    return [startDate];
-  }
+  const end = new Date(event.end);
+  // An event that ends exactly at midnight doesn't occupy the following day.
+  const lastDay = end > start && startOfDay(end).getTime() === end.getTime()
+    ? addDays(end, -1)
+    : end;
+  const dayCount = Math.max(differenceInCalendarDays(lastDay, startDate), 0) + 1;
   
-  const days: Date[] = [];
-  let currentDate = new Date(startDate);
-  
-  while (currentDate <= endDate) {
-    days.push(new Date(currentDate));
-    currentDate.setDate(currentDate.getDate() + 1);
-  }
-  
-  return days;
+  return Array.from({ length: dayCount }, (_, i) => addDays(startDate, i));
 };
 
 const roundToNearestThirtyMinutes = (date: Date, roundDown: boolean = true): Date => {
@@ -324,19 +375,70 @@ const roundToNearestThirtyMinutes = (date: Date, roundDown: boolean = true): Dat
   return result;
 };
 
+const MAX_WEEK_VIEW_DAYS = 14;
+
+const isWeekendDay = (date: Date): boolean => date.getDay() === 0 || date.getDay() === 6;
+
+// Whole-week spans stay aligned to the start of the week; shorter spans start at `date`.
+const getWeekViewDays = (
+  date: Date,
+  dayCount: number,
+  hideWeekends: boolean,
+  weekStartsOn: WeekStartDay
+): Date[] => {
+  if (dayCount % 7 === 0) {
+    const start = startOfWeek(date, { weekStartsOn });
+    return Array.from({ length: dayCount }, (_, i) => addDays(start, i))
+      .filter(day => !hideWeekends || !isWeekendDay(day));
+  }
+
+  const days: Date[] = [];
+  let day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+
+  while (days.length < dayCount) {
+    if (!hideWeekends || !isWeekendDay(day)) days.push(day);
+    day = addDays(day, 1);
+  }
+
+  return days;
+};
+
+const shiftWeekViewDate = (date: Date, dayCount: number, hideWeekends: boolean, direction: 1 | -1): Date => {
+  if (dayCount % 7 === 0) return addDays(date, dayCount * direction);
+
+  let day = new Date(date);
+  let moved = 0;
+
+  while (moved < dayCount) {
+    day = addDays(day, direction);
+    if (!hideWeekends || !isWeekendDay(day)) moved++;
+  }
+
+  return day;
+};
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const getOrderedWeekdays = (weekStartsOn: WeekStartDay): string[] =>
+  Array.from({ length: 7 }, (_, i) => WEEKDAY_NAMES[(i + weekStartsOn) % 7]);
+
 interface YearViewProps {
   year: number;
   events: CalendarEvent[];
+  weekStartsOn: WeekStartDay;
   onDayClick: (date: string) => void;
 }
 
-const utcToLocal = (dateString: string): Date => {
+// Without a zone these are plain conversions in the browser's zone. With one, the local
+// Date carries the wall-clock time of that zone (see toZonedTime in lib/timezone).
+const utcToLocal = (dateString: string, timeZone?: string): Date => {
   const date = new Date(dateString);
-  return date;
+  return timeZone ? toZonedTime(date, timeZone) : date;
 };
 
-const localToUTC = (date: Date): string => {
-  return date.toISOString();
+const localToUTC = (date: Date, timeZone?: string): string => {
+  return (timeZone ? fromZonedTime(date, timeZone) : date).toISOString();
 };
 
 function formatDateForInput(dateString: string): string {
@@ -352,7 +454,7 @@ function formatDateForInput(dateString: string): string {
   return `${year}-${month}-${day}T${hours}:${minutes}`;
 }
 
-const YearView: React.FC<YearViewProps> = ({ year, events, onDayClick }) => {
+const YearView: React.FC<YearViewProps> = ({ year, events, weekStartsOn, onDayClick }) => {
   const months = [
     "January", "February", "March", "April", "May", "June",
     "July", "August", "September", "October", "November", "December"
@@ -403,7 +505,7 @@ const YearView: React.FC<YearViewProps> = ({ year, events, onDayClick }) => {
         });
         
         const daysCount = new Date(year, index + 1, 0).getDate();
-        const firstDayIndex = new Date(year, index, 1).getDay();
+        const firstDayIndex = (new Date(year, index, 1).getDay() - weekStartsOn + 7) % 7;
         const blanks = Array.from({ length: firstDayIndex }, () => null);
         const days = Array.from({ length: daysCount }, (_, i) => i + 1);
         const totalCells = blanks.length + days.length;
@@ -420,13 +522,9 @@ const YearView: React.FC<YearViewProps> = ({ year, events, onDayClick }) => {
               {month}
             </h3>
             <div className="grid grid-cols-7 text-center text-xs font-medium text-slate-500 bg-slate-50">
-              <span className="py-1">Su</span>
-              <span className="py-1">Mo</span>
-              <span className="py-1">Tu</span>
-              <span className="py-1">We</span>
-              <span className="py-1">Th</span>
-              <span className="py-1">Fr</span>
-              <span className="py-1">Sa</span>
+              {getOrderedWeekdays(weekStartsOn).map((weekday) => (
+                <span key={weekday} className="py-1">{weekday.slice(0, 2)}</span>
+              ))}
             </div>
             <div className="grid grid-cols-7 text-center text-sm">
               {allCells.map((cell, idx) => {
@@ -493,23 +591,346 @@ const YearView: React.FC<YearViewProps> = ({ year, events, onDayClick }) => {
   );
 };
 
-const CustomCalendar: React.FC<CustomCalendarProps> = ({
+// Open tasks whose due time has passed get a red outline on every view.
+const getOverdueChipClass = (event: CalendarEvent): string =>
+  isTaskOverdue(event) ? "ring-1 ring-inset ring-red-400" : "";
+
+const ChecklistProgress: React.FC<{ event: CalendarEvent }> = ({ event }) => {
+  const progress = getChecklistProgress(event.checklist);
+  if (!progress) return null;
+
+  return (
+    <span
+      className={`ml-1 px-1 rounded text-[10px] font-medium flex-shrink-0 ${
+        progress.done === progress.total ? "bg-emerald-100 text-emerald-700" : "bg-slate-100 text-slate-600"
+      }`}
+      title={`${progress.done} of ${progress.total} steps done`}
+    >
+      {progress.done}/{progress.total}
+    </span>
+  );
+};
+
+type AgendaDirection = "past" | "future";
+
+interface AgendaViewProps {
+  events: CalendarEvent[];
+  rangeStart: Date;
+  rangeEnd: Date;
+  anchorDate: Date;
+  onEventClick: (event: CalendarEvent) => void;
+  onToggleTask: (event: CalendarEvent) => void;
+  canToggleTask: (event: CalendarEvent) => boolean;
+  onLoadMore: (direction: AgendaDirection) => void;
+}
+
+const AGENDA_PAGE_DAYS = 30;
+const AGENDA_LOAD_THRESHOLD = 48;
+
+const RESPONSE_BADGE_STYLES: Record<string, string> = {
+  [ResponseStatus.ACCEPTED]: "bg-green-100 text-green-800",
+  [ResponseStatus.DECLINED]: "bg-red-100 text-red-800",
+  [ResponseStatus.PENDING]: "bg-yellow-100 text-yellow-800",
+  [ResponseStatus.INVITED]: "bg-blue-100 text-blue-800",
+};
+
+const AgendaView: React.FC<AgendaViewProps> = ({
   events,
+  rangeStart,
+  rangeEnd,
+  anchorDate,
+  onEventClick,
+  onToggleTask,
+  canToggleTask,
+  onLoadMore
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const prevScrollHeightRef = useRef<number | null>(null);
+  const lastScrollTopRef = useRef(0);
+  // First day shown when earlier days were last asked for; scrolling won't ask again until rows are added above it.
+  const pastRequestFirstDayRef = useRef<string | null>(null);
+
+  const days = useMemo(() => {
+    const eventsByDay = new Map<string, CalendarEvent[]>();
+
+    events.forEach((event) => {
+      getEventDays(event).forEach((day) => {
+        if (day < rangeStart || day >= rangeEnd) return;
+        const key = format(day, "yyyy-MM-dd");
+        eventsByDay.set(key, [...(eventsByDay.get(key) || []), event]);
+      });
+    });
+
+    return Array.from(eventsByDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, dayEvents]) => ({
+        date: parseISO(key),
+        events: dayEvents.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+      }));
+  }, [events, rangeStart, rangeEnd]);
+
+  const firstDayKey = days.length > 0 ? format(days[0].date, "yyyy-MM-dd") : "";
+
+  useEffect(() => {
+    pastRequestFirstDayRef.current = null;
+    if (!containerRef.current) return;
+    containerRef.current.scrollTop = 0;
+    lastScrollTopRef.current = 0;
+  }, [anchorDate]);
+
+  // Keep the visible rows in place when earlier days are prepended above them.
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container || prevScrollHeightRef.current === null) return;
+
+    container.scrollTop += container.scrollHeight - prevScrollHeightRef.current;
+    lastScrollTopRef.current = container.scrollTop;
+    prevScrollHeightRef.current = null;
+  }, [rangeStart]);
+
+  const loadPast = () => {
+    if (containerRef.current) {
+      prevScrollHeightRef.current = containerRef.current.scrollHeight;
+    }
+    pastRequestFirstDayRef.current = firstDayKey;
+    onLoadMore("past");
+  };
+
+  // Scrolls we cause ourselves leave lastScrollTopRef at their target, so they read as no movement.
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const { scrollTop, scrollHeight, clientHeight } = container;
+    const previousScrollTop = lastScrollTopRef.current;
+    lastScrollTopRef.current = scrollTop;
+
+    if (scrollTop < previousScrollTop) {
+      if (scrollTop < AGENDA_LOAD_THRESHOLD && pastRequestFirstDayRef.current !== firstDayKey) {
+        loadPast();
+      }
+    } else if (scrollTop > previousScrollTop && scrollHeight - scrollTop - clientHeight < AGENDA_LOAD_THRESHOLD) {
+      onLoadMore("future");
+    }
+  };
+
+  const getTimeLabel = (event: CalendarEvent, day: Date) => {
+    if (event.type === "holiday") return "All day";
+
+    const start = new Date(event.start);
+    const end = event.end ? new Date(event.end) : start;
+    const startsToday = isSameDay(start, day);
+    const endsToday = isSameDay(end, day);
+
+    if (!startsToday && !endsToday) return "All day";
+    if (!startsToday) return `Until ${format(end, "h:mm a")}`;
+    if (!endsToday) return `From ${format(start, "h:mm a")}`;
+    return event.end && end.getTime() !== start.getTime()
+      ? `${format(start, "h:mm a")} – ${format(end, "h:mm a")}`
+      : format(start, "h:mm a");
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className="max-h-[calc(100vh-250px)] overflow-y-auto bg-white rounded-lg border border-slate-200"
+    >
+      <div className="text-center py-2 border-b border-slate-100">
+        <button onClick={loadPast} className="text-xs text-indigo-600 hover:underline">
+          Show earlier
+        </button>
+      </div>
+
+      {days.length === 0 ? (
+        <div className="py-12 text-center text-sm text-slate-500 italic">
+          No events between {format(rangeStart, "MMM d")} and {format(addDays(rangeEnd, -1), "MMM d, yyyy")}
+        </div>
+      ) : days.map(({ date, events: dayEvents }) => {
+        const isToday = isSameDay(date, new Date());
+
+        return (
+          <div key={date.toISOString()} className="border-b border-slate-100">
+            <div className={`sticky top-0 z-10 px-4 py-2 text-sm font-semibold border-b border-slate-100 ${
+              isToday ? "bg-indigo-50 text-indigo-700" : "bg-slate-50 text-slate-700"
+            }`}>
+              {format(date, "EEEE, MMMM d")}
+              {isToday && <span className="ml-2 text-xs font-medium">Today</span>}
+            </div>
+
+            <ul>
+              {dayEvents.map((event) => {
+                const isTask = event.type === EventType.TASK;
+                const responseStatus = event.participations?.[0]?.responseStatus;
+
+                return (
+                  <li
+                    key={`${event.id}-${event.occurrenceStart || ""}`}
+                    className="flex items-center gap-3 px-4 py-2 hover:bg-slate-50 cursor-pointer"
+                    onClick={() => onEventClick(event)}
+                  >
+                    <div className="w-28 flex-shrink-0 text-xs text-slate-500">
+                      {getTimeLabel(event, date)}
+                    </div>
+                    <span
+                      className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: event.color }}
+                    ></span>
+                    {isTask && (
+                      <input
+                        type="checkbox"
+                        checked={!!event.isCompleted}
+                        disabled={!canToggleTask(event)}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={() => onToggleTask(event)}
+                        className="flex-shrink-0"
+                        title={event.isCompleted ? "Mark as not completed" : "Mark as completed"}
+                      />
+                    )}
+                    <span className={`flex-1 min-w-0 truncate text-sm ${
+                      isTask && event.isCompleted
+                        ? "line-through text-slate-400"
+                        : isTaskOverdue(event) ? "text-red-700" : "text-slate-800"
+                    }`}>
+                      {event.type === "holiday" && <span className="mr-1">🏖️</span>}
+                      {event.title}
+                    </span>
+                    <ChecklistProgress event={event} />
+                    {event.recurrence && <Repeat size={12} className="text-slate-400 flex-shrink-0" />}
+                    {responseStatus && responseStatus !== ResponseStatus.ACCEPTED && (
+                      <span className={`text-xs px-2 py-0.5 rounded-full capitalize ${
+                        RESPONSE_BADGE_STYLES[responseStatus] || "bg-gray-100 text-gray-800"
+                      }`}>
+                        {responseStatus}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+
+      <div className="text-center py-2">
+        <button onClick={() => onLoadMore("future")} className="text-xs text-indigo-600 hover:underline">
+          Show later
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const CustomCalendar: React.FC<CustomCalendarProps> = ({
+  events: sourceEvents,
   calendars,
   onAddEvent,
+  onVisibleRangeChange,
   setAlertMessage
 }) => {
   const dispatch: AppDispatch = useDispatch();
   const authUser = useSelector((state: RootState) => state.auth.user);
   const { currentEvent, loading, error } = useSelector((state: RootState) => state.event);
   
-  const [currentView, setCurrentView] = useState<"day" | "week" | "month" | "year">("month");
+  const preferences = useSelector((state: RootState) => state.preferences.preferences);
+  const {
+    weekStartsOn,
+    workingHoursStart,
+    workingHoursEnd,
+    defaultEventDuration,
+    secondaryTimeZone,
+    defaultReminderOffsets
+  } = preferences;
+  const browserTimeZone = getBrowserTimeZone();
+  const displayTimeZone = preferences.displayTimeZone || browserTimeZone;
+  const [currentView, setCurrentView] = useState<CalendarView>(preferences.defaultView);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
-  
+  const [agendaSpan, setAgendaSpan] = useState({ before: 0, after: AGENDA_PAGE_DAYS });
+  const [weekDayCount, setWeekDayCount] = useState(7);
+  const [hideWeekends, setHideWeekends] = useState(false);
+
+  const weekViewDays = useMemo(
+    () => getWeekViewDays(currentDate, weekDayCount, hideWeekends, weekStartsOn),
+    [currentDate, weekDayCount, hideWeekends, weekStartsOn]
+  );
+
+  const visibleRange = useMemo(() => {
+    if (currentView === "year") {
+      return { start: new Date(currentYear, 0, 1), end: new Date(currentYear + 1, 0, 1) };
+    }
+    if (currentView === "month") {
+      return {
+        start: startOfWeek(startOfMonth(currentDate), { weekStartsOn }),
+        end: endOfWeek(endOfMonth(currentDate), { weekStartsOn })
+      };
+    }
+    if (currentView === "week") {
+      return { start: weekViewDays[0], end: addDays(weekViewDays[weekViewDays.length - 1], 1) };
+    }
+
+    const start = new Date(currentDate);
+    start.setHours(0, 0, 0, 0);
+
+    if (currentView === "agenda") {
+      return { start: addDays(start, -agendaSpan.before), end: addDays(start, agendaSpan.after) };
+    }
+    return { start, end: addDays(start, 1) };
+  }, [currentView, currentDate, currentYear, agendaSpan, weekViewDays, weekStartsOn]);
+
+  useEffect(() => {
+    setAgendaSpan({ before: 0, after: AGENDA_PAGE_DAYS });
+  }, [currentView, currentDate]);
+
+  useEffect(() => {
+    onVisibleRangeChange?.(visibleRange);
+  }, [visibleRange, onVisibleRangeChange]);
+
+  // Recurring events are stored once and expanded into occurrences for the visible range only.
+  const expandedEvents = useMemo(
+    () => expandRecurringEvents(sourceEvents, visibleRange.start, visibleRange.end),
+    [sourceEvents, visibleRange]
+  );
+
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const [dragPreview, setDragPreview] = useState<EventTimes | null>(null);
+  const [eventOverrides, setEventOverrides] = useState<Record<string, EventTimes>>({});
+  const [undoToast, setUndoToast] = useState<{ message: string; actionLabel?: string; onAction?: () => void } | null>(null);
+  const suppressClickRef = useRef(false);
+  const [monthDrag, setMonthDrag] = useState<{ event: CalendarEvent; fromDay: Date } | null>(null);
+  const [monthDropDay, setMonthDropDay] = useState<string | null>(null);
+
+  // Views lay events out with local date helpers, so times are moved into the display zone once here.
+  // Holidays are whole days and stay where they are.
+  const zonedEvents = useMemo(() => {
+    if (displayTimeZone === browserTimeZone) return expandedEvents;
+
+    return expandedEvents.map((event) => event.type === "holiday" ? event : {
+      ...event,
+      start: utcToLocal(event.start, displayTimeZone).toISOString(),
+      end: event.end ? utcToLocal(event.end, displayTimeZone).toISOString() : event.end
+    });
+  }, [expandedEvents, displayTimeZone, browserTimeZone]);
+
+  // Dragged and just-saved events are drawn at their new times until the parent refetches.
+  const events = useMemo(() => {
+    if (!dragPreview && Object.keys(eventOverrides).length === 0) return zonedEvents;
+
+    return zonedEvents.map((event) => {
+      const override = dragPreview?.eventId === event.id ? dragPreview : eventOverrides[event.id];
+      return override ? { ...event, start: override.start, end: override.end } : event;
+    });
+  }, [zonedEvents, dragPreview, eventOverrides]);
+
+  useEffect(() => {
+    setEventOverrides({});
+  }, [sourceEvents]);
+
   const [showEventModal, setShowEventModal] = useState(false);
   const [showEventDetailModal, setShowEventDetailModal] = useState(false);
   const [showParticipantModal, setShowParticipantModal] = useState(false);
+  const [showSaveTemplateModal, setShowSaveTemplateModal] = useState(false);
+  const [copyMode, setCopyMode] = useState<CopyEventMode | null>(null);
   const [selectedEventId, setSelectedEventId] = useState<number | null>(null);
   const [participantEmail, setParticipantEmail] = useState("");
   const [isAddingParticipant, setIsAddingParticipant] = useState(false);
@@ -521,12 +942,26 @@ const [activeTab, setActiveTab] = useState<'details' | 'participants'>('details'
 const navigate = useNavigate();
 
 const [holidayEvent, setHolidayEvent] = useState<CalendarEvent | null>(null);
+const [selectedOccurrenceStart, setSelectedOccurrenceStart] = useState<string | null>(null);
+const [recurrenceScopeAction, setRecurrenceScopeAction] = useState<"edit" | "delete" | null>(null);
+const [conflictPrompt, setConflictPrompt] = useState<{
+  conflicts: BusyInterval[];
+  suggestions: TimeSlot[];
+  scope?: RecurrenceEditScope;
+  /** Set when the clash comes from dragging an event rather than from the form. */
+  move?: { event: CalendarEvent; start: Date; end: Date; previousStart: Date; previousEnd: Date };
+} | null>(null);
+const [isCheckingConflicts, setIsCheckingConflicts] = useState(false);
 const handleEventClick = (event: CalendarEvent) => {
+  // Events still being saved have nothing to open yet.
+  if (isPendingEventId(Number(event.id))) return;
+
   if (event.type === "holiday") {
     setHolidayEvent(event);
     setShowEventDetailModal(true);
   } else {
     setSelectedEventId(parseInt(event.id));
+    setSelectedOccurrenceStart(event.occurrenceStart || null);
     setShowEventDetailModal(true);
   }
 };
@@ -588,6 +1023,11 @@ const removeFormParticipant = (email: string) => {
     calendarId: number;
     priority?: TaskPriority;
     isCompleted?: boolean;
+    checklist?: ChecklistItem[];
+    recurrence?: RecurrenceRule | null;
+    occurrenceStart?: string;
+    timeZone?: string | null;
+    reminderOffsets?: number[] | null;
     isEditing: boolean;
   }>({
     name: "",
@@ -600,6 +1040,8 @@ const removeFormParticipant = (email: string) => {
     calendarId: calendars && calendars.length > 0 ? parseInt(calendars[0].id) : 0,
     isEditing: false
   });
+  // Form times are wall-clock times in this zone; they are converted to instants on save.
+  const formTimeZone = eventFormData.timeZone || displayTimeZone;
 
   const roundToNearestFifteenMinutes = (date: Date, roundDirection: 'down' | 'nearest' = 'nearest'): Date => {
     const coeff = 1000 * 60 * 15;
@@ -615,6 +1057,8 @@ const removeFormParticipant = (email: string) => {
   };
 
   const [currentNow, setCurrentNow] = useState(new Date());
+  const zonedNow = toZonedTime(currentNow, displayTimeZone);
+  const todayStr = format(zonedNow, "yyyy-MM-dd");
   
   useEffect(() => {
     
@@ -650,11 +1094,11 @@ const removeFormParticipant = (email: string) => {
       if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !isInputActive) {
         e.preventDefault();
         
-        const now = new Date();
+        const now = toZonedTime(new Date(), displayTimeZone);
         const roundedStart = roundToNearestFifteenMinutes(now, 'nearest');
         
         const newEnd = new Date(roundedStart);
-        newEnd.setMinutes(newEnd.getMinutes() + 30);
+        newEnd.setMinutes(newEnd.getMinutes() + defaultEventDuration);
         
         const defaultCalendar = calendars && calendars.length > 0 ? 
           calendars.find(cal => cal.calendarType !== "holiday") || calendars[0] : null;
@@ -696,18 +1140,114 @@ const removeFormParticipant = (email: string) => {
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [calendars, eventFormData, selectedEventId, showEventModal, showEventDetailModal, showParticipantModal]); // Зависимости
+  }, [calendars, eventFormData, selectedEventId, showEventModal, showEventDetailModal, showParticipantModal, defaultEventDuration, displayTimeZone]); // Зависимости
   
   const startHour = 0;
   const endHour = 24;
   const hourHeight = 60;
   const allDayHeight = 50;
+  const workingHoursRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (currentView === "day" || currentView === "week") {
+      workingHoursRef.current?.scrollIntoView({ block: "start" });
+    }
+  }, [currentView, workingHoursStart]);
+
+  const renderOffHoursShading = () => (
+    <>
+      <div
+        className="absolute left-0 right-0 top-0 bg-slate-100/70 pointer-events-none"
+        style={{ height: `${(workingHoursStart - startHour) * hourHeight}px` }}
+      ></div>
+      <div
+        className="absolute left-0 right-0 bottom-0 bg-slate-100/70 pointer-events-none"
+        style={{ top: `${(workingHoursEnd - startHour) * hourHeight}px` }}
+      ></div>
+    </>
+  );
+
+  const formatHourLabel = (date: Date) => format(date, date.getMinutes() ? "h:mm a" : "h a");
+
+  // The secondary zone is shown at the same instant as each hour of `day` in the display zone.
+  const renderHourLabel = (hour: number, day: Date) => {
+    const slot = new Date(day);
+    slot.setHours(hour, 0, 0, 0);
+
+    return (
+      <div>
+        <div>{formatHourLabel(slot)}</div>
+        {secondaryTimeZone && (
+          <div className="text-[10px] text-slate-400">
+            {formatHourLabel(toZonedTime(fromZonedTime(slot, displayTimeZone), secondaryTimeZone))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const getTimeZoneCaption = (day: Date): string | null => {
+    if (!secondaryTimeZone && displayTimeZone === browserTimeZone) return null;
+
+    const instant = fromZonedTime(day, displayTimeZone);
+    const primary = getTimeZoneLabel(displayTimeZone, instant);
+    return secondaryTimeZone ? `${primary} / ${getTimeZoneLabel(secondaryTimeZone, instant)}` : primary;
+  };
+
+  const canModifyEvent = (event: CalendarEvent): boolean => {
+    if (event.type === "holiday") return false;
+
+    if (event.creatorId && String(event.creatorId) === String(authUser?.id)) return true;
+
+    const role = calendars.find(cal => cal.id === event.calendarId)?.role?.toLowerCase();
+    return role === "owner" || role === "editor";
+  };
+
+  // Moving one occurrence would silently shift the whole series, so recurring events are edited via the modal.
+  const canDragEvent = (event: CalendarEvent): boolean => !event.recurrence && canModifyEvent(event);
+
+  const handleMonthDragStart = (e: React.DragEvent<HTMLDivElement>, event: CalendarEvent, fromDay: Date) => {
+    if (!canDragEvent(event)) {
+      e.preventDefault();
+      return;
+    }
+
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", event.id);
+    setMonthDrag({ event, fromDay });
+  };
+
+  const handleMonthDragEnd = () => {
+    setMonthDrag(null);
+    setMonthDropDay(null);
+  };
+
+  const handleMonthDrop = (day: Date) => {
+    if (!monthDrag) return;
+
+    // Dragging any segment of a multi-day bar shifts the whole event by the same number of days.
+    const daysDelta = differenceInCalendarDays(day, monthDrag.fromDay);
+    handleMonthDragEnd();
+    if (daysDelta === 0) return;
+
+    const originalStart = new Date(monthDrag.event.start);
+    const originalEnd = monthDrag.event.end ? new Date(monthDrag.event.end) : addMinutes(originalStart, 30);
+
+    moveEvent(
+      monthDrag.event,
+      addDays(originalStart, daysDelta),
+      addDays(originalEnd, daysDelta),
+      originalStart,
+      originalEnd
+    );
+  };
 
   // =================== MONTH VIEW ===================
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(monthStart);
-  const startDt = startOfWeek(monthStart, { weekStartsOn: 0 });
-  const endDt = endOfWeek(monthEnd, { weekStartsOn: 0 });
+  const startDt = startOfWeek(monthStart, { weekStartsOn });
+  const endDt = endOfWeek(monthEnd, { weekStartsOn });
   const dateFormat = "d";
 
   const monthRows: JSX.Element[] = [];
@@ -715,7 +1255,7 @@ const removeFormParticipant = (email: string) => {
   let day = startDt;
   let formattedDate = "";
 
-  const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const weekdays = getOrderedWeekdays(weekStartsOn);
 
   const weekdaysHeader = (
     <div className="grid grid-cols-7 gap-1 mb-2">
@@ -736,11 +1276,11 @@ const removeFormParticipant = (email: string) => {
       const dayEvents = events.filter(
         (event) => {
           if (!event || !event.start) return false;
-          return format(new Date(event.start), "yyyy-MM-dd") === dayString;
+          return getEventDays(event).some(d => format(d, "yyyy-MM-dd") === dayString);
         }
       );
       
-      const isToday = dayString === format(new Date(), "yyyy-MM-dd");
+      const isToday = dayString === todayStr;
       const isCurrentMonth = day.getMonth() === currentDate.getMonth();
       
       monthDays.push(
@@ -748,11 +1288,24 @@ const removeFormParticipant = (email: string) => {
           key={day.toString()}
           className={`border rounded-lg p-2 h-32 cursor-pointer transition-all duration-200 
                      ${isToday ? 'ring-2 ring-indigo-500 bg-indigo-50' : 'hover:bg-slate-50'}
-                     ${isCurrentMonth ? 'bg-white' : 'bg-slate-50/50 text-slate-400'}`}
+                     ${isCurrentMonth ? 'bg-white' : 'bg-slate-50/50 text-slate-400'}
+                     ${monthDropDay === dayString ? 'ring-2 ring-indigo-300 bg-indigo-50/60' : ''}`}
           onClick={() => {
             setCurrentDate(cloneDay);
             setCurrentView("day");
           }}
+          onDragOver={(e) => {
+            if (!monthDrag) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = "move";
+            if (monthDropDay !== dayString) {
+              setMonthDropDay(dayString);
+            }
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleMonthDrop(cloneDay);
+          }}
         >
           <div className={`text-xs font-semibold ${isToday ? 'text-indigo-700' : 'text-slate-700'} 
                            flex justify-between items-center`}>
@@ -818,21 +1371,26 @@ const removeFormParticipant = (email: string) => {
                   return (
                     <div
                       key={event.id}
-                      className={`flex items-center text-xs px-2 py-1 ${borderRadius || 'rounded-md'}`}
+                      className={`flex items-center text-xs px-2 py-1 ${borderRadius || 'rounded-md'} ${
+                        canDragEvent(event) ? 'cursor-move' : ''
+                      }`}
                       style={{ 
                         backgroundColor: `${eventBgColor}15`,
                         borderLeft: isFirstDay ? `4px solid ${calendarColor}` : 'none',
                         marginLeft,
                         marginRight
                       }}
+                      draggable={canDragEvent(event)}
+                      onDragStart={(e) => handleMonthDragStart(e, event, cloneDay)}
+                      onDragEnd={handleMonthDragEnd}
                       onClick={(e) => {
                         e.stopPropagation();
-                        setSelectedEventId(parseInt(event.id));
-                        setShowEventDetailModal(true);
+                        handleEventClick(event);
                       }}
                     >
                       <span className="text-xs mr-1">📆</span>
                       <span className="truncate text-slate-700">{event.title}</span>
+                      <ChecklistProgress event={event} />
                       {extraIndicator && (
                         <span className="ml-auto text-slate-500">{extraIndicator}</span>
                       )}
@@ -867,19 +1425,25 @@ const removeFormParticipant = (email: string) => {
                   return (
                     <div
                       key={event.id}
-                      className="flex items-center text-xs px-2 py-1 rounded-md"
+                      className={`flex items-center text-xs px-2 py-1 rounded-md ${
+                        canDragEvent(event) ? 'cursor-move' : ''
+                      } ${getOverdueChipClass(event)}`}
+                      title={isTaskOverdue(event) ? `${event.title} (overdue)` : undefined}
                       style={{ 
                         backgroundColor: `${eventBgColor}15`,
                         borderLeft: `4px solid ${calendarColor}` 
                       }}
+                      draggable={canDragEvent(event)}
+                      onDragStart={(e) => handleMonthDragStart(e, event, cloneDay)}
+                      onDragEnd={handleMonthDragEnd}
                       onClick={(e) => {
                         e.stopPropagation();
-                        setSelectedEventId(parseInt(event.id));
-                        setShowEventDetailModal(true);
+                        handleEventClick(event);
                       }}
                     >
                       <span className="text-xs mr-1">{typeIcon}</span>
                       <span className="truncate text-slate-700">{event.title}</span>
+                      <ChecklistProgress event={event} />
                     </div>
                   );
                 });
@@ -914,10 +1478,8 @@ const removeFormParticipant = (email: string) => {
 
   // =================== WEEK VIEW ===================
   const renderWeekView = () => {
-    const startWeek = startOfWeek(currentDate, { weekStartsOn: 0 });
-    const weekDays = Array.from({ length: 7 }, (_, i) =>
-      addDays(startWeek, i)
-    );
+    const weekDays = weekViewDays;
+    const gridStyle = { gridTemplateColumns: `repeat(${weekDays.length + 1}, minmax(0, 1fr))` };
     const hours: number[] = [];
     for (let h = startHour; h < endHour; h++) {
       hours.push(h);
@@ -953,10 +1515,15 @@ const removeFormParticipant = (email: string) => {
   
     return (
       <div className="overflow-auto relative rounded-lg shadow-sm border border-slate-200 bg-white">
-        <div className="grid grid-cols-8 sticky top-0 z-10 bg-white">
-          <div className="border-b border-r border-slate-200 bg-slate-50" style={{ height: allDayHeight }}></div>
+        <div className="grid sticky top-0 z-10 bg-white" style={gridStyle}>
+          <div
+            className="border-b border-r border-slate-200 bg-slate-50 flex items-end justify-end pr-2 pb-1 text-[10px] text-slate-500"
+            style={{ height: allDayHeight }}
+          >
+            {getTimeZoneCaption(weekDays[0])}
+          </div>
           {weekDays.map((d, idx) => {
-            const isToday = format(d, "yyyy-MM-dd") === format(new Date(), "yyyy-MM-dd");
+            const isToday = format(d, "yyyy-MM-dd") === todayStr;
             return (
               <div
                 key={idx}
@@ -973,13 +1540,13 @@ const removeFormParticipant = (email: string) => {
           })}
         </div>
         
-        <div className="grid grid-cols-8">
+        <div className="grid" style={gridStyle}>
           <div className="border-r border-b border-slate-200 p-2 bg-slate-50">
             <div className="text-xs font-medium text-slate-600">All Day</div>
           </div>
           {weekDays.map((dayItem, idx) => {
             const dayStr = format(dayItem, "yyyy-MM-dd");
-            const isToday = dayStr === format(new Date(), "yyyy-MM-dd");
+            const isToday = dayStr === todayStr;
             
             const allDayEvents = events.filter(
               (event) => {
@@ -1057,21 +1624,22 @@ const removeFormParticipant = (email: string) => {
           })}
         </div>
         
-        <div className="grid grid-cols-8 relative">
+        <div className="grid relative" style={gridStyle}>
           <div className="relative bg-slate-50">
             {hours.map((hour) => (
               <div
                 key={hour}
+                ref={hour === workingHoursStart ? workingHoursRef : undefined}
                 style={{ height: `${hourHeight}px` }}
-                className="border-t border-slate-200 text-right pr-2 text-xs text-slate-500 flex items-start justify-end pt-1"
+                className="border-t border-slate-200 text-right pr-2 text-xs text-slate-500 flex items-start justify-end pt-1 scroll-mt-32"
               >
-                {hour === 0 ? '12 AM' : hour < 12 ? `${hour} AM` : hour === 12 ? '12 PM' : `${hour-12} PM`}
+                {renderHourLabel(hour, weekDays[0])}
               </div>
             ))}
           </div>
 {weekDays.map((dayItem, idx) => {
           const dayStr = format(dayItem, "yyyy-MM-dd");
-          const isToday = dayStr === format(new Date(), "yyyy-MM-dd");
+          const isToday = dayStr === todayStr;
           
           const dayEvents = events.filter(
             (event) => {
@@ -1079,22 +1647,7 @@ const removeFormParticipant = (email: string) => {
               
               if (event.type === "holiday") return false;
               
-              if (event.end && new Date(event.start).toDateString() !== new Date(event.end).toDateString()) {
-                const eventStartDay = format(new Date(event.start), "yyyy-MM-dd");
-                const eventEndDay = format(new Date(event.end), "yyyy-MM-dd");
-                
-                if (eventStartDay === dayStr || eventEndDay === dayStr) {
-                  return true;
-                }
-                
-                const currentDay = new Date(dayStr);
-                const startDate = new Date(event.start);
-                const endDate = new Date(event.end);
-                
-                return currentDay >= startDate && currentDay <= endDate;
-              }
-              
-              return format(new Date(event.start), "yyyy-MM-dd") === dayStr;
+              return getEventDays(event).some((day) => isSameDay(day, dayItem));
             }
           );
           
@@ -1109,6 +1662,7 @@ const removeFormParticipant = (email: string) => {
           return (
             <div
               key={idx}
+              data-day-column={idx}
               className={`relative border-l border-slate-200 ${isToday ? 'bg-indigo-50/30' : ''}`}
               style={{ height: `${totalHeight}px` }}
               onClick={(e) => handleWeekViewDoubleClick(e, dayItem)}
@@ -1120,10 +1674,11 @@ const removeFormParticipant = (email: string) => {
                   className="border-t border-slate-200 hover:bg-slate-100 cursor-pointer"
                 ></div>
               ))}
+              {renderOffHoursShading()}
               
               {isToday && (() => {
                 const currentMinutes =
-                  currentNow.getHours() * 60 + currentNow.getMinutes();
+                  zonedNow.getHours() * 60 + zonedNow.getMinutes();
                 const lineTop =
                   ((currentMinutes - startHour * 60) / 60) * hourHeight;
                 return (
@@ -1228,17 +1783,21 @@ const removeFormParticipant = (email: string) => {
                       backgroundColor: `${eventBgColor}15`,
                       ...borderStyle
                     }}
-                    className="text-xs rounded-md shadow-sm overflow-hidden cursor-pointer transition-all duration-200 hover:shadow-md group"
+                    className={`text-xs rounded-md shadow-sm overflow-hidden transition-all duration-200 hover:shadow-md group ${
+                      canDragEvent(layout.event) ? 'cursor-move' : 'cursor-pointer'
+                    } ${dragState?.event.id === layout.event.id ? 'opacity-75 shadow-lg z-30' : ''} ${getOverdueChipClass(layout.event)}`}
                     title={`${layout.event.title}${layout.isMultiDay ? ' (Multi-day event)' : ''}`}
+                    onMouseDown={(e) => handleEventDragStart(e, layout.event, "move")}
                     onClick={(e) => {
                       e.stopPropagation();
-                      setSelectedEventId(parseInt(layout.event.id));
-                      setShowEventDetailModal(true);
+                      if (suppressClickRef.current) return;
+                      handleEventClick(layout.event);
                     }}
                   >
                     <div className="font-semibold text-slate-700 truncate flex items-center">
                       <span className="mr-1">{typeIcon}</span>
                       {layout.event.title}
+                      <ChecklistProgress event={layout.event} />
                     </div>
                     <div className="text-slate-500 text-xs flex items-center">
                       <span>{displayTime}</span>
@@ -1246,6 +1805,12 @@ const removeFormParticipant = (email: string) => {
                         <span className="ml-1 text-xs text-indigo-600">{multiDayIndicator}</span>
                       )}
                     </div>
+                    {canDragEvent(layout.event) && !layout.continuesNextDay && (
+                      <div
+                        className="absolute bottom-0 left-0 right-0 h-1.5 cursor-ns-resize"
+                        onMouseDown={(e) => handleEventDragStart(e, layout.event, "resize")}
+                      />
+                    )}
                   </div>
                 );
               })}
@@ -1259,7 +1824,7 @@ const removeFormParticipant = (email: string) => {
   // =================== DAY VIEW ===================
   const renderDayView = () => {
     const dayStr = format(currentDate, "yyyy-MM-dd");
-    const isToday = dayStr === format(new Date(), "yyyy-MM-dd");
+    const isToday = dayStr === todayStr;
     
     const allDayEvents = events.filter(
       (event) => {
@@ -1274,8 +1839,7 @@ const removeFormParticipant = (email: string) => {
           const endDate = new Date(event.end);
 
           if (startDate.toDateString() !== endDate.toDateString()) {
-            const currentDay = new Date(dayStr);
-            currentDay.setHours(0, 0, 0, 0);
+            const currentDay = startOfDay(currentDate);
             
             const nextDay = new Date(currentDay);
             nextDay.setDate(nextDay.getDate() + 1);
@@ -1336,6 +1900,9 @@ const removeFormParticipant = (email: string) => {
             {format(currentDate, "MMMM d, yyyy")}
             {isToday && <span className="ml-2 bg-indigo-600 text-white text-xs py-0.5 px-2 rounded-full">Today</span>}
           </span>
+          {getTimeZoneCaption(currentDate) && (
+            <div className="text-xs text-slate-500 mt-1">{getTimeZoneCaption(currentDate)}</div>
+          )}
         </div>
         
         <div className={`border-b border-slate-200 p-3 ${isToday ? 'bg-indigo-50/30' : 'bg-slate-50/30'}`}>
@@ -1348,7 +1915,7 @@ const removeFormParticipant = (email: string) => {
               
               const eventStartDate = new Date(event.start);
               const eventEndDate = event.end ? new Date(event.end) : new Date(eventStartDate);
-              const viewDate = new Date(dayStr);
+              const viewDate = startOfDay(currentDate);
               
               const isStartDay = viewDate.toDateString() === eventStartDate.toDateString();
               const isEndDay = viewDate.toDateString() === eventEndDate.toDateString();
@@ -1421,10 +1988,11 @@ const removeFormParticipant = (email: string) => {
             {hours.map((hour) => (
               <div
                 key={hour}
+                ref={hour === workingHoursStart ? workingHoursRef : undefined}
                 style={{ height: `${hourHeight}px` }}
-                className="border-t border-slate-200 text-right pr-3 text-xs text-slate-500 flex items-start justify-end pt-2"
+                className="border-t border-slate-200 text-right pr-3 text-xs text-slate-500 flex items-start justify-end pt-2 scroll-mt-32"
               >
-                {hour === 0 ? '12 AM' : hour < 12 ? `${hour} AM` : hour === 12 ? '12 PM' : `${hour-12} PM`}
+                {renderHourLabel(hour, currentDate)}
               </div>
             ))}
           </div>
@@ -1440,10 +2008,11 @@ const removeFormParticipant = (email: string) => {
                 className="border-t border-slate-200 hover:bg-slate-100 cursor-pointer"
               ></div>
             ))}
+            {renderOffHoursShading()}
             
             {isToday && (() => {
               const currentMinutes =
-                currentNow.getHours() * 60 + currentNow.getMinutes();
+                zonedNow.getHours() * 60 + zonedNow.getMinutes();
               const lineTop =
                 ((currentMinutes - startHour * 60) / 60) * hourHeight;
               return (
@@ -1552,17 +2121,21 @@ const removeFormParticipant = (email: string) => {
                     backgroundColor: `${eventBgColor}15`,
                     ...borderStyle
                   }}
-                  className="rounded-md shadow-sm overflow-hidden cursor-pointer transition-all duration-200 hover:shadow-md group"
+                  className={`rounded-md shadow-sm overflow-hidden transition-all duration-200 hover:shadow-md group ${
+                    canDragEvent(layout.event) ? 'cursor-move' : 'cursor-pointer'
+                  } ${dragState?.event.id === layout.event.id ? 'opacity-75 shadow-lg z-30' : ''} ${getOverdueChipClass(layout.event)}`}
                   title={layout.event.title}
+                  onMouseDown={(e) => handleEventDragStart(e, layout.event, "move")}
                   onClick={(e) => {
                     e.stopPropagation();
-                    setSelectedEventId(parseInt(layout.event.id));
-                    setShowEventDetailModal(true);
+                    if (suppressClickRef.current) return;
+                    handleEventClick(layout.event);
                   }}
                 >
                   <div className="font-semibold text-slate-800 truncate flex items-center">
                     <span className="mr-1">{typeIcon}</span>
                     {layout.event.title}
+                    <ChecklistProgress event={layout.event} />
                     {layout.isMultiDay && (
                       <span className="ml-1 text-xs bg-indigo-100 text-indigo-800 px-1 rounded">
                         multi-day
@@ -1575,6 +2148,12 @@ const removeFormParticipant = (email: string) => {
                       {layout.event.description}
                     </div>
                   )}
+                  {canDragEvent(layout.event) && !layout.continuesNextDay && (
+                    <div
+                      className="absolute bottom-0 left-0 right-0 h-1.5 cursor-ns-resize"
+                      onMouseDown={(e) => handleEventDragStart(e, layout.event, "resize")}
+                    />
+                  )}
                 </div>
               );
             })}
@@ -1589,6 +2168,7 @@ const removeFormParticipant = (email: string) => {
     <YearView
       year={currentYear}
       events={events}
+      weekStartsOn={weekStartsOn}
       onDayClick={(dateStr: string) => {
         setCurrentDate(new Date(dateStr));
         setCurrentView("day");
@@ -1596,15 +2176,82 @@ const removeFormParticipant = (email: string) => {
     />
   );
 
+  const renderAgendaView = () => (
+    <AgendaView
+      events={events}
+      rangeStart={visibleRange.start}
+      rangeEnd={visibleRange.end}
+      anchorDate={currentDate}
+      onEventClick={handleEventClick}
+      onToggleTask={handleToggleTaskCompletion}
+      canToggleTask={canModifyEvent}
+      onLoadMore={(direction) =>
+        setAgendaSpan((prev) => direction === "past"
+          ? { ...prev, before: prev.before + AGENDA_PAGE_DAYS }
+          : { ...prev, after: prev.after + AGENDA_PAGE_DAYS })
+      }
+    />
+  );
+
+  const handleToggleTaskCompletion = async (event: CalendarEvent) => {
+    try {
+      await dispatch(updateEvent(parseInt(event.id), { isCompleted: !event.isCompleted }, { silent: true }));
+      onAddEvent(event);
+    } catch (error) {
+      console.error("Error updating task:", error);
+      if (setAlertMessage) {
+        setAlertMessage("Failed to update task");
+      }
+    }
+  };
+
+  const handleQuickAddCreated = (newEvent: Event, calendarId: number) => {
+    onAddEvent({
+      id: String(newEvent.id),
+      title: newEvent.name,
+      start: newEvent.startedAt,
+      calendarId: String(calendarId),
+      type: newEvent.type,
+      color: calendars.find(cal => cal.id === String(calendarId))?.color || ""
+    });
+  };
+
+  const handleChecklistUpdate = async (payload: Pick<UpdateEventPayload, "checklist" | "isCompleted">) => {
+    if (!currentEvent) return;
+
+    try {
+      await dispatch(updateEvent(currentEvent.id, payload, { silent: true }));
+
+      const calendarId = currentEvent.participations?.[0]?.calendarMember?.calendarId;
+      if (calendarId) {
+        onAddEvent({
+          id: String(currentEvent.id),
+          title: currentEvent.name,
+          start: currentEvent.startedAt,
+          calendarId: String(calendarId),
+          type: currentEvent.type,
+          color: currentEvent.participations?.[0]?.color || ""
+        });
+      }
+    } catch (error) {
+      console.error("Error updating checklist:", error);
+      if (setAlertMessage) {
+        setAlertMessage("Failed to update task");
+      }
+    }
+  };
+
   const handlePrev = () => {
     if (currentView === "month") {
       setCurrentDate(subMonths(currentDate, 1));
     } else if (currentView === "week") {
-      setCurrentDate(subWeeks(currentDate, 1));
+      setCurrentDate(shiftWeekViewDate(weekViewDays[0], weekDayCount, hideWeekends, -1));
     } else if (currentView === "day") {
       setCurrentDate(addDays(currentDate, -1));
     } else if (currentView === "year") {
       setCurrentYear((prev) => prev - 1);
+    } else if (currentView === "agenda") {
+      setCurrentDate(addDays(currentDate, -AGENDA_PAGE_DAYS));
     }
   };
 
@@ -1612,11 +2259,13 @@ const removeFormParticipant = (email: string) => {
     if (currentView === "month") {
       setCurrentDate(addMonths(currentDate, 1));
     } else if (currentView === "week") {
-      setCurrentDate(addWeeks(currentDate, 1));
+      setCurrentDate(shiftWeekViewDate(weekViewDays[0], weekDayCount, hideWeekends, 1));
     } else if (currentView === "day") {
       setCurrentDate(addDays(currentDate, 1));
     } else if (currentView === "year") {
       setCurrentYear((prev) => prev + 1);
+    } else if (currentView === "agenda") {
+      setCurrentDate(addDays(currentDate, AGENDA_PAGE_DAYS));
     }
   };
 
@@ -1628,7 +2277,184 @@ const removeFormParticipant = (email: string) => {
     }
   };
 
+  const handleExportCsv = () => {
+    const visibleEvents = events.filter(event => {
+      if (event.type === "holiday") return false;
+      const start = new Date(event.start);
+      const end = event.end ? new Date(event.end) : start;
+      return start < visibleRange.end && end >= visibleRange.start;
+    });
+
+    if (visibleEvents.length === 0) {
+      if (setAlertMessage) {
+        setAlertMessage("No events to export");
+      }
+      return;
+    }
+
+    const label = currentView === "year"
+      ? `events-${currentYear}`
+      : `events-${format(visibleRange.start, "yyyy-MM-dd")}`;
+    downloadFile(eventsToCsv(visibleEvents, calendars), getCsvFileName(label), "text/csv;charset=utf-8");
+  };
+
+  const getDraggedTimes = (drag: DragState, clientX: number, clientY: number) => {
+    const minutesDelta = ((clientY - drag.originY) / hourHeight) * 60;
+    const columnsDelta = drag.columnWidth ? Math.round((clientX - drag.originX) / drag.columnWidth) : 0;
+    // Columns can skip hidden weekends, so the day offset is taken from the target column's date.
+    const targetColumn = Math.min(Math.max(drag.originColumn + columnsDelta, 0), drag.columnDays.length - 1);
+    const daysDelta = columnsDelta && drag.columnDays.length
+      ? differenceInCalendarDays(drag.columnDays[targetColumn], drag.columnDays[drag.originColumn])
+      : 0;
+
+    if (drag.mode === "resize") {
+      const minEnd = addMinutes(drag.originalStart, 15);
+      const end = roundToNearestFifteenMinutes(addMinutes(drag.originalEnd, minutesDelta));
+      return { start: drag.originalStart, end: end > minEnd ? end : minEnd };
+    }
+
+    const duration = drag.originalEnd.getTime() - drag.originalStart.getTime();
+    const start = roundToNearestFifteenMinutes(addMinutes(addDays(drag.originalStart, daysDelta), minutesDelta));
+    return { start, end: new Date(start.getTime() + duration) };
+  };
+
+  const handleEventDragStart = (e: React.MouseEvent<HTMLElement>, event: CalendarEvent, mode: DragMode) => {
+    if (e.button !== 0 || !canDragEvent(event)) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    const column = e.currentTarget.closest("[data-day-column]") as HTMLElement | null;
+    const originalStart = new Date(event.start);
+    const originalEnd = event.end ? new Date(event.end) : addMinutes(originalStart, 30);
+
+    setDragState({
+      event,
+      mode,
+      originX: e.clientX,
+      originY: e.clientY,
+      columnWidth: currentView === "week" && column ? column.offsetWidth : 0,
+      columnDays: currentView === "week" ? weekViewDays : [],
+      originColumn: column ? Number(column.dataset.dayColumn) || 0 : 0,
+      originalStart,
+      originalEnd
+    });
+  };
+
+  const saveEventTimes = async (
+    event: CalendarEvent,
+    start: Date,
+    end: Date,
+    previousStart: Date,
+    previousEnd: Date,
+    isUndo = false
+  ) => {
+    setEventOverrides(prev => ({
+      ...prev,
+      [event.id]: { eventId: event.id, start: start.toISOString(), end: end.toISOString() }
+    }));
+
+    try {
+      await dispatch(updateEvent(parseInt(event.id), {
+        startedAt: localToUTC(start, displayTimeZone),
+        endedAt: localToUTC(end, displayTimeZone)
+      }, { silent: true }));
+
+      if (onAddEvent && typeof onAddEvent === 'function') {
+        onAddEvent({ ...event, start: localToUTC(start, displayTimeZone), end: localToUTC(end, displayTimeZone) });
+      }
+
+      setUndoToast(isUndo ? null : {
+        message: `"${event.title}" moved to ${format(start, "EEE, MMM d, h:mm a")}`,
+        onAction: () => saveEventTimes(event, previousStart, previousEnd, start, end, true)
+      });
+    } catch (error) {
+      console.error("Error rescheduling event:", error);
+      setEventOverrides(prev => {
+        const next = { ...prev };
+        delete next[event.id];
+        return next;
+      });
+      setUndoToast({
+        message: `Couldn't save "${event.title}", the change was undone`,
+        actionLabel: "Retry",
+        onAction: () => saveEventTimes(event, start, end, previousStart, previousEnd, isUndo)
+      });
+    }
+  };
+
+  // Drops are checked for clashes like the form is; tasks only mark when something is due.
+  const moveEvent = async (
+    event: CalendarEvent,
+    start: Date,
+    end: Date,
+    previousStart: Date,
+    previousEnd: Date
+  ) => {
+    if (event.type !== EventType.TASK) {
+      try {
+        const slot = { start: fromZonedTime(start, displayTimeZone), end: fromZonedTime(end, displayTimeZone) };
+        const moveConflicts = await findConflicts(slot, displayTimeZone, event.id);
+        if (moveConflicts) {
+          setConflictPrompt({ ...moveConflicts, move: { event, start, end, previousStart, previousEnd } });
+          return;
+        }
+      } catch (error) {
+        // Not being able to check shouldn't stop the event from being moved.
+        console.error("Error checking for conflicts:", error);
+      }
+    }
+
+    saveEventTimes(event, start, end, previousStart, previousEnd);
+  };
+
+  // The listeners stay attached for the whole drag, so they call the latest handlers through a ref.
+  const dragHandlersRef = useRef({ getDraggedTimes, moveEvent });
+  useEffect(() => {
+    dragHandlersRef.current = { getDraggedTimes, moveEvent };
+  });
+
+  useEffect(() => {
+    if (!dragState) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const { start, end } = dragHandlersRef.current.getDraggedTimes(dragState, e.clientX, e.clientY);
+      setDragPreview({ eventId: dragState.event.id, start: start.toISOString(), end: end.toISOString() });
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      const { start, end } = dragHandlersRef.current.getDraggedTimes(dragState, e.clientX, e.clientY);
+      setDragState(null);
+      setDragPreview(null);
+
+      if (
+        start.getTime() === dragState.originalStart.getTime() &&
+        end.getTime() === dragState.originalEnd.getTime()
+      ) {
+        return;
+      }
+
+      // The click that follows mouseup must not open the event or the create modal.
+      suppressClickRef.current = true;
+      setTimeout(() => {
+        suppressClickRef.current = false;
+      }, 0);
+
+      dragHandlersRef.current.moveEvent(dragState.event, start, end, dragState.originalStart, dragState.originalEnd);
+    };
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [dragState]);
+
   const handleDayViewDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (suppressClickRef.current) return;
+
     const rect = e.currentTarget.getBoundingClientRect();
     const offsetY = e.clientY - rect.top;
     const hourFraction = offsetY / hourHeight;
@@ -1642,7 +2468,7 @@ const removeFormParticipant = (email: string) => {
     const roundedStart = roundToNearestFifteenMinutes(newStart, 'nearest');
     
     const newEnd = new Date(roundedStart);
-    newEnd.setMinutes(newEnd.getMinutes() + 30);
+    newEnd.setMinutes(newEnd.getMinutes() + defaultEventDuration);
     
     const defaultCalendar = calendars && calendars.length > 0 ? 
       calendars.find(cal => cal.calendarType !== "holiday") || calendars[0] : null;
@@ -1659,6 +2485,8 @@ const removeFormParticipant = (email: string) => {
     setShowEventModal(true);
   };
   const handleWeekViewDoubleClick = (e: React.MouseEvent<HTMLDivElement>, day: Date) => {
+    if (suppressClickRef.current) return;
+
     const rect = e.currentTarget.getBoundingClientRect();
     const offsetY = e.clientY - rect.top;
     const hourFraction = offsetY / hourHeight;
@@ -1672,7 +2500,7 @@ const removeFormParticipant = (email: string) => {
     const roundedStart = roundToNearestFifteenMinutes(newStart, 'nearest');
     
     const newEnd = new Date(roundedStart);
-    newEnd.setMinutes(newEnd.getMinutes() + 30);
+    newEnd.setMinutes(newEnd.getMinutes() + defaultEventDuration);
     
     const defaultCalendar = calendars && calendars.length > 0 ? 
       calendars.find(cal => cal.calendarType !== "holiday") || calendars[0] : null;
@@ -1689,25 +2517,176 @@ const removeFormParticipant = (email: string) => {
     setShowEventModal(true);
   };
 
-  const handleEventFormSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  const saveRecurringOccurrence = async (scope: RecurrenceEditScope) => {
+    if (!currentEvent?.recurrence || !eventFormData.occurrenceStart) return;
+
+    const seriesStart = new Date(currentEvent.startedAt);
+    const occurrenceStart = new Date(eventFormData.occurrenceStart);
+    const { before } = splitRecurrence(currentEvent.recurrence, seriesStart, occurrenceStart);
+
+    await dispatch(updateEvent(currentEvent.id, {
+      recurrence: scope === RecurrenceEditScope.THIS
+        ? excludeOccurrence(currentEvent.recurrence, eventFormData.occurrenceStart)
+        : before
+    }, { silent: true }));
+
+    const calendarId = currentEvent.participations?.[0]?.calendarMember?.calendarId || eventFormData.calendarId;
+    const createPayload: CreateEventPayload = {
+      name: eventFormData.name,
+      description: eventFormData.description,
+      category: eventFormData.category,
+      startedAt: localToUTC(new Date(eventFormData.startedAt), formTimeZone),
+      endedAt: localToUTC(new Date(eventFormData.endedAt), formTimeZone),
+      color: eventFormData.color,
+      type: currentEvent.type,
+      calendarId,
+      timeZone: eventFormData.timeZone || null,
+      reminderOffsets: eventFormData.reminderOffsets ?? null,
+      recurrence: scope === RecurrenceEditScope.FOLLOWING && eventFormData.recurrence
+        ? splitRecurrence(eventFormData.recurrence, seriesStart, occurrenceStart).after
+        : null
+    };
+
+    if (currentEvent.type === EventType.TASK && eventFormData.priority) {
+      createPayload.priority = eventFormData.priority;
+    }
+
+    if (currentEvent.type === EventType.TASK && eventFormData.checklist?.length) {
+      createPayload.checklist = eventFormData.checklist;
+    }
+
+    if (currentEvent.type === EventType.ARRANGEMENT && formParticipants.length > 0) {
+      createPayload.participantIds = formParticipants
+        .map(p => p.id)
+        .filter(Boolean) as number[];
+    }
+
+    const newEvent = await dispatch(createEvent(createPayload, { silent: true }));
+    if (setAlertMessage) {
+      setAlertMessage("Event updated successfully");
+    }
+
+    if (authUser?.id) {
+      if (onAddEvent && typeof onAddEvent === 'function') {
+        onAddEvent({
+          id: String(newEvent.id),
+          title: newEvent.name,
+          start: newEvent.startedAt,
+          calendarId: String(calendarId),
+          type: newEvent.type,
+          color: eventFormData.color
+        });
+      }
+    }
+  };
+
+  // Only the months around the visible range are loaded, so other days are read from the server.
+  const getBusyIntervals = async (
+    rangeStart: Date,
+    rangeEnd: Date,
+    excludeEventId?: string
+  ): Promise<BusyInterval[]> => {
+    if (rangeStart >= visibleRange.start && rangeEnd <= visibleRange.end) {
+      return getEventsBusyIntervals(sourceEvents, rangeStart, rangeEnd, excludeEventId);
+    }
+    if (!authUser?.id) return [];
+
+    return availabilityService.getBusyIntervals(Number(authUser.id), rangeStart, rangeEnd, {
+      excludeEventId: excludeEventId ? Number(excludeEventId) : undefined,
+      ignoreTasks: true,
+    });
+  };
+
+  // Clashes between `slot` and the user's other events in the visible calendars, with free slots that day.
+  const findConflicts = async (slot: TimeSlot, timeZone: string, excludeEventId?: string) => {
+    const day = getDayRange(slot.start, timeZone);
+    const busy = await getBusyIntervals(
+      day.start < slot.start ? day.start : slot.start,
+      day.end > slot.end ? day.end : slot.end,
+      excludeEventId
+    );
+    const conflicts = getConflicts(busy, slot.start, slot.end);
+    if (conflicts.length === 0) return null;
+
+    return {
+      conflicts,
+      suggestions: suggestAlternativeSlots(busy, slot, { timeZone, workingHoursStart, workingHoursEnd }),
+    };
+  };
+
+  const getFormConflicts = async () => {
+    const slot = {
+      start: fromZonedTime(new Date(eventFormData.startedAt), formTimeZone),
+      end: fromZonedTime(new Date(eventFormData.endedAt), formTimeZone),
+    };
+    if (isNaN(slot.start.getTime()) || isNaN(slot.end.getTime()) || slot.end <= slot.start) return null;
+
+    const excludeEventId = eventFormData.isEditing && eventFormData.id ? String(eventFormData.id) : undefined;
+    return findConflicts(slot, formTimeZone, excludeEventId);
+  };
+
+  const handleEventFormSubmit = async (
+    e?: React.FormEvent,
+    scope?: RecurrenceEditScope,
+    ignoreConflicts = false
+  ) => {
+    e?.preventDefault();
+
+    if (eventFormData.isEditing && eventFormData.occurrenceStart && currentEvent?.recurrence && !scope) {
+      setRecurrenceScopeAction("edit");
+      return;
+    }
+
+    // Tasks only mark when something is due, so they can't double-book anyone.
+    if (!ignoreConflicts && eventFormData.type !== EventType.TASK) {
+      setIsCheckingConflicts(true);
+      try {
+        const formConflicts = await getFormConflicts();
+        if (formConflicts) {
+          setConflictPrompt({ ...formConflicts, scope });
+          return;
+        }
+      } catch (error) {
+        // Not being able to check shouldn't stop the event from being saved.
+        console.error("Error checking for conflicts:", error);
+      } finally {
+        setIsCheckingConflicts(false);
+      }
+    }
+
     try {
-      if (eventFormData.isEditing && eventFormData.id) {
+      const isFirstOccurrence = eventFormData.occurrenceStart &&
+        new Date(eventFormData.occurrenceStart).getTime() === new Date(currentEvent?.startedAt || "").getTime();
+
+      if (
+        eventFormData.isEditing &&
+        (scope === RecurrenceEditScope.THIS || (scope === RecurrenceEditScope.FOLLOWING && !isFirstOccurrence))
+      ) {
+        await saveRecurringOccurrence(scope);
+      } else if (eventFormData.isEditing && eventFormData.id) {
+        // Editing the whole series moves the first occurrence by the same amount as the edited one.
+        const seriesShift = eventFormData.occurrenceStart && currentEvent
+          ? new Date(currentEvent.startedAt).getTime() - new Date(eventFormData.occurrenceStart).getTime()
+          : 0;
+
         const updatePayload: UpdateEventPayload = {
           name: eventFormData.name,
           description: eventFormData.description,
           category: eventFormData.category,
-          startedAt: localToUTC(new Date(eventFormData.startedAt)),
-          endedAt: localToUTC(new Date(eventFormData.endedAt)),
+          startedAt: localToUTC(new Date(new Date(eventFormData.startedAt).getTime() + seriesShift), formTimeZone),
+          endedAt: localToUTC(new Date(new Date(eventFormData.endedAt).getTime() + seriesShift), formTimeZone),
+          recurrence: eventFormData.recurrence || null,
+          timeZone: eventFormData.timeZone || null,
+          reminderOffsets: eventFormData.reminderOffsets ?? null,
         };
-        
+
         if (currentEvent?.type === EventType.TASK) {
           updatePayload.priority = eventFormData.priority;
           updatePayload.isCompleted = eventFormData.isCompleted;
+          updatePayload.checklist = eventFormData.checklist ?? null;
         }
         
-        const updatedEvent = await dispatch(updateEvent(eventFormData.id, updatePayload));
+        const updatedEvent = await dispatch(updateEvent(eventFormData.id, updatePayload, { silent: true }));
         console.log("Event updated:", updatedEvent);
         if (setAlertMessage) {
           setAlertMessage("Event updated successfully");
@@ -1721,7 +2700,8 @@ const removeFormParticipant = (email: string) => {
               await dispatch(updateEventParticipant(
                 eventFormData.id, 
                 calendarMemberId, 
-                { color: eventFormData.color }
+                { color: eventFormData.color },
+                { silent: true }
               ));
             }
           }
@@ -1754,9 +2734,6 @@ const removeFormParticipant = (email: string) => {
         if (currentEvent?.participations && currentEvent.participations.length > 0) {
           const calendarId = currentEvent.participations[0].calendarMember?.calendarId;
           if (calendarId && authUser?.id) {
-            const updatedEvents = await dispatch(getCalendarEvents(calendarId, authUser.id));
-            console.log("Updated events after edit:", updatedEvents);
-            
             if (onAddEvent && typeof onAddEvent === 'function') {
               const syntheticEvent = {
                 id: String(updatedEvent.id),
@@ -1775,32 +2752,40 @@ const removeFormParticipant = (email: string) => {
           name: eventFormData.name,
           description: eventFormData.description,
           category: eventFormData.category,
-          startedAt: localToUTC(new Date(eventFormData.startedAt)),
-          endedAt: localToUTC(new Date(eventFormData.endedAt)),
+          startedAt: localToUTC(new Date(eventFormData.startedAt), formTimeZone),
+          endedAt: localToUTC(new Date(eventFormData.endedAt), formTimeZone),
+          timeZone: eventFormData.timeZone || null,
+          reminderOffsets: eventFormData.reminderOffsets ?? null,
           color: eventFormData.color || 
                  calendars.find(cal => cal.id === String(eventFormData.calendarId))?.color || 
                  "#4CAF50",
           type: eventFormData.type,
           calendarId: eventFormData.calendarId
         };
-        
+
         if (eventFormData.type === EventType.TASK && eventFormData.priority) {
           createPayload.priority = eventFormData.priority;
         }
-        
+
+        if (eventFormData.type === EventType.TASK && eventFormData.checklist?.length) {
+          createPayload.checklist = eventFormData.checklist;
+        }
+
         if (eventFormData.type === EventType.ARRANGEMENT && formParticipants.length > 0) {
           createPayload.participantIds = formParticipants
             .map(p => p.id)
             .filter(Boolean) as number[];
         }
-        
-        const newEvent = await dispatch(createEvent(createPayload));
+
+        if (eventFormData.recurrence) {
+          createPayload.recurrence = eventFormData.recurrence;
+        }
+
+        const newEvent = await dispatch(createEvent(createPayload, { silent: true }));
         if (setAlertMessage) {
           setAlertMessage("Event created successfully");
         }
         if (authUser?.id) {
-          const updatedEvents = await dispatch(getCalendarEvents(eventFormData.calendarId, authUser.id));
-          
           if (onAddEvent && typeof onAddEvent === 'function') {
             const syntheticEvent = {
               id: String(newEvent.id),
@@ -1828,12 +2813,13 @@ const removeFormParticipant = (email: string) => {
     }
   };
 
-const handleEditEvent = () => {
-  if (!currentEvent) return;
+// Edits the open event, or `event` when one was just loaded and isn't in the closure yet.
+const handleEditEvent = (event: Event | null = currentEvent) => {
+  if (!event) return;
   
   const currentParticipants: {email: string, id?: number}[] = [];
-  if (currentEvent.type === EventType.ARRANGEMENT && currentEvent.participations) {
-    currentEvent.participations.forEach(p => {
+  if (event.type === EventType.ARRANGEMENT && event.participations) {
+    event.participations.forEach(p => {
       if (p.calendarMember && p.calendarMember.user) {
         currentParticipants.push({
           email: p.calendarMember.user.email,
@@ -1843,24 +2829,39 @@ const handleEditEvent = () => {
     });
   }
   
-  const eventColor = currentEvent.participations?.[0]?.color || 
-                     calendars.find(cal => cal.id === String(currentEvent.participations?.[0]?.calendarMember?.calendarId))?.color || 
+  const eventColor = event.participations?.[0]?.color || 
+                     calendars.find(cal => cal.id === String(event.participations?.[0]?.calendarMember?.calendarId))?.color || 
                      "#4CAF50";
   
   setFormParticipants(currentParticipants);
-  
+
+  // When a single occurrence of a series was opened, edit it at its own date.
+  const occurrenceStart = event.recurrence && selectedOccurrenceStart && event.id === currentEvent?.id
+    ? selectedOccurrenceStart
+    : undefined;
+  const occurrenceShift = occurrenceStart
+    ? new Date(occurrenceStart).getTime() - new Date(event.startedAt).getTime()
+    : 0;
+  // The form shows wall-clock times in the event's own zone.
+  const eventTimeZone = event.timeZone || displayTimeZone;
+
   setEventFormData({
-    id: currentEvent.id,
-    name: currentEvent.name,
-    description: currentEvent.description,
-    category: currentEvent.category,
-    startedAt: currentEvent.startedAt,
-    endedAt: currentEvent.endedAt,
+    id: event.id,
+    name: event.name,
+    description: event.description,
+    category: event.category,
+    startedAt: toZonedTime(new Date(new Date(event.startedAt).getTime() + occurrenceShift), eventTimeZone).toISOString(),
+    endedAt: toZonedTime(new Date(new Date(event.endedAt).getTime() + occurrenceShift), eventTimeZone).toISOString(),
     color: eventColor,
-    type: currentEvent.type,
-    calendarId: currentEvent.participations?.[0]?.calendarMember?.calendarId || 0,
-    priority: currentEvent.task?.priority,
-    isCompleted: currentEvent.task?.isCompleted,
+    type: event.type,
+    calendarId: event.participations?.[0]?.calendarMember?.calendarId || 0,
+    priority: event.task?.priority,
+    isCompleted: event.task?.isCompleted,
+    checklist: event.task?.checklist ?? [],
+    recurrence: event.recurrence || null,
+    occurrenceStart,
+    timeZone: event.timeZone || null,
+    reminderOffsets: event.reminderOffsets ?? null,
     isEditing: true
   });
   
@@ -1869,11 +2870,80 @@ const handleEditEvent = () => {
   setShowEventModal(true);
 };
 
-const handleDeleteEvent = async () => {
+const handleEventCopied = async (newEvent: Event, calendarId: number) => {
+  setCopyMode(null);
+  onAddEvent({
+    id: String(newEvent.id),
+    title: newEvent.name,
+    start: newEvent.startedAt,
+    calendarId: String(calendarId),
+    type: newEvent.type,
+    color: newEvent.participations?.[0]?.color || ""
+  });
+
+  try {
+    const loadedEvent: Event = await dispatch(getEvent(newEvent.id));
+    setSelectedEventId(newEvent.id);
+    setSelectedOccurrenceStart(null);
+    handleEditEvent(loadedEvent);
+  } catch (error) {
+    console.error("Error opening the copied event:", error);
+    if (setAlertMessage) {
+      setAlertMessage("The copy was created but couldn't be opened for editing");
+    }
+  }
+};
+
+const handleExportEvent = () => {
   if (!currentEvent) return;
-  
+
+  const content = buildICalendar([eventToICal(currentEvent)]);
+  downloadFile(content, getICalFileName(currentEvent.name), "text/calendar;charset=utf-8");
+};
+
+const handleDeleteEvent = async (scope?: RecurrenceEditScope) => {
+  if (!currentEvent) return;
+
+  if (currentEvent.recurrence && selectedOccurrenceStart && !scope) {
+    setRecurrenceScopeAction("delete");
+    return;
+  }
+
   try {
-    await dispatch(deleteEvent(currentEvent.id));
+    const isFirstOccurrence = selectedOccurrenceStart &&
+      new Date(selectedOccurrenceStart).getTime() === new Date(currentEvent.startedAt).getTime();
+
+    if (
+      currentEvent.recurrence && selectedOccurrenceStart &&
+      (scope === RecurrenceEditScope.THIS || (scope === RecurrenceEditScope.FOLLOWING && !isFirstOccurrence))
+    ) {
+      const recurrence = scope === RecurrenceEditScope.THIS
+        ? excludeOccurrence(currentEvent.recurrence, selectedOccurrenceStart)
+        : splitRecurrence(currentEvent.recurrence, new Date(currentEvent.startedAt), new Date(selectedOccurrenceStart)).before;
+
+      await dispatch(updateEvent(currentEvent.id, { recurrence }, { silent: true }));
+      if (setAlertMessage) {
+        setAlertMessage("Event deleted successfully");
+      }
+
+      const calendarId = currentEvent.participations?.[0]?.calendarMember?.calendarId;
+      if (calendarId && onAddEvent && typeof onAddEvent === 'function') {
+        onAddEvent({
+          id: String(currentEvent.id),
+          title: currentEvent.name,
+          start: currentEvent.startedAt,
+          calendarId: String(calendarId),
+          type: currentEvent.type,
+          color: currentEvent.participations?.[0]?.color || ""
+        });
+      }
+
+      setShowEventDetailModal(false);
+      setSelectedOccurrenceStart(null);
+      return;
+    }
+
+    await dispatch(deleteEvent(currentEvent.id, { silent: true }));
     console.log("Event deleted:", currentEvent.id);
     if (setAlertMessage) {
       setAlertMessage("Event deleted successfully");
@@ -1911,10 +2981,10 @@ const handleDeleteEvent = async () => {
   const defaultCalendar = calendars && calendars.length > 0 ? 
     calendars.find(cal => cal.calendarType !== "holiday") || calendars[0] : null;
   
-  const now = new Date();
+  const now = toZonedTime(new Date(), displayTimeZone);
   const roundedStart = roundToNearestFifteenMinutes(now, 'nearest');
   const newEnd = new Date(roundedStart);
-  newEnd.setMinutes(newEnd.getMinutes() + 30);
+  newEnd.setMinutes(newEnd.getMinutes() + defaultEventDuration);
   
   setEventFormData({
     name: "",
@@ -1927,13 +2997,18 @@ const handleDeleteEvent = async () => {
     calendarId: defaultCalendar ? parseInt(defaultCalendar.id) : 0,
     priority: TaskPriority.MEDIUM,
     isCompleted: false,
+    checklist: [],
+    recurrence: null,
+    timeZone: null,
+    reminderOffsets: null,
     isEditing: false
   });
-  
+
   setFormParticipants([]);
   setNewParticipantEmail("");
-  
+
   setSelectedEventId(null);
+  setSelectedOccurrenceStart(null);
 }
 
   const handleAddParticipant = async (e: React.FormEvent) => {
@@ -1954,11 +3029,6 @@ const handleDeleteEvent = async () => {
       setParticipantEmail("");
       
       await dispatch(getEvent(selectedEventId));
-      
-      if (authUser?.id) {
-        const updatedEvents = await dispatch(getCalendarEvents(calendarId, authUser.id));
-        console.log("Updated events after adding participant:", updatedEvents);
-      }
     } catch (error) {
       console.error("Error adding participant:", error);
       if (setAlertMessage) {
@@ -1969,24 +3039,48 @@ const handleDeleteEvent = async () => {
     }
   };
 
+  const handleMoveToSlot = async (slot: TimeSlot) => {
+    if (!currentEvent) return;
+
+    try {
+      await dispatch(updateEvent(currentEvent.id, {
+        startedAt: slot.start.toISOString(),
+        endedAt: slot.end.toISOString(),
+      }, { silent: true }));
+      await dispatch(getEvent(currentEvent.id));
+
+      const calendarId = currentEvent.participations?.[0]?.calendarMember?.calendarId;
+      if (calendarId) {
+        onAddEvent({
+          id: String(currentEvent.id),
+          title: currentEvent.name,
+          start: slot.start.toISOString(),
+          calendarId: String(calendarId),
+          type: currentEvent.type,
+          color: currentEvent.participations?.[0]?.color || ""
+        });
+      }
+      if (setAlertMessage) {
+        setAlertMessage(`Moved to ${format(toZonedTime(slot.start, displayTimeZone), "h:mm a")}`);
+      }
+    } catch (error) {
+      console.error("Error moving event:", error);
+      if (setAlertMessage) {
+        setAlertMessage("Failed to move the event");
+      }
+    }
+  };
+
   const handleUpdateParticipantStatus = async (calendarMemberId: number, status: string) => {
     if (!selectedEventId) return;
     
     try {
-      const result = await dispatch(updateEventParticipant(selectedEventId, calendarMemberId, { responseStatus: status }));
+      const result = await dispatch(updateEventParticipant(selectedEventId, calendarMemberId, { responseStatus: status }, { silent: true }));
       console.log("Updated participant status:", result);
       if (setAlertMessage) {
         setAlertMessage("Status updated successfully");
       }
       await dispatch(getEvent(selectedEventId));
-      
-      if (currentEvent?.participations && currentEvent.participations.length > 0) {
-        const calendarId = currentEvent.participations[0].calendarMember?.calendarId;
-        if (calendarId && authUser?.id) {
-          const updatedEvents = await dispatch(getCalendarEvents(calendarId, authUser.id));
-          console.log("Updated events after status change:", updatedEvents);
-        }
-      }
     } catch (error) {
       if (setAlertMessage) {
         setAlertMessage("Error updating status. Please try again");
@@ -2005,14 +3099,6 @@ const handleDeleteEvent = async () => {
         setAlertMessage("Participant removed successfully");
       }
       await dispatch(getEvent(selectedEventId));
-
-      if (currentEvent?.participations && currentEvent.participations.length > 0) {
-        const calendarId = currentEvent.participations[0].calendarMember?.calendarId;
-        if (calendarId && authUser?.id) {
-          const updatedEvents = await dispatch(getCalendarEvents(calendarId, authUser.id));
-          console.log("Updated events after removing participant:", updatedEvents);
-        }
-      }
     } catch (error) {
       console.error("Error removing participant:", error);
       if (setAlertMessage) {
@@ -2059,6 +3145,40 @@ const handleDeleteEvent = async () => {
     return userRole === 'owner';
   }, [currentEvent, authUser]);
 
+  // Everyone already invited, plus whoever is being typed into the invite form.
+  const schedulingParticipants = useMemo(() => {
+    if (!currentEvent) return [];
+
+    const participants: SchedulingParticipant[] = getOtherParticipants(
+      currentEvent,
+      authUser?.id ? Number(authUser.id) : undefined
+    );
+    const email = participantEmail.trim();
+    if (/^\S+@\S+\.\S+$/.test(email) && !participants.some(p => p.email.toLowerCase() === email.toLowerCase())) {
+      participants.push({ email });
+    }
+    return participants;
+  }, [currentEvent, authUser, participantEmail]);
+
+const applyTemplate = (template: EventTemplate) => {
+  const templateCalendar = template.calendarId !== null
+    ? calendars.find(cal => cal.id === String(template.calendarId) && cal.calendarType !== "holiday")
+    : undefined;
+
+  setEventFormData({
+    ...eventFormData,
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    type: template.type,
+    priority: template.priority ?? eventFormData.priority,
+    color: template.color || templateCalendar?.color || eventFormData.color,
+    calendarId: templateCalendar ? parseInt(templateCalendar.id) : eventFormData.calendarId,
+    endedAt: getTemplateEnd(template, eventFormData.startedAt)
+  });
+  setFormParticipants(template.participants.map(participant => ({ email: participant.email, id: participant.id })));
+};
+
 const renderEventModal = () => {
   const eventColor = eventFormData.color || "#4CAF50";
   
@@ -2150,6 +3270,12 @@ const renderEventModal = () => {
           
           <div className="p-6 overflow-y-auto max-h-[calc(100vh-250px)]">
             <div className="space-y-6">
+              {!eventFormData.isEditing && (
+                <div className="flex justify-end">
+                  <TemplatePicker onSelect={applyTemplate} />
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <label className="block text-sm font-medium text-gray-700">
@@ -2203,6 +3329,41 @@ const renderEventModal = () => {
                   </div>
                 </div>
               </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Time Zone
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Globe size={16} className="text-gray-400" />
+                  </div>
+                  <select
+                    value={eventFormData.timeZone || ""}
+                    onChange={(e) => setEventFormData({
+                      ...eventFormData,
+                      timeZone: e.target.value || null
+                    })}
+                    className="pl-10 w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="">Calendar time zone ({displayTimeZone})</option>
+                    {getTimeZoneOptions().map((zone) => (
+                      <option key={zone} value={zone}>{zone}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <RecurrenceEditor
+                value={eventFormData.recurrence}
+                onChange={(recurrence) => setEventFormData({ ...eventFormData, recurrence })}
+                startDate={eventFormData.startedAt}
+              />
+
+              <ReminderEditor
+                value={eventFormData.reminderOffsets ?? defaultReminderOffsets}
+                onChange={(reminderOffsets) => setEventFormData({ ...eventFormData, reminderOffsets })}
+              />
               
               <div className="space-y-2">
                 <label className="block text-sm font-medium text-gray-700">
@@ -2378,6 +3539,13 @@ const renderEventModal = () => {
                     </div>
                   </div>
                 )}
+
+                {eventFormData.type === EventType.TASK && (
+                  <ChecklistEditor
+                    value={eventFormData.checklist ?? []}
+                    onChange={(checklist) => setEventFormData({ ...eventFormData, checklist })}
+                  />
+                )}
                 
                 {eventFormData.isEditing && currentEvent?.type === EventType.TASK && (
                   <div className="bg-gray-50 rounded-lg p-3 flex items-center">
@@ -2391,6 +3559,9 @@ const renderEventModal = () => {
                     <label htmlFor="isCompleted" className="ml-2 block text-sm text-gray-900">
                       Mark as completed
                     </label>
+                    {!eventFormData.isCompleted && isChecklistComplete(eventFormData.checklist) && (
+                      <span className="ml-auto text-xs text-emerald-700">All steps are done</span>
+                    )}
                   </div>
                 )}
                 
@@ -2488,7 +3659,8 @@ const renderEventModal = () => {
 </button>
               <button
                 type="submit"
-                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium shadow-sm flex items-center"
+                disabled={isCheckingConflicts}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium shadow-sm flex items-center disabled:opacity-50"
               >
                 {eventFormData.isEditing ? (
                   <>
@@ -2636,8 +3808,15 @@ const renderEventDetailModal = () => {
       typeLabel = "Event";
   }
   
-  const startDate = new Date(currentEvent.startedAt);
-const endDate = new Date(currentEvent.endedAt);
+  const occurrenceShift = currentEvent.recurrence && selectedOccurrenceStart
+    ? new Date(selectedOccurrenceStart).getTime() - new Date(currentEvent.startedAt).getTime()
+    : 0;
+  const startInstant = new Date(new Date(currentEvent.startedAt).getTime() + occurrenceShift);
+  const startDate = toZonedTime(startInstant, displayTimeZone);
+const endDate = toZonedTime(new Date(new Date(currentEvent.endedAt).getTime() + occurrenceShift), displayTimeZone);
+const eventTimeZone = currentEvent.timeZone && currentEvent.timeZone !== displayTimeZone
+  ? currentEvent.timeZone
+  : null;
 const formattedStartDate = format(startDate, "EEE, MMM d, yyyy");
 const formattedStartTime = format(startDate, "h:mm a");
 const formattedEndDate = format(endDate, "EEE, MMM d, yyyy");
@@ -2696,6 +3875,14 @@ const headerDateDisplay = isSameDay
                 <Clock size={16} className="mr-2" />
                 <span>{timeDisplay}</span>
               </div>
+              {eventTimeZone && (
+                <div className="flex items-center text-white/70 text-xs mt-1">
+                  <Globe size={14} className="mr-2" />
+                  <span>
+                    {format(toZonedTime(startInstant, eventTimeZone), "h:mm a, EEE, MMM d")} in {eventTimeZone} ({getTimeZoneLabel(eventTimeZone, startInstant)})
+                  </span>
+                </div>
+              )}
             </div>
             
             <button 
@@ -2767,6 +3954,20 @@ const headerDateDisplay = isSameDay
 )}
               
               <div className="space-y-4">
+                {currentEvent.recurrence && (
+                  <div className="flex items-center">
+                    <div className="w-8 flex items-center justify-center text-gray-400">
+                      <Repeat size={18} />
+                    </div>
+                    <div className="ml-3">
+                      <div className="text-sm font-medium text-gray-900">Repeats</div>
+                      <div className="text-sm text-gray-500">
+                        {formatRecurrence(currentEvent.recurrence)}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex items-center">
                   <div className="w-8 flex items-center justify-center text-gray-400">
                     {currentEvent.category === EventCategory.HOME ? (
@@ -2849,6 +4050,66 @@ const headerDateDisplay = isSameDay
                         )}
                       </div>
                     </div>
+
+                    {currentEvent.task.checklist && currentEvent.task.checklist.length > 0 && (() => {
+                      const checklist = currentEvent.task.checklist;
+                      const progress = getChecklistProgress(checklist);
+
+                      return (
+                        <div className="flex items-start">
+                          <div className="w-8 flex items-center justify-center text-gray-400 pt-0.5">
+                            <ListChecks size={18} />
+                          </div>
+                          <div className="ml-3 flex-1">
+                            <div className="flex items-center justify-between">
+                              <div className="text-sm font-medium text-gray-900">Checklist</div>
+                              {progress && (
+                                <span className="text-xs text-gray-500">{progress.done}/{progress.total}</span>
+                              )}
+                            </div>
+                            {progress && (
+                              <div className="h-1.5 bg-gray-100 rounded-full mt-1 mb-2 overflow-hidden">
+                                <div
+                                  className="h-full bg-emerald-500 transition-all"
+                                  style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                                ></div>
+                              </div>
+                            )}
+                            <ul className="space-y-1">
+                              {checklist.map((item, index) => (
+                                <li key={index} className="flex items-center text-sm">
+                                  <input
+                                    type="checkbox"
+                                    checked={item.isDone}
+                                    disabled={!canEditEvent}
+                                    onChange={() => handleChecklistUpdate({
+                                      checklist: checklist.map((step, i) =>
+                                        i === index ? { ...step, isDone: !step.isDone } : step
+                                      )
+                                    })}
+                                    className="h-4 w-4 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                                  />
+                                  <span className={item.isDone ? "line-through text-gray-400" : "text-gray-700"}>
+                                    {item.text}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                            {canEditEvent && !currentEvent.task.isCompleted && isChecklistComplete(checklist) && (
+                              <div className="mt-3 flex items-center justify-between rounded-md bg-emerald-50 px-3 py-2 text-sm text-emerald-800">
+                                <span>All steps are done. Complete the task?</span>
+                                <button
+                                  onClick={() => handleChecklistUpdate({ isCompleted: true })}
+                                  className="ml-2 px-2 py-1 rounded-md bg-emerald-600 text-white text-xs font-medium hover:bg-emerald-700"
+                                >
+                                  Mark as completed
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })()}
                   </>
                 )}
               </div>
@@ -2897,7 +4158,7 @@ const headerDateDisplay = isSameDay
               >
                 <div className="flex items-center">
                   <img 
-                    src={`http://localhost:3000/uploads/avatars/${participant.calendarMember.user.profilePictureName}`}
+                    src={getAvatarUrl(participant.calendarMember.user.profilePictureName)}
                     alt="avatar"
                     className="w-8 h-8 rounded-full mr-3"
                   />
@@ -2998,11 +4259,11 @@ const headerDateDisplay = isSameDay
 )}
         </div>
         
-        <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-between">
+        <div className="p-4 border-t border-gray-200 bg-gray-50 flex justify-between gap-3">
   <div>
     {canDeleteEvent && (
       <button
-        onClick={handleDeleteEvent}
+        onClick={() => handleDeleteEvent()}
         className="px-4 py-2 text-red-600 bg-white border border-red-300 rounded-md hover:bg-red-50 transition-colors text-sm font-medium flex items-center shadow-sm"
       >
         <Trash2 size={16} className="mr-1" />
@@ -3011,7 +4272,39 @@ const headerDateDisplay = isSameDay
     )}
   </div>
   
-  <div className="flex space-x-3">
+  <div className="flex flex-wrap justify-end gap-3">
+    <button
+      onClick={() => setCopyMode("duplicate")}
+      className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium flex items-center shadow-sm"
+      title="Duplicate"
+    >
+      <Copy size={16} className="mr-1" />
+      Duplicate
+    </button>
+    <button
+      onClick={() => setCopyMode("copy")}
+      className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium flex items-center shadow-sm"
+      title="Copy to calendar…"
+    >
+      <CalendarPlus size={16} className="mr-1" />
+      Copy to…
+    </button>
+    <button
+      onClick={() => setShowSaveTemplateModal(true)}
+      className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium flex items-center shadow-sm"
+      title="Save as template"
+    >
+      <LayoutTemplate size={16} className="mr-1" />
+      Template
+    </button>
+    <button
+      onClick={handleExportEvent}
+      className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium flex items-center shadow-sm"
+      title="Download as .ics"
+    >
+      <Download size={16} className="mr-1" />
+      Export
+    </button>
     <button
       onClick={() => setShowEventDetailModal(false)}
       className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium shadow-sm"
@@ -3021,7 +4314,7 @@ const headerDateDisplay = isSameDay
     
     {canEditEvent && (
       <button
-        onClick={handleEditEvent}
+        onClick={() => handleEditEvent()}
         className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium flex items-center shadow-sm"
       >
         <Edit2 size={16} className="mr-1" />
@@ -3035,9 +4328,17 @@ const headerDateDisplay = isSameDay
   );
 };
   const renderParticipantModal = () => {
+    // For a series, check the occurrence that was opened rather than the first one.
+    const slotStart = currentEvent
+      ? new Date(currentEvent.recurrence && selectedOccurrenceStart ? selectedOccurrenceStart : currentEvent.startedAt)
+      : null;
+    const slotEnd = currentEvent && slotStart
+      ? new Date(slotStart.getTime() + new Date(currentEvent.endedAt).getTime() - new Date(currentEvent.startedAt).getTime())
+      : null;
+
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-        <div className="bg-white rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+        <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl overflow-hidden">
           <div className="bg-indigo-600 text-white px-6 py-4 flex justify-between items-center">
             <h2 className="text-xl font-bold">Add Participant</h2>
             <button 
@@ -3062,6 +4363,19 @@ const headerDateDisplay = isSameDay
                 required
               />
             </div>
+
+            {currentEvent && slotStart && slotEnd && (
+              <div className="mb-4">
+                <SchedulingAssistant
+                  participants={schedulingParticipants}
+                  start={slotStart}
+                  end={slotEnd}
+                  excludeEventId={currentEvent.id}
+                  // A series can't be moved from here without asking which occurrences to change.
+                  onSelectSlot={canEditEvent && !currentEvent.recurrence ? handleMoveToSlot : undefined}
+                />
+              </div>
+            )}
             
             <div className="flex justify-end space-x-3 pt-3 border-t">
               <button
@@ -3100,14 +4414,15 @@ const headerDateDisplay = isSameDay
                 case "month":
                   return format(currentDate, "MMMM yyyy");
                 case "week": {
-                  const startWeek = startOfWeek(currentDate, { weekStartsOn: 0 });
-                  const endWeek = endOfWeek(currentDate, { weekStartsOn: 0 });
-                  const weekNumber = getWeek(currentDate, { weekStartsOn: 0 });
+                  const startWeek = weekViewDays[0];
+                  const endWeek = weekViewDays[weekViewDays.length - 1];
+                  const weekNumber = getWeek(startWeek, { weekStartsOn });
                   return (
                     <div className="flex items-center">
                       <div>
                         <div className="text-xl font-bold">
-                          Week {weekNumber}, {format(startWeek, "MMM d")} – {format(endWeek, "MMM d, yyyy")}
+                          {weekDayCount === 7 && `Week ${weekNumber}, `}
+                          {format(startWeek, "MMM d")} – {format(endWeek, "MMM d, yyyy")}
                         </div>
                       </div>
                     </div>
@@ -3117,6 +4432,8 @@ const headerDateDisplay = isSameDay
                   return format(currentDate, "EEEE, MMMM d, yyyy");
                 case "year":
                   return currentYear.toString();
+                case "agenda":
+                  return `${format(visibleRange.start, "MMM d")} – ${format(addDays(visibleRange.end, -1), "MMM d, yyyy")}`;
                 default:
                   return "";
               }
@@ -3149,6 +4466,14 @@ const headerDateDisplay = isSameDay
               </button>
             </div>
             <button
+              onClick={handleExportCsv}
+              title="Export the events in this view as CSV"
+              className="px-3 py-2 bg-white border rounded-md hover:bg-slate-100 text-slate-700 transition-colors font-medium text-sm flex items-center"
+            >
+              <Download size={16} className="mr-1" />
+              CSV
+            </button>
+            <button
   onClick={() => navigate('/calendar/create-event')}
   className="px-4 py-2 bg-emerald-500 text-white rounded-md hover:bg-emerald-600 transition-colors font-medium text-sm flex items-center"
 >
@@ -3159,6 +4484,8 @@ const headerDateDisplay = isSameDay
 </button>
           </div>
         </div>
+
+        <QuickAddInput className="mb-6" onCreated={handleQuickAddCreated} />
         
         <div className="flex justify-center">
           <div className="inline-flex rounded-md shadow-sm bg-slate-100 p-1">
@@ -3202,7 +4529,42 @@ const headerDateDisplay = isSameDay
             >
               Year
             </button>
+            <button
+              onClick={() => setCurrentView("agenda")}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                currentView === "agenda"
+                  ? "bg-white text-indigo-700 shadow-sm"
+                  : "text-slate-600 hover:bg-slate-200"
+              }`}
+            >
+              Agenda
+            </button>
           </div>
+          {currentView === "week" && (
+            <div className="flex items-center ml-4 space-x-3 text-sm text-slate-600">
+              <label className="flex items-center">
+                <span className="mr-2">Days</span>
+                <select
+                  value={weekDayCount}
+                  onChange={(e) => setWeekDayCount(Number(e.target.value))}
+                  className="rounded-md border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                >
+                  {Array.from({ length: MAX_WEEK_VIEW_DAYS }, (_, i) => i + 1).map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={hideWeekends}
+                  onChange={(e) => setHideWeekends(e.target.checked)}
+                  className="mr-2"
+                />
+                Hide weekends
+              </label>
+            </div>
+          )}
         </div>
       </div>
       
@@ -3213,11 +4575,92 @@ const headerDateDisplay = isSameDay
         {currentView === "week" && renderWeekView()}
         {currentView === "day" && renderDayView()}
         {currentView === "year" && renderYearView()}
+        {currentView === "agenda" && renderAgendaView()}
       </div>
 
       {showEventModal && renderEventModal()}
       {showEventDetailModal && renderEventDetailModal()}
       {showParticipantModal && renderParticipantModal()}
+      {copyMode && currentEvent && (
+        <CopyEventModal
+          event={currentEvent}
+          mode={copyMode}
+          calendars={calendars}
+          onClose={() => setCopyMode(null)}
+          onCopied={handleEventCopied}
+        />
+      )}
+      {showSaveTemplateModal && currentEvent && (
+        <SaveTemplateModal
+          event={currentEvent}
+          onClose={() => setShowSaveTemplateModal(false)}
+          onSaved={(title) => {
+            setShowSaveTemplateModal(false);
+            if (setAlertMessage) {
+              setAlertMessage(`Template "${title}" saved`);
+            }
+          }}
+        />
+      )}
+      {undoToast && (
+        <UndoToast
+          message={undoToast.message}
+          actionLabel={undoToast.actionLabel}
+          onAction={undoToast.onAction}
+          onClose={() => setUndoToast(null)}
+        />
+      )}
+      {conflictPrompt && (
+        <ConflictDialog
+          conflicts={conflictPrompt.conflicts}
+          suggestions={conflictPrompt.suggestions}
+          timeZone={conflictPrompt.move ? displayTimeZone : formTimeZone}
+          onCancel={() => setConflictPrompt(null)}
+          onProceed={() => {
+            setConflictPrompt(null);
+            const { move } = conflictPrompt;
+            if (move) {
+              saveEventTimes(move.event, move.start, move.end, move.previousStart, move.previousEnd);
+            } else {
+              handleEventFormSubmit(undefined, conflictPrompt.scope, true);
+            }
+          }}
+          onPickSlot={(slot) => {
+            setConflictPrompt(null);
+            const { move } = conflictPrompt;
+            if (move) {
+              saveEventTimes(
+                move.event,
+                toZonedTime(slot.start, displayTimeZone),
+                toZonedTime(slot.end, displayTimeZone),
+                move.previousStart,
+                move.previousEnd
+              );
+              return;
+            }
+            // The form stays open with the new times so they can be reviewed before saving.
+            setEventFormData({
+              ...eventFormData,
+              startedAt: toZonedTime(slot.start, formTimeZone).toISOString(),
+              endedAt: toZonedTime(slot.end, formTimeZone).toISOString(),
+            });
+          }}
+        />
+      )}
+      {recurrenceScopeAction && (
+        <RecurrenceScopeDialog
+          action={recurrenceScopeAction}
+          onCancel={() => setRecurrenceScopeAction(null)}
+          onConfirm={(scope) => {
+            setRecurrenceScopeAction(null);
+            if (recurrenceScopeAction === "edit") {
+              handleEventFormSubmit(undefined, scope);
+            } else {
+              handleDeleteEvent(scope);
+            }
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -7,7 +7,6 @@ import {
 } from "date-fns";
 import { 
   createEvent, 
-  getCalendarEvents,
 } from "../actions/eventActions";
 import eventService from "../services/eventService";
 import { AppDispatch, RootState } from "../store";
@@ -16,6 +15,8 @@ import {
   EventType, 
   TaskPriority,
   CreateEventPayload,
+  RecurrenceRule,
+  ChecklistItem,
 } from "../types/eventTypes";
 import { 
   Check, 
@@ -26,13 +27,36 @@ import {
   Clock,
   ChevronRight,
   ChevronLeft,
-  Plus
+  Plus,
+  Globe
 } from "lucide-react";
 import { CalendarData } from "./CustomCalendar";
 import { getUserCalendars } from "../actions/calendarActions";
+import RecurrenceEditor from "./RecurrenceEditor";
+import ReminderEditor from "./ReminderEditor";
+import ChecklistEditor from "./ChecklistEditor";
+import TemplatePicker from "./TemplatePicker";
+import SchedulingAssistant from "./SchedulingAssistant";
+import ConflictDialog from "./ConflictDialog";
+import availabilityService from "../services/availabilityService";
+import {
+  BusyInterval,
+  TimeSlot,
+  getConflicts,
+  getDayRange,
+  suggestAlternativeSlots,
+} from "../lib/availability";
+import { getTemplateEnd } from "../lib/templates";
+import { EventTemplate } from "../types/templateTypes";
+import {
+  fromZonedTime,
+  getBrowserTimeZone,
+  getTimeZoneOptions,
+  toZonedTime,
+} from "../lib/timezone";
 
-const localToUTC = (date: Date): string => {
-  return date.toISOString();
+const localToUTC = (date: Date, timeZone?: string): string => {
+  return (timeZone ? fromZonedTime(date, timeZone) : date).toISOString();
 };
 
 function formatDateForInput(dateString: string): string {
@@ -59,7 +83,17 @@ const EventCreatePage: React.FC = () => {
   const navigate = useNavigate();
   const authUser = useSelector((state: RootState) => state.auth.user);
   const { calendars = [] } = useSelector((state: RootState) => state.calendar || {});
+  const {
+    defaultEventDuration,
+    displayTimeZone,
+    defaultReminderOffsets,
+    workingHoursStart,
+    workingHoursEnd,
+  } = useSelector((state: RootState) => state.preferences.preferences);
+  const calendarTimeZone = displayTimeZone || getBrowserTimeZone();
   
+  const [conflictPrompt, setConflictPrompt] = useState<{ conflicts: BusyInterval[]; suggestions: TimeSlot[] } | null>(null);
+  const [isCheckingConflicts, setIsCheckingConflicts] = useState(false);
   const [formParticipants, setFormParticipants] = useState<{email: string, id?: number}[]>([]);
   const [newParticipantEmail, setNewParticipantEmail] = useState("");
   const [isSearchingUser, setIsSearchingUser] = useState(false);
@@ -74,6 +108,10 @@ const EventCreatePage: React.FC = () => {
     type: EventType;
     calendarId: number;
     priority?: TaskPriority;
+    checklist?: ChecklistItem[];
+    recurrence?: RecurrenceRule | null;
+    timeZone?: string | null;
+    reminderOffsets?: number[] | null;
   }>({
     name: "",
     description: "",
@@ -90,9 +128,9 @@ const EventCreatePage: React.FC = () => {
     if (calendars && calendars.length > 0) {
       const defaultCalendar = calendars.find(cal => cal.calendarType !== "holiday") || calendars[0];
       
-      const now = new Date();
+      const now = toZonedTime(new Date(), calendarTimeZone);
       const later = new Date(now);
-      later.setMinutes(now.getMinutes() + 30);
+      later.setMinutes(now.getMinutes() + defaultEventDuration);
       
       const calendarId = defaultCalendar.calendarId || 
                         (defaultCalendar.calendar && defaultCalendar.calendar.id) || 
@@ -114,7 +152,7 @@ const EventCreatePage: React.FC = () => {
     } else if (calendars && calendars.length === 0) {
       setCalendarsLoading(false);
     }
-  }, [calendars]);
+  }, [calendars, defaultEventDuration, calendarTimeZone]);
 
 
   useEffect(() => {
@@ -170,16 +208,87 @@ const [calendarsLoading, setCalendarsLoading] = useState(true);
     setFormParticipants(formParticipants.filter(p => p.email !== email));
   };
 
+  // Form times are wall-clock times in this zone; they are converted to instants on save.
+  const formTimeZone = eventFormData.timeZone || calendarTimeZone;
+
+  const applyTemplate = (template: EventTemplate) => {
+    const templateCalendar = template.calendarId !== null
+      ? calendars.find(cal => cal.calendarId === template.calendarId && cal.calendarType !== "holiday")
+      : undefined;
+
+    setEventFormData({
+      ...eventFormData,
+      name: template.name,
+      description: template.description,
+      category: template.category,
+      type: template.type,
+      priority: template.priority ?? eventFormData.priority,
+      color: template.color || templateCalendar?.color || eventFormData.color,
+      calendarId: templateCalendar?.calendarId ?? eventFormData.calendarId,
+      endedAt: getTemplateEnd(template, eventFormData.startedAt),
+    });
+    setFormParticipants(template.participants.map(participant => ({ email: participant.email, id: participant.id })));
+  };
+
+  // Clashes with the user's other events, read from their visible calendars.
+  const findFormConflicts = async () => {
+    const slot = {
+      start: fromZonedTime(new Date(eventFormData.startedAt), formTimeZone),
+      end: fromZonedTime(new Date(eventFormData.endedAt), formTimeZone),
+    };
+    if (!authUser?.id || isNaN(slot.start.getTime()) || isNaN(slot.end.getTime()) || slot.end <= slot.start) {
+      return null;
+    }
+
+    const day = getDayRange(slot.start, formTimeZone);
+    const busy = await availabilityService.getBusyIntervals(
+      Number(authUser.id),
+      day.start < slot.start ? day.start : slot.start,
+      day.end > slot.end ? day.end : slot.end,
+      { ignoreTasks: true }
+    );
+    const conflicts = getConflicts(busy, slot.start, slot.end);
+    if (conflicts.length === 0) return null;
+
+    return {
+      conflicts,
+      suggestions: suggestAlternativeSlots(busy, slot, { timeZone: formTimeZone, workingHoursStart, workingHoursEnd }),
+    };
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
+    // Tasks only mark when something is due, so they can't double-book anyone.
+    if (eventFormData.type !== EventType.TASK) {
+      setIsCheckingConflicts(true);
+      try {
+        const formConflicts = await findFormConflicts();
+        if (formConflicts) {
+          setConflictPrompt(formConflicts);
+          return;
+        }
+      } catch (error) {
+        // Not being able to check shouldn't stop the event from being saved.
+        console.error("Error checking for conflicts:", error);
+      } finally {
+        setIsCheckingConflicts(false);
+      }
+    }
+
+    await saveEvent();
+  };
+
+  const saveEvent = async () => {
     try {
       const createPayload: CreateEventPayload = {
         name: eventFormData.name,
         description: eventFormData.description,
         category: eventFormData.category,
-        startedAt: localToUTC(new Date(eventFormData.startedAt)),
-        endedAt: localToUTC(new Date(eventFormData.endedAt)),
+        startedAt: localToUTC(new Date(eventFormData.startedAt), formTimeZone),
+        endedAt: localToUTC(new Date(eventFormData.endedAt), formTimeZone),
+        timeZone: eventFormData.timeZone || null,
+        reminderOffsets: eventFormData.reminderOffsets ?? null,
         color: eventFormData.color || 
               calendars.find(cal => cal.id === String(eventFormData.calendarId))?.color || 
               "#4CAF50",
@@ -190,19 +299,23 @@ const [calendarsLoading, setCalendarsLoading] = useState(true);
       if (eventFormData.type === EventType.TASK && eventFormData.priority) {
         createPayload.priority = eventFormData.priority;
       }
+
+      if (eventFormData.type === EventType.TASK && eventFormData.checklist?.length) {
+        createPayload.checklist = eventFormData.checklist;
+      }
       
       if (eventFormData.type === EventType.ARRANGEMENT && formParticipants.length > 0) {
         createPayload.participantIds = formParticipants
           .map(p => p.id)
           .filter(Boolean) as number[];
       }
-      
-      const newEvent = await dispatch(createEvent(createPayload));
-      
-      if (authUser?.id) {
-        await dispatch(getCalendarEvents(eventFormData.calendarId, authUser.id));
+
+      if (eventFormData.recurrence) {
+        createPayload.recurrence = eventFormData.recurrence;
       }
       
+      await dispatch(createEvent(createPayload));
+      
       navigate("/calendar");
     } catch (error) {
       console.error("Error creating event:", error);
@@ -302,6 +415,10 @@ const [calendarsLoading, setCalendarsLoading] = useState(true);
             
             <div className="p-6">
               <div className="space-y-6">
+                <div className="flex justify-end">
+                  <TemplatePicker onSelect={applyTemplate} />
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <label className="block text-sm font-medium text-gray-700">
@@ -353,6 +470,41 @@ const [calendarsLoading, setCalendarsLoading] = useState(true);
                     </div>
                   </div>
                 </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Time Zone
+                  </label>
+                  <div className="relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Globe size={16} className="text-gray-400" />
+                    </div>
+                    <select
+                      value={eventFormData.timeZone || ""}
+                      onChange={(e) => setEventFormData({
+                        ...eventFormData,
+                        timeZone: e.target.value || null
+                      })}
+                      className="pl-10 w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                      <option value="">Calendar time zone ({calendarTimeZone})</option>
+                      {getTimeZoneOptions().map((zone) => (
+                        <option key={zone} value={zone}>{zone}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <RecurrenceEditor
+                  value={eventFormData.recurrence}
+                  onChange={(recurrence) => setEventFormData({ ...eventFormData, recurrence })}
+                  startDate={eventFormData.startedAt}
+                />
+
+                <ReminderEditor
+                  value={eventFormData.reminderOffsets ?? defaultReminderOffsets}
+                  onChange={(reminderOffsets) => setEventFormData({ ...eventFormData, reminderOffsets })}
+                />
                 
                 <div className="space-y-2">
                   <label className="block text-sm font-medium text-gray-700">
@@ -487,6 +639,22 @@ const [calendarsLoading, setCalendarsLoading] = useState(true);
                         No participants added yet. Add participants by email above.
                       </div>
                     )}
+
+                    {formParticipants.length > 0 && eventFormData.startedAt && eventFormData.endedAt && (
+                      <div className="mt-4">
+                        <SchedulingAssistant
+                          participants={formParticipants}
+                          start={fromZonedTime(new Date(eventFormData.startedAt), formTimeZone)}
+                          end={fromZonedTime(new Date(eventFormData.endedAt), formTimeZone)}
+                          timeZone={formTimeZone}
+                          onSelectSlot={(slot) => setEventFormData({
+                            ...eventFormData,
+                            startedAt: toZonedTime(slot.start, formTimeZone).toISOString(),
+                            endedAt: toZonedTime(slot.end, formTimeZone).toISOString(),
+                          })}
+                        />
+                      </div>
+                    )}
                   </div>
                 )}
                 
@@ -524,6 +692,13 @@ const [calendarsLoading, setCalendarsLoading] = useState(true);
                       </div>
                     </div>
                   )}
+
+                {eventFormData.type === EventType.TASK && (
+                  <ChecklistEditor
+                    value={eventFormData.checklist ?? []}
+                    onChange={(checklist) => setEventFormData({ ...eventFormData, checklist })}
+                  />
+                )}
                   
                 <div className="space-y-2">
   <label className="block text-sm font-medium text-gray-700">
@@ -637,7 +812,8 @@ const [calendarsLoading, setCalendarsLoading] = useState(true);
                 </button>
                 <button
                   type="submit"
-                  className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium shadow-sm flex items-center"
+                  disabled={isCheckingConflicts}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors text-sm font-medium shadow-sm flex items-center disabled:opacity-50"
                 >
                   <Plus size={16} className="mr-1" />
                   Create Event
@@ -647,6 +823,28 @@ const [calendarsLoading, setCalendarsLoading] = useState(true);
           </form>
         </div>
       </div>
+
+      {conflictPrompt && (
+        <ConflictDialog
+          conflicts={conflictPrompt.conflicts}
+          suggestions={conflictPrompt.suggestions}
+          timeZone={formTimeZone}
+          onCancel={() => setConflictPrompt(null)}
+          onProceed={() => {
+            setConflictPrompt(null);
+            saveEvent();
+          }}
+          onPickSlot={(slot) => {
+            // The form keeps the new times so they can be reviewed before creating.
+            setConflictPrompt(null);
+            setEventFormData({
+              ...eventFormData,
+              startedAt: toZonedTime(slot.start, formTimeZone).toISOString(),
+              endedAt: toZonedTime(slot.end, formTimeZone).toISOString(),
+            });
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -10,9 +10,12 @@ import { useState, useEffect, useRef } from 'react';
 import { format } from 'date-fns';
 import { SearchEventResult, SearchEventsResult } from '../services/eventService';
 import eventService from "../services/eventService";
+import { getAvatarUrl } from "../services/apiClient";
 import { debounce } from 'lodash';
 import { getEvent } from '../actions/eventActions';
 import { EventCategory, EventType, TaskPriority, ResponseStatus } from "../types/eventTypes";
+import NotificationBell from './NotificationBell';
+import QuickAddInput from './QuickAddInput';
 
 function Header() {
     const user = useSelector((state: RootState) => state.auth.user);
@@ -411,7 +414,7 @@ function Header() {
                                                     <li key={participation.id} className="p-3 hover:bg-gray-50">
                                                         <div className="flex items-center space-x-3">
                                                             <img
-                                                                src={`http://localhost:3000/uploads/avatars/${participant.profilePictureName}`}
+                                                                src={getAvatarUrl(participant.profilePictureName)}
                                                                 alt="avatar"
                                                                 className="w-10 h-10 rounded-full object-cover"
                                                             />
@@ -582,9 +585,14 @@ function Header() {
                         </div>
                     )}
 
+                    {user && (
+                        <QuickAddInput className="hidden xl:block w-80" />
+                    )}
+
                     <nav className="flex items-center space-x-4">
                         {user ? (
                             <div className="flex items-center space-x-2">
+                                <NotificationBell />
                                 <DropdownMenu>
                                     <DropdownMenuTrigger asChild>
                                         <Button variant="ghost" className="relative h-10 w-10 rounded-full">
@@ -592,7 +600,7 @@ function Header() {
                                                 className="h-10 w-10 ring-2 ring-blue-500/20 transition-all hover:ring-blue-500/40"
                                             >
                                                 <AvatarImage
-                                                    src={`http://localhost:3000/uploads/avatars/${user.profilePictureName}`}
+                                                    src={getAvatarUrl(user.profilePictureName)}
                                                     alt={user.firstName}
                                                     className="object-cover"
                                                 />
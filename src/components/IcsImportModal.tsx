@@ -0,0 +1,318 @@
+import React, { useMemo, useState } from "react";
+import { useSelector } from "react-redux";
+import { skipToken } from "@reduxjs/toolkit/query/react";
+import axios from "axios";
+import { format } from "date-fns";
+import { AlertCircle, Check, FileUp, Repeat, X } from "lucide-react";
+import { RootState } from "../store";
+import eventService from "../services/eventService";
+import { useGetCalendarEventsQuery } from "../services/planqApi";
+import { CalendarData } from "./CustomCalendar";
+import { ImportedICalEvent, parseICalendar } from "../lib/ical";
+import { getDuplicateKey, getExistingEventKeys } from "../lib/importDuplicates";
+import { CreateEventPayload, EventType } from "../types/eventTypes";
+
+interface IcsImportModalProps {
+  calendars: CalendarData[];
+  defaultCalendarId?: string;
+  onClose: () => void;
+  onImported: (calendarId: string, count: number) => void;
+}
+
+type ImportStatus = "pending" | "done" | "failed";
+
+interface ImportItem {
+  event: ImportedICalEvent;
+  /** Set once the user ticks or unticks the item; until then duplicates are left out. */
+  selected?: boolean;
+  status: ImportStatus;
+  error?: string;
+}
+
+const IcsImportModal: React.FC<IcsImportModalProps> = ({
+  calendars,
+  defaultCalendarId,
+  onClose,
+  onImported,
+}) => {
+  const authUser = useSelector((state: RootState) => state.auth.user);
+  const [calendarId, setCalendarId] = useState(defaultCalendarId || calendars[0]?.id || "");
+  const [fileName, setFileName] = useState("");
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+
+  const targetCalendar = calendars.find(cal => cal.id === calendarId);
+
+  // The calendar only holds the months on screen, so duplicates are looked for in the whole calendar.
+  const { currentData: existingEvents, isFetching: isLoadingExisting } = useGetCalendarEventsQuery(
+    targetCalendar && authUser?.id
+      ? { calendarId: Number(targetCalendar.id), userId: Number(authUser.id) }
+      : skipToken
+  );
+
+  const existingKeys = useMemo(() => getExistingEventKeys(existingEvents), [existingEvents]);
+
+  const isDuplicate = (event: ImportedICalEvent) =>
+    existingKeys.has(getDuplicateKey(event.title, event.start));
+
+  const isSelected = (item: ImportItem) => item.selected ?? !isDuplicate(item.event);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParseError(null);
+    setIsFinished(false);
+
+    try {
+      const parsed = parseICalendar(await file.text());
+      const seenUids = new Set<string>();
+      // The same UID can appear several times (e.g. modified occurrences); only the first one is kept.
+      const unique = parsed.filter(event => {
+        if (seenUids.has(event.uid)) return false;
+        seenUids.add(event.uid);
+        return true;
+      });
+
+      if (unique.length === 0) {
+        setParseError("No events or tasks were found in this file.");
+      }
+
+      setItems(unique.map(event => ({ event, status: "pending" })));
+    } catch (error) {
+      console.error("Error parsing .ics file:", error);
+      setParseError("This file could not be read as an iCalendar (.ics) file.");
+      setItems([]);
+    }
+  };
+
+  const toggleItem = (index: number) => {
+    setItems(items.map((item, i) => i === index ? { ...item, selected: !isSelected(item) } : item));
+  };
+
+  const toggleAll = (selected: boolean) => {
+    setItems(items.map(item => ({ ...item, selected })));
+  };
+
+  const handleImport = async () => {
+    if (!targetCalendar) return;
+
+    setIsImporting(true);
+    const results = items.map(item => ({ ...item, selected: isSelected(item) }));
+    let imported = 0;
+
+    for (let i = 0; i < results.length; i++) {
+      const { event, selected, status } = results[i];
+      if (!selected || status === "done") continue;
+
+      const payload: CreateEventPayload = {
+        name: event.title,
+        description: event.description,
+        category: event.category,
+        startedAt: event.start,
+        endedAt: event.end,
+        color: targetCalendar.color,
+        type: event.type,
+        calendarId: Number(targetCalendar.id),
+        recurrence: event.recurrence
+      };
+
+      if (event.type === EventType.TASK && event.priority) {
+        payload.priority = event.priority;
+      }
+
+      try {
+        const created = await eventService.createEvent(payload);
+        if (event.type === EventType.TASK && event.isCompleted) {
+          await eventService.updateEvent(created.id, { isCompleted: true });
+        }
+        results[i] = { ...results[i], status: "done", error: undefined };
+        imported++;
+      } catch (error) {
+        console.error("Error importing event:", error);
+        results[i] = {
+          ...results[i],
+          status: "failed",
+          error: (axios.isAxiosError(error) && error.response?.data?.message)
+            || (error instanceof Error && error.message)
+            || "Unknown error"
+        };
+      }
+
+      setItems([...results]);
+    }
+
+    setIsImporting(false);
+    setIsFinished(true);
+
+    if (imported > 0) {
+      onImported(targetCalendar.id, imported);
+    }
+  };
+
+  const selectedCount = items.filter(item => isSelected(item) && item.status !== "done").length;
+  const failedCount = items.filter(item => item.status === "failed").length;
+  const doneCount = items.filter(item => item.status === "done").length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[1000]">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center px-6 py-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-800">Import from .ics</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+            disabled={isImporting}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                File
+              </label>
+              <label className="flex items-center justify-center w-full rounded-md border border-dashed border-gray-300 px-3 py-2 text-sm text-gray-600 cursor-pointer hover:bg-gray-50">
+                <FileUp size={16} className="mr-2 text-gray-400" />
+                <span className="truncate">
+                  {isLoadingExisting ? "Loading calendar..." : fileName || "Choose an .ics file"}
+                </span>
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  onChange={handleFileChange}
+                  className="hidden"
+                  disabled={isImporting || isLoadingExisting}
+                />
+              </label>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Target calendar
+              </label>
+              <select
+                value={calendarId}
+                onChange={(e) => {
+                  setCalendarId(e.target.value);
+                  setIsFinished(false);
+                }}
+                className="w-full rounded-md border border-gray-300 shadow-sm px-3 py-2 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                disabled={isImporting}
+              >
+                {calendars.map(cal => (
+                  <option key={cal.id} value={cal.id}>{cal.title}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {parseError && (
+            <div className="flex items-center p-3 bg-red-50 text-red-700 rounded-md text-sm">
+              <AlertCircle size={16} className="mr-2" />
+              {parseError}
+            </div>
+          )}
+
+          {items.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium text-gray-700">
+                  {items.length} item{items.length === 1 ? "" : "s"} found
+                </h3>
+                <div className="space-x-3 text-xs">
+                  <button type="button" onClick={() => toggleAll(true)} className="text-indigo-600 hover:underline">
+                    Select all
+                  </button>
+                  <button type="button" onClick={() => toggleAll(false)} className="text-indigo-600 hover:underline">
+                    Select none
+                  </button>
+                </div>
+              </div>
+
+              <ul className="border border-gray-200 rounded-md divide-y divide-gray-100 max-h-80 overflow-y-auto">
+                {items.map((item, index) => (
+                  <li key={item.event.uid} className="flex items-start px-3 py-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={isSelected(item)}
+                      onChange={() => toggleItem(index)}
+                      disabled={isImporting || item.status === "done"}
+                      className="mt-1 mr-3"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-800 truncate">{item.event.title}</span>
+                        {item.event.type === EventType.TASK && (
+                          <span className="px-1.5 py-0.5 rounded text-xs bg-emerald-50 text-emerald-700">Task</span>
+                        )}
+                        {item.event.recurrence && (
+                          <Repeat size={12} className="text-gray-400 flex-shrink-0" />
+                        )}
+                        {item.event.hasUnsupportedRecurrence && (
+                          <span
+                            className="px-1.5 py-0.5 rounded text-xs bg-amber-50 text-amber-700"
+                            title="This repeat rule isn't supported, so only the first date is imported"
+                          >
+                            First date only
+                          </span>
+                        )}
+                        {isDuplicate(item.event) && (
+                          <span className="px-1.5 py-0.5 rounded text-xs bg-amber-50 text-amber-700">Duplicate</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {item.event.allDay
+                          ? `${format(new Date(item.event.start), "MMM d, yyyy")} · All day`
+                          : `${format(new Date(item.event.start), "MMM d, yyyy h:mm a")} – ${format(new Date(item.event.end), "h:mm a")}`}
+                      </div>
+                      {item.status === "failed" && (
+                        <div className="text-xs text-red-600 mt-0.5">Failed: {item.error}</div>
+                      )}
+                    </div>
+                    {item.status === "done" && <Check size={16} className="text-emerald-600 mt-1" />}
+                    {item.status === "failed" && <AlertCircle size={16} className="text-red-500 mt-1" />}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {isFinished && (
+            <div className={`p-3 rounded-md text-sm ${failedCount > 0 ? 'bg-amber-50 text-amber-800' : 'bg-emerald-50 text-emerald-800'}`}>
+              Imported {doneCount} of {doneCount + failedCount} selected item{doneCount + failedCount === 1 ? "" : "s"}.
+              {failedCount > 0 && " Failed items are still selected and can be retried."}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end px-6 py-4 border-t space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isImporting}
+            className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-300"
+          >
+            {isFinished ? "Close" : "Cancel"}
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={isImporting || isLoadingExisting || selectedCount === 0 || !targetCalendar}
+            className="px-4 py-2 text-sm text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:bg-indigo-400"
+          >
+            {isImporting
+              ? `Importing ${doneCount + failedCount + 1}/${items.filter(isSelected).length}...`
+              : `Import ${selectedCount} item${selectedCount === 1 ? "" : "s"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IcsImportModal;
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { format } from "date-fns";
+import { Bell, Calendar, Check, Loader2, X } from "lucide-react";
+import { AppDispatch, RootState } from "../store";
+import { Button } from "./ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger } from "./ui/dropdown-menu";
+import notificationService, {
+  CalendarInvitation,
+  EventInvitation,
+  PendingInvitations,
+} from "../services/notificationService";
+import eventService from "../services/eventService";
+import { getUserCalendars } from "../actions/calendarActions";
+import { ResponseStatus } from "../types/eventTypes";
+import { getApiErrorMessage, planqApi } from "../services/planqApi";
+
+const POLL_INTERVAL_MS = 60000;
+
+const SEEN_STORAGE_KEY_PREFIX = "notifications:seen:";
+
+const getCalendarKey = (invitation: CalendarInvitation) => `calendar:${invitation.calendarId}`;
+
+const getEventKey = (invitation: EventInvitation) =>
+  `event:${invitation.eventId}:${invitation.calendarMemberId}`;
+
+const loadSeenKeys = (userId: string | number): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(`${SEEN_STORAGE_KEY_PREFIX}${userId}`) || "[]");
+  } catch (error) {
+    console.error("Error reading seen notifications:", error);
+    return [];
+  }
+};
+
+interface InvitationActionsProps {
+  isResponding: boolean;
+  /** Left out where accepting needs the link from the invitation email. */
+  onAccept?: () => void;
+  onDecline: () => void;
+}
+
+const InvitationActions: React.FC<InvitationActionsProps> = ({ isResponding, onAccept, onDecline }) => (
+  <div className="flex justify-end items-center gap-2 mt-2">
+    {!onAccept && (
+      <span className="mr-auto text-xs text-gray-500">Accept from the link in the invitation email</span>
+    )}
+    <button
+      type="button"
+      onClick={onDecline}
+      disabled={isResponding}
+      className="flex items-center px-2 py-1 text-xs rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+    >
+      <X className="h-3 w-3 mr-1" />
+      Decline
+    </button>
+    {onAccept && (
+      <button
+        type="button"
+        onClick={onAccept}
+        disabled={isResponding}
+        className="flex items-center px-2 py-1 text-xs rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+      >
+        {isResponding ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Check className="h-3 w-3 mr-1" />}
+        Accept
+      </button>
+    )}
+  </div>
+);
+
+const NotificationBell: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const user = useSelector((state: RootState) => state.auth.user);
+  const userId = user?.id;
+
+  const [invitations, setInvitations] = useState<PendingInvitations>({ calendars: [], events: [] });
+  const [seenKeys, setSeenKeys] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [respondingKey, setRespondingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInvitations = useCallback(async () => {
+    if (!userId || document.hidden) return;
+
+    setIsLoading(true);
+    try {
+      setInvitations(await notificationService.getPendingInvitations(Number(userId)));
+    } catch (error) {
+      console.error("Error loading invitations:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    setSeenKeys(userId ? loadSeenKeys(userId) : []);
+    loadInvitations();
+
+    const timer = setInterval(loadInvitations, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [userId, loadInvitations]);
+
+  const allKeys = [
+    ...invitations.calendars.map(getCalendarKey),
+    ...invitations.events.map(getEventKey),
+  ];
+  const unreadCount = allKeys.filter((key) => !seenKeys.includes(key)).length;
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open || !userId) return;
+
+    setError(null);
+    // Only keys of invitations that are still pending are kept, so the list doesn't grow forever.
+    setSeenKeys(allKeys);
+    localStorage.setItem(`${SEEN_STORAGE_KEY_PREFIX}${userId}`, JSON.stringify(allKeys));
+  };
+
+  const respond = async (key: string, action: () => Promise<unknown>, refresh: () => Promise<unknown>) => {
+    setRespondingKey(key);
+    setError(null);
+
+    try {
+      await action();
+      setInvitations((prev) => ({
+        calendars: prev.calendars.filter((item) => getCalendarKey(item) !== key),
+        events: prev.events.filter((item) => getEventKey(item) !== key),
+      }));
+      await refresh();
+    } catch (error) {
+      console.error("Error responding to invitation:", error);
+      setError(
+        getApiErrorMessage(error) ||
+        "Couldn't send your response. Please try again."
+      );
+    } finally {
+      setRespondingKey(null);
+    }
+  };
+
+  // Shares are only confirmed through the emailed token, so declining is all that can be done here.
+  const declineCalendar = (invitation: CalendarInvitation) => {
+    if (!userId) return;
+
+    respond(
+      getCalendarKey(invitation),
+      () => dispatch(
+        planqApi.endpoints.leaveCalendar.initiate({ calendarId: invitation.calendarId, userId: String(userId) })
+      ).unwrap(),
+      () => dispatch(getUserCalendars(String(userId)))
+    );
+  };
+
+  const respondToEvent = (invitation: EventInvitation, responseStatus: ResponseStatus) => {
+    if (!userId) return;
+
+    respond(
+      getEventKey(invitation),
+      () => eventService.updateParticipant(invitation.eventId, invitation.calendarMemberId, { responseStatus }),
+      async () => {
+        dispatch(planqApi.util.invalidateTags([{ type: "Event", id: invitation.eventId }]));
+      }
+    );
+  };
+
+  if (!user) return null;
+
+  const hasInvitations = allKeys.length > 0;
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-10 w-10 rounded-full" title="Notifications">
+          <Bell className="h-5 w-5 text-gray-600" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="text-sm font-semibold text-gray-800">Invitations</span>
+          {isLoading && <Loader2 className="h-4 w-4 text-gray-400 animate-spin" />}
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 text-xs text-red-600 bg-red-50 border-b">{error}</div>
+        )}
+
+        {!hasInvitations ? (
+          <div className="p-4 text-sm text-gray-500 text-center">No pending invitations</div>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {invitations.calendars.map((invitation) => {
+              const key = getCalendarKey(invitation);
+              return (
+                <li key={key} className="px-4 py-3">
+                  <div className="flex items-start">
+                    <Calendar className="h-4 w-4 text-indigo-500 mr-2 mt-0.5 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-gray-900">
+                        You were invited to the calendar <span className="font-medium">{invitation.title}</span>
+                      </div>
+                      <div className="text-xs text-gray-500">Role: {invitation.role}</div>
+                    </div>
+                  </div>
+                  <InvitationActions
+                    isResponding={respondingKey === key}
+                    onDecline={() => declineCalendar(invitation)}
+                  />
+                </li>
+              );
+            })}
+            {invitations.events.map((invitation) => {
+              const key = getEventKey(invitation);
+              return (
+                <li key={key} className="px-4 py-3">
+                  <div className="flex items-start">
+                    <Bell className="h-4 w-4 text-amber-500 mr-2 mt-0.5 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{invitation.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {format(new Date(invitation.startedAt), "EEE, MMM d, h:mm a")}
+                      </div>
+                    </div>
+                  </div>
+                  <InvitationActions
+                    isResponding={respondingKey === key}
+                    onAccept={() => respondToEvent(invitation, ResponseStatus.ACCEPTED)}
+                    onDecline={() => respondToEvent(invitation, ResponseStatus.DECLINED)}
+                  />
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { format, isSameDay } from "date-fns";
+import { AlertCircle, Check, Loader2, Sparkles } from "lucide-react";
+import { AppDispatch, RootState } from "../store";
+import { createEvent } from "../actions/eventActions";
+import { getUserCalendars } from "../actions/calendarActions";
+import { CreateEventPayload, Event, EventType, TaskPriority } from "../types/eventTypes";
+import { parseQuickAdd } from "../lib/quickAdd";
+import { fromZonedTime, getBrowserTimeZone, toZonedTime } from "../lib/timezone";
+import { TASK_PRIORITY_STYLES, formatTaskPriority } from "../lib/tasks";
+import { getApiErrorMessage } from "../services/planqApi";
+
+interface QuickAddCalendar {
+  id: number;
+  title: string;
+  color: string;
+  isMain: boolean;
+}
+
+interface QuickAddInputProps {
+  /** Called after the event is created; without it the calendar list is reloaded. */
+  onCreated?: (event: Event, calendarId: number) => void;
+  className?: string;
+}
+
+const NOTICE_TIMEOUT_MS = 3000;
+
+const TYPE_LABELS: Record<EventType, string> = {
+  [EventType.TASK]: "Task",
+  [EventType.REMINDER]: "Reminder",
+  [EventType.ARRANGEMENT]: "Event",
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, "");
+
+const QuickAddInput: React.FC<QuickAddInputProps> = ({ onCreated, className = "" }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const user = useSelector((state: RootState) => state.auth.user);
+  // The calendar slice holds the memberships as the API returns them.
+  const memberships = useSelector((state: RootState) => state.calendar.calendars);
+  const { defaultEventDuration, workingHoursStart, displayTimeZone } = useSelector(
+    (state: RootState) => state.preferences.preferences
+  );
+  const timeZone = displayTimeZone || getBrowserTimeZone();
+
+  const [text, setText] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Outside the calendar page nobody else loads the calendars.
+  useEffect(() => {
+    if (user?.id && memberships.length === 0) {
+      dispatch(getUserCalendars(String(user.id)));
+    }
+  }, [dispatch, user?.id, memberships.length]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const calendars: QuickAddCalendar[] = useMemo(
+    () =>
+      memberships
+        .filter((item) => {
+          const role = item.role?.toLowerCase();
+          return item.calendarType !== "holiday" &&
+            item.isConfirmed !== false &&
+            (role === "owner" || role === "editor");
+        })
+        .map((item) => ({
+          id: Number(item.calendarId || item.id),
+          title: item.calendar?.name || "Untitled",
+          color: item.color || "#10b981",
+          isMain: item.calendarType === "main",
+        })),
+    [memberships]
+  );
+
+  const parsed = useMemo(
+    () =>
+      text.trim()
+        ? parseQuickAdd(text, {
+            now: toZonedTime(new Date(), timeZone),
+            defaultDuration: defaultEventDuration,
+            defaultStartHour: workingHoursStart,
+          })
+        : null,
+    [text, timeZone, defaultEventDuration, workingHoursStart]
+  );
+
+  const targetCalendar = parsed?.calendarQuery
+    ? calendars.find((cal) => normalize(cal.title).startsWith(normalize(parsed.calendarQuery!)))
+    : calendars.find((cal) => cal.isMain) || calendars[0];
+
+  const problem = !parsed
+    ? null
+    : !parsed.name
+      ? "Add a name for the event"
+      : !targetCalendar
+        ? parsed.calendarQuery
+          ? `No calendar you can edit matches "@${parsed.calendarQuery}"`
+          : "You don't have a calendar to add events to"
+        : null;
+
+  const handleSubmit = async () => {
+    if (!parsed || !targetCalendar || problem || isCreating) return;
+
+    const payload: CreateEventPayload = {
+      name: parsed.name,
+      description: "",
+      category: parsed.category,
+      startedAt: fromZonedTime(parsed.start, timeZone).toISOString(),
+      endedAt: fromZonedTime(parsed.end, timeZone).toISOString(),
+      color: targetCalendar.color,
+      type: parsed.type,
+      calendarId: targetCalendar.id,
+    };
+
+    if (parsed.type === EventType.TASK) {
+      payload.priority = parsed.priority || TaskPriority.MEDIUM;
+    }
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const event: Event = await dispatch(createEvent(payload, { silent: true }));
+      setText("");
+      setNotice(`Added "${event.name}" to ${targetCalendar.title}`);
+
+      // Loaded calendars pick the new event up on their own, since creating it invalidates them.
+      onCreated?.(event, targetCalendar.id);
+    } catch (error) {
+      console.error("Error creating event from quick add:", error);
+      setError(
+        getApiErrorMessage(error) ||
+        "Couldn't create the event. Please try again."
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === "Escape") {
+      setText("");
+      setError(null);
+      e.currentTarget.blur();
+    }
+  };
+
+  const showPreview = isFocused && parsed !== null;
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          {isCreating
+            ? <Loader2 className="h-4 w-4 text-indigo-500 animate-spin" />
+            : <Sparkles className="h-4 w-4 text-indigo-400" />}
+        </div>
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError(null);
+          }}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          onKeyDown={handleKeyDown}
+          disabled={isCreating}
+          placeholder='Quick add: "Team sync tomorrow 3pm for 45m #work"'
+          className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+      </div>
+
+      {showPreview && parsed && (
+        <div className="absolute left-0 right-0 mt-1 bg-white rounded-md shadow-lg border border-gray-200 p-3 z-50 text-sm">
+          <div className="font-medium text-gray-900 truncate">
+            {parsed.name || <span className="text-gray-400 italic">No name yet</span>}
+          </div>
+          <div className="text-gray-600 mt-1">
+            {format(parsed.start, "EEE, MMM d, h:mm a")}
+            {" – "}
+            {format(parsed.end, isSameDay(parsed.start, parsed.end) ? "h:mm a" : "EEE, MMM d, h:mm a")}
+          </div>
+          <div className="flex flex-wrap items-center gap-1 mt-2">
+            <span className="px-2 py-0.5 rounded-full text-xs bg-indigo-50 text-indigo-700">
+              {TYPE_LABELS[parsed.type]}
+            </span>
+            <span className="px-2 py-0.5 rounded-full text-xs bg-slate-100 text-slate-600 capitalize">
+              {parsed.category}
+            </span>
+            {parsed.type === EventType.TASK && (
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                TASK_PRIORITY_STYLES[parsed.priority || TaskPriority.MEDIUM]
+              }`}>
+                {formatTaskPriority(parsed.priority || TaskPriority.MEDIUM)}
+              </span>
+            )}
+            {parsed.type !== EventType.TASK && parsed.priority && (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-amber-50 text-amber-700">
+                Priority is for tasks · add #task
+              </span>
+            )}
+            {targetCalendar && (
+              <span className="flex items-center px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+                <span
+                  className="w-2 h-2 rounded-full mr-1"
+                  style={{ backgroundColor: targetCalendar.color }}
+                ></span>
+                {targetCalendar.title}
+              </span>
+            )}
+          </div>
+          {problem || error ? (
+            <div className="flex items-center mt-2 text-xs text-red-600">
+              <AlertCircle className="h-3 w-3 mr-1 flex-shrink-0" />
+              {error || problem}
+            </div>
+          ) : (
+            <div className="mt-2 text-xs text-gray-400">
+              Press Enter to create · #work #home #task · !high · @calendar
+            </div>
+          )}
+        </div>
+      )}
+
+      {notice && !showPreview && (
+        <div className="absolute left-0 right-0 mt-1 flex items-center bg-emerald-50 text-emerald-800 rounded-md border border-emerald-200 px-3 py-2 text-xs z-50">
+          <Check className="h-3 w-3 mr-1 flex-shrink-0" />
+          {notice}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickAddInput;
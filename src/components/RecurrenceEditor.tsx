@@ -0,0 +1,236 @@
+import React from "react";
+import { format } from "date-fns";
+import { Repeat, X } from "lucide-react";
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+} from "../types/eventTypes";
+import {
+  WEEKDAY_LABELS,
+  WEEKDAY_ORDER,
+  createDefaultRecurrence,
+  formatRecurrence,
+} from "../lib/recurrence";
+
+interface RecurrenceEditorProps {
+  value?: RecurrenceRule | null;
+  onChange: (value: RecurrenceRule | null) => void;
+  startDate: string;
+}
+
+type EndMode = "never" | "until" | "count";
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({
+  value,
+  onChange,
+  startDate,
+}) => {
+  const start = startDate ? new Date(startDate) : new Date();
+  const endMode: EndMode = value?.count ? "count" : value?.until ? "until" : "never";
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+
+    const defaults = createDefaultRecurrence(frequency as RecurrenceFrequency, start);
+    onChange(
+      value
+        ? { ...value, frequency: defaults.frequency, byWeekday: defaults.byWeekday }
+        : defaults
+    );
+  };
+
+  const toggleWeekday = (weekday: (typeof WEEKDAY_ORDER)[number]) => {
+    if (!value) return;
+
+    const current = value.byWeekday || [];
+    const next = current.includes(weekday)
+      ? current.filter((day) => day !== weekday)
+      : [...current, weekday];
+
+    // A weekly rule always needs at least one day.
+    if (next.length === 0) return;
+
+    onChange({ ...value, byWeekday: next });
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (!value) return;
+
+    if (mode === "never") {
+      onChange({ ...value, count: null, until: null });
+    } else if (mode === "count") {
+      onChange({ ...value, count: value.count || 10, until: null });
+    } else {
+      const until = new Date(start);
+      until.setMonth(until.getMonth() + 1);
+      until.setHours(23, 59, 59, 0);
+      onChange({ ...value, count: null, until: value.until || until.toISOString() });
+    }
+  };
+
+  const restoreException = (exception: string) => {
+    if (!value) return;
+
+    onChange({
+      ...value,
+      exceptions: (value.exceptions || []).filter((item) => item !== exception),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">
+        Repeat
+      </label>
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Repeat size={16} className="text-gray-400" />
+        </div>
+        <select
+          value={value?.frequency || ""}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          className="pl-10 w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="">Does not repeat</option>
+          <option value={RecurrenceFrequency.DAILY}>Daily</option>
+          <option value={RecurrenceFrequency.WEEKLY}>Weekly</option>
+          <option value={RecurrenceFrequency.MONTHLY}>Monthly</option>
+          <option value={RecurrenceFrequency.YEARLY}>Yearly</option>
+        </select>
+      </div>
+
+      {value && (
+        <div className="border border-gray-200 rounded-md p-3 space-y-3 bg-gray-50">
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={value.interval}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  interval: Math.max(1, parseInt(e.target.value) || 1),
+                })
+              }
+              className="w-16 border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <span>
+              {value.frequency === RecurrenceFrequency.DAILY && "day(s)"}
+              {value.frequency === RecurrenceFrequency.WEEKLY && "week(s)"}
+              {value.frequency === RecurrenceFrequency.MONTHLY && "month(s)"}
+              {value.frequency === RecurrenceFrequency.YEARLY && "year(s)"}
+            </span>
+          </div>
+
+          {value.frequency === RecurrenceFrequency.WEEKLY && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_ORDER.map((weekday) => (
+                <button
+                  key={weekday}
+                  type="button"
+                  onClick={() => toggleWeekday(weekday)}
+                  className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    value.byWeekday?.includes(weekday)
+                      ? "bg-indigo-600 text-white"
+                      : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-100"
+                  }`}
+                >
+                  {WEEKDAY_LABELS[weekday]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2 text-sm text-gray-700">
+            <span className="block text-xs font-medium text-gray-500 uppercase">Ends</span>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={endMode === "never"}
+                onChange={() => handleEndModeChange("never")}
+              />
+              Never
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={endMode === "until"}
+                onChange={() => handleEndModeChange("until")}
+              />
+              On
+              <input
+                type="date"
+                disabled={endMode !== "until"}
+                value={value.until ? format(new Date(value.until), "yyyy-MM-dd") : ""}
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  const until = new Date(`${e.target.value}T23:59:59`);
+                  onChange({ ...value, count: null, until: until.toISOString() });
+                }}
+                className="border border-gray-300 rounded-md px-2 py-1 disabled:bg-gray-100"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={endMode === "count"}
+                onChange={() => handleEndModeChange("count")}
+              />
+              After
+              <input
+                type="number"
+                min={1}
+                disabled={endMode !== "count"}
+                value={value.count || ""}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    count: Math.max(1, parseInt(e.target.value) || 1),
+                    until: null,
+                  })
+                }
+                className="w-16 border border-gray-300 rounded-md px-2 py-1 disabled:bg-gray-100"
+              />
+              occurrences
+            </label>
+          </div>
+
+          {value.exceptions && value.exceptions.length > 0 && (
+            <div className="space-y-1">
+              <span className="block text-xs font-medium text-gray-500 uppercase">
+                Skipped occurrences
+              </span>
+              <div className="flex flex-wrap gap-1">
+                {value.exceptions.map((exception) => (
+                  <span
+                    key={exception}
+                    className="flex items-center bg-white border border-gray-300 rounded-full px-2 py-0.5 text-xs text-gray-700"
+                  >
+                    {format(new Date(exception), "MMM d, yyyy HH:mm")}
+                    <button
+                      type="button"
+                      onClick={() => restoreException(exception)}
+                      className="ml-1 text-gray-400 hover:text-red-500"
+                      title="Restore occurrence"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">{formatRecurrence(value)}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
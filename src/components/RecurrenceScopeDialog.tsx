@@ -0,0 +1,69 @@
+import React, { useState } from "react";
+import { Repeat } from "lucide-react";
+import { RecurrenceEditScope } from "../types/eventTypes";
+
+interface RecurrenceScopeDialogProps {
+  action: "edit" | "delete";
+  onConfirm: (scope: RecurrenceEditScope) => void;
+  onCancel: () => void;
+}
+
+const scopeOptions = [
+  { value: RecurrenceEditScope.THIS, label: "This event" },
+  { value: RecurrenceEditScope.FOLLOWING, label: "This and following events" },
+  { value: RecurrenceEditScope.ALL, label: "All events" },
+];
+
+const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({
+  action,
+  onConfirm,
+  onCancel,
+}) => {
+  const [scope, setScope] = useState<RecurrenceEditScope>(RecurrenceEditScope.THIS);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-sm overflow-hidden">
+        <div className="px-6 py-4 border-b flex items-center">
+          <Repeat size={18} className="mr-2 text-indigo-600" />
+          <h3 className="text-lg font-semibold text-gray-800">
+            {action === "edit" ? "Edit recurring event" : "Delete recurring event"}
+          </h3>
+        </div>
+        <div className="p-6 space-y-3">
+          {scopeOptions.map((option) => (
+            <label key={option.value} className="flex items-center gap-3 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="radio"
+                name="recurrence-scope"
+                checked={scope === option.value}
+                onChange={() => setScope(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+        <div className="px-6 py-4 bg-gray-50 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm font-medium shadow-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(scope)}
+            className={`px-4 py-2 text-white rounded-md transition-colors text-sm font-medium shadow-sm ${
+              action === "delete" ? "bg-red-600 hover:bg-red-700" : "bg-indigo-600 hover:bg-indigo-700"
+            }`}
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceScopeDialog;
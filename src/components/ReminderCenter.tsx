@@ -0,0 +1,158 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useSelector } from "react-redux";
+import { format, formatDistance } from "date-fns";
+import { BellRing, X } from "lucide-react";
+import { RootState } from "../store";
+import { CalendarEvent } from "./CustomCalendar";
+import {
+  DueReminder,
+  SNOOZE_OPTIONS,
+  formatReminderOffset,
+  getDueReminders,
+  loadShownReminders,
+  saveShownReminders,
+} from "../lib/reminders";
+import { getBrowserTimeZone, toZonedTime } from "../lib/timezone";
+
+interface ReminderCenterProps {
+  events: CalendarEvent[];
+}
+
+const CHECK_INTERVAL_MS = 30000;
+
+// Shown reminders are remembered for a day after the event starts.
+const SHOWN_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const ReminderCenter: React.FC<ReminderCenterProps> = ({ events }) => {
+  const { defaultReminderOffsets, displayTimeZone } = useSelector(
+    (state: RootState) => state.preferences.preferences
+  );
+  const [activeReminders, setActiveReminders] = useState<DueReminder[]>([]);
+  const [now, setNow] = useState(new Date());
+  const shownRef = useRef<Record<string, number>>(loadShownReminders());
+  const snoozedRef = useRef<{ reminder: DueReminder; until: number }[]>([]);
+
+  const timeZone = displayTimeZone || getBrowserTimeZone();
+  const formatTime = useCallback(
+    (date: Date) => format(toZonedTime(date, timeZone), "EEE, h:mm a"),
+    [timeZone]
+  );
+
+  const notify = useCallback((reminder: DueReminder) => {
+    if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+
+    try {
+      const notification = new Notification(reminder.event.title, {
+        body: `${formatTime(reminder.start)} · ${formatReminderOffset(reminder.offset)}`,
+        tag: reminder.key,
+      });
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    } catch (error) {
+      console.error("Error showing notification:", error);
+    }
+  }, [formatTime]);
+
+  const checkReminders = useCallback(() => {
+    const current = new Date();
+    const shown = shownRef.current;
+    const due = getDueReminders(events, defaultReminderOffsets, current, new Set(Object.keys(shown)));
+
+    due.forEach((reminder) => {
+      [reminder.key, ...reminder.supersededKeys].forEach((key) => {
+        shown[key] = reminder.start.getTime() + SHOWN_RETENTION_MS;
+      });
+    });
+    if (due.length > 0) {
+      saveShownReminders(shown);
+    }
+
+    const woken = snoozedRef.current.filter((item) => item.until <= current.getTime());
+    snoozedRef.current = snoozedRef.current.filter((item) => item.until > current.getTime());
+
+    const ready = [...due, ...woken.map((item) => item.reminder)];
+    ready.forEach(notify);
+
+    setNow(current);
+    if (ready.length > 0) {
+      setActiveReminders((prev) => [
+        ...prev.filter((reminder) => !ready.some((item) => item.key === reminder.key)),
+        ...ready,
+      ]);
+    }
+  }, [events, defaultReminderOffsets, notify]);
+
+  useEffect(() => {
+    checkReminders();
+    const timer = setInterval(checkReminders, CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [checkReminders]);
+
+  const dismissReminder = (key: string) => {
+    setActiveReminders((prev) => prev.filter((reminder) => reminder.key !== key));
+  };
+
+  const snoozeReminder = (reminder: DueReminder, minutes: number) => {
+    snoozedRef.current.push({ reminder, until: Date.now() + minutes * 60000 });
+    dismissReminder(reminder.key);
+  };
+
+  if (activeReminders.length === 0) return null;
+
+  return (
+    <div
+      className="fixed top-20 right-4 w-80 max-h-[70vh] overflow-y-auto space-y-3"
+      style={{ zIndex: 9999 }}
+    >
+      {activeReminders.map((reminder) => (
+        <div
+          key={reminder.key}
+          className="bg-white rounded-md shadow-lg border-l-4 p-4"
+          style={{ borderLeftColor: reminder.event.color || "#4F46E5" }}
+        >
+          <div className="flex items-start">
+            <BellRing className="h-5 w-5 text-indigo-600 mr-3 mt-0.5 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-gray-900 truncate">{reminder.event.title}</div>
+              <div className="text-xs text-gray-500 mt-0.5">
+                {formatTime(reminder.start)} ·{" "}
+                {reminder.start > now
+                  ? `starts ${formatDistance(reminder.start, now, { addSuffix: true })}`
+                  : "started"}
+              </div>
+            </div>
+            <button
+              onClick={() => dismissReminder(reminder.key)}
+              className="text-gray-400 hover:text-gray-600 transition-all duration-300"
+              title="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex items-center justify-end gap-2 mt-3 text-xs">
+            <span className="text-gray-500">Snooze</span>
+            {SNOOZE_OPTIONS.map((minutes) => (
+              <button
+                key={minutes}
+                onClick={() => snoozeReminder(reminder, minutes)}
+                className="px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                {minutes} min
+              </button>
+            ))}
+            <button
+              onClick={() => dismissReminder(reminder.key)}
+              className="px-2 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReminderCenter;
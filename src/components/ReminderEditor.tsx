@@ -0,0 +1,73 @@
+import React from "react";
+import { Bell, X } from "lucide-react";
+import {
+  REMINDER_OFFSET_OPTIONS,
+  formatReminderOffset,
+  sortReminderOffsets,
+} from "../lib/reminders";
+
+interface ReminderEditorProps {
+  value: number[];
+  onChange: (value: number[]) => void;
+  label?: string;
+}
+
+const ReminderEditor: React.FC<ReminderEditorProps> = ({
+  value,
+  onChange,
+  label = "Reminders",
+}) => {
+  const availableOptions = REMINDER_OFFSET_OPTIONS.filter((offset) => !value.includes(offset));
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">
+        {label}
+      </label>
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((offset) => (
+            <span
+              key={offset}
+              className="flex items-center px-2 py-1 rounded-full text-xs font-medium bg-indigo-50 text-indigo-700"
+            >
+              <Bell size={12} className="mr-1" />
+              {formatReminderOffset(offset)}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((item) => item !== offset))}
+                className="ml-1 text-indigo-400 hover:text-indigo-700"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {availableOptions.length > 0 && (
+        <div className="relative">
+          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+            <Bell size={16} className="text-gray-400" />
+          </div>
+          <select
+            value=""
+            onChange={(e) => {
+              if (e.target.value === "") return;
+              onChange(sortReminderOffsets([...value, Number(e.target.value)]));
+            }}
+            className="pl-10 w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">{value.length > 0 ? "Add another reminder" : "No reminders — add one"}</option>
+            {availableOptions.map((offset) => (
+              <option key={offset} value={offset}>{formatReminderOffset(offset)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReminderEditor;
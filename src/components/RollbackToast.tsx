@@ -0,0 +1,52 @@
+import React, { useCallback, useEffect } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { AlertTriangle, X } from "lucide-react";
+import { AppDispatch, RootState } from "../store";
+import { EventActionTypes } from "../reducers/eventReducer";
+import { clearCalendarRollbackError } from "../reducers/calendarReducer";
+
+/** Tells the user when a change that was already shown had to be undone because the server refused it. */
+const RollbackToast: React.FC = () => {
+  const dispatch: AppDispatch = useDispatch();
+  const eventError = useSelector((state: RootState) => state.event.rollbackError);
+  const calendarError = useSelector((state: RootState) => state.calendar.rollbackError);
+  const message = eventError || calendarError;
+
+  const handleClose = useCallback(() => {
+    if (eventError) {
+      dispatch({ type: EventActionTypes.CLEAR_ROLLBACK_ERROR });
+    } else {
+      dispatch(clearCalendarRollbackError());
+    }
+  }, [dispatch, eventError]);
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(handleClose, 6000);
+    return () => clearTimeout(timer);
+  }, [message, handleClose]);
+
+  if (!message) return null;
+
+  return (
+    <div
+      className="fixed bottom-8 left-1/2 -translate-x-1/2 p-4 bg-white text-gray-900 rounded-md shadow-lg border-l-4 border-red-600 flex items-center space-x-3 animate-fade-in-out"
+      style={{ zIndex: 9999 }}
+      role="alert"
+    >
+      <AlertTriangle className="h-6 w-6 text-red-600 flex-shrink-0" />
+      <div className="flex-1">
+        <div className="font-medium">{message}</div>
+        <div className="text-sm text-gray-600">Your change has been undone.</div>
+      </div>
+      <button
+        onClick={handleClose}
+        className="text-gray-600 hover:text-gray-800 transition-all duration-300"
+      >
+        <X className="h-6 w-6" />
+      </button>
+    </div>
+  );
+};
+
+export default RollbackToast;
@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { X } from "lucide-react";
+import { AppDispatch, RootState } from "../store";
+import { saveTemplate } from "../actions/templateActions";
+import { Event } from "../types/eventTypes";
+import { createTemplateFromEvent, formatTemplateDuration, getOtherParticipants } from "../lib/templates";
+
+interface SaveTemplateModalProps {
+  event: Event;
+  onClose: () => void;
+  onSaved: (title: string) => void;
+}
+
+const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({ event, onClose, onSaved }) => {
+  const dispatch: AppDispatch = useDispatch();
+  const authUser = useSelector((state: RootState) => state.auth.user);
+  const currentUserId = authUser?.id ? Number(authUser.id) : undefined;
+
+  const [title, setTitle] = useState(event.name);
+  const [includeParticipants, setIncludeParticipants] = useState(true);
+
+  const participants = getOtherParticipants(event, currentUserId);
+  const preview = createTemplateFromEvent(event, { title, includeParticipants, currentUserId });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!authUser?.id) return;
+
+    const saved = dispatch(saveTemplate(String(authUser.id), preview));
+    onSaved(saved.title);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[1000] p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+        <div className="bg-indigo-600 text-white px-6 py-4 flex justify-between items-center">
+          <h2 className="text-xl font-bold">Save as template</h2>
+          <button onClick={onClose} className="text-white hover:text-indigo-100">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              Template name
+            </label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              autoFocus
+              required
+            />
+          </div>
+
+          <div className="rounded-md bg-slate-50 p-3 text-sm text-slate-600 space-y-1">
+            <div>
+              <span className="font-medium text-slate-800">{preview.name}</span>
+              {" · "}
+              {formatTemplateDuration(preview.duration)}
+            </div>
+            <div className="capitalize">
+              {preview.type} · {preview.category}
+              {preview.priority && ` · ${preview.priority} priority`}
+            </div>
+          </div>
+
+          {participants.length > 0 && (
+            <label className="flex items-start text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={includeParticipants}
+                onChange={(e) => setIncludeParticipants(e.target.checked)}
+                className="h-4 w-4 mt-0.5 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+              />
+              <span>
+                Invite the same participants
+                <span className="block text-xs text-slate-500">
+                  {participants.map((participant) => participant.email).join(", ")}
+                </span>
+              </span>
+            </label>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-md hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
+            >
+              Save template
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SaveTemplateModal;
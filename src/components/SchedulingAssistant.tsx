@@ -0,0 +1,307 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useSelector } from "react-redux";
+import { addDays, addHours, differenceInMinutes, format, startOfDay } from "date-fns";
+import { AlertCircle, Check, HelpCircle, Loader2 } from "lucide-react";
+import { RootState } from "../store";
+import eventService from "../services/eventService";
+import availabilityService from "../services/availabilityService";
+import {
+  BusyInterval,
+  TimeSlot,
+  findFreeSlots,
+  getConflicts,
+  getDayRange,
+  getWorkingHoursRange,
+} from "../lib/availability";
+import { fromZonedTime, getBrowserTimeZone, toZonedTime } from "../lib/timezone";
+
+export interface SchedulingParticipant {
+  email: string;
+  id?: number;
+}
+
+interface SchedulingAssistantProps {
+  /** People to check besides the current user; pass a stable array. */
+  participants: SchedulingParticipant[];
+  /** Proposed slot as instants. */
+  start: Date;
+  end: Date;
+  /** Zone the timeline is drawn in; defaults to the display zone. */
+  timeZone?: string;
+  /** The event being rescheduled, so it doesn't conflict with itself. */
+  excludeEventId?: number;
+  suggestionCount?: number;
+  onSelectSlot?: (slot: TimeSlot) => void;
+}
+
+interface PersonAvailability {
+  key: string;
+  label: string;
+  /** Null when the person's calendars couldn't be read. */
+  busy: BusyInterval[] | null;
+}
+
+// Typing an email shouldn't fire a request per keystroke.
+const LOAD_DELAY_MS = 400;
+
+const formatSlot = (slot: TimeSlot, timeZone: string) =>
+  `${format(toZonedTime(slot.start, timeZone), "h:mm a")} – ${format(toZonedTime(slot.end, timeZone), "h:mm a")}`;
+
+const SchedulingAssistant: React.FC<SchedulingAssistantProps> = ({
+  participants,
+  start,
+  end,
+  timeZone,
+  excludeEventId,
+  suggestionCount = 4,
+  onSelectSlot,
+}) => {
+  const authUser = useSelector((state: RootState) => state.auth.user);
+  const { workingHoursStart, workingHoursEnd, displayTimeZone } = useSelector(
+    (state: RootState) => state.preferences.preferences
+  );
+  const zone = timeZone || displayTimeZone || getBrowserTimeZone();
+
+  const [people, setPeople] = useState<PersonAvailability[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Adding one more person shouldn't reload everyone else.
+  const userIdsRef = useRef(new Map<string, number | null>());
+  const busyRef = useRef(new Map<string, Promise<BusyInterval[] | null>>());
+
+  const zonedStart = toZonedTime(start, zone);
+  const zonedDay = startOfDay(zonedStart);
+  const day = getDayRange(start, zone);
+  const dayStartMs = day.start.getTime();
+  const dayEndMs = day.end.getTime();
+  const currentUserId = authUser?.id ? Number(authUser.id) : undefined;
+  const currentUserEmail = authUser?.email;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const getUserId = async (participant: SchedulingParticipant): Promise<number | null> => {
+      if (participant.id) return participant.id;
+
+      const email = participant.email.trim().toLowerCase();
+      if (!userIdsRef.current.has(email)) {
+        try {
+          const users = await eventService.findUserByEmail(email);
+          userIdsRef.current.set(email, users?.[0]?.id ?? null);
+        } catch (error) {
+          console.error("Error finding user:", error);
+          return null;
+        }
+      }
+      return userIdsRef.current.get(email) ?? null;
+    };
+
+    const getBusy = (userId: number): Promise<BusyInterval[] | null> => {
+      const key = `${userId}:${dayStartMs}:${excludeEventId ?? ""}`;
+      if (!busyRef.current.has(key)) {
+        busyRef.current.set(
+          key,
+          availabilityService
+            .getBusyIntervals(userId, new Date(dayStartMs), new Date(dayEndMs), { excludeEventId })
+            .catch((error) => {
+              console.error(`Error loading availability of user ${userId}:`, error);
+              return null;
+            })
+        );
+      }
+      return busyRef.current.get(key)!;
+    };
+
+    const load = async () => {
+      setIsLoading(true);
+
+      const everyone: (SchedulingParticipant & { label: string })[] = [
+        ...(currentUserId ? [{ id: currentUserId, email: currentUserEmail || "", label: "You" }] : []),
+        ...participants
+          .filter((participant) => participant.id !== currentUserId)
+          .map((participant) => ({ ...participant, label: participant.email })),
+      ];
+
+      const result = await Promise.all(
+        everyone.map(async (person) => {
+          const userId = await getUserId(person);
+          return {
+            key: userId ? `user-${userId}` : `email-${person.email}`,
+            label: person.label,
+            busy: userId ? await getBusy(userId) : null,
+          };
+        })
+      );
+
+      if (!cancelled) {
+        setPeople(result);
+        setIsLoading(false);
+      }
+    };
+
+    const timer = setTimeout(load, LOAD_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [participants, dayStartMs, dayEndMs, excludeEventId, currentUserId, currentUserEmail]);
+
+  // The timeline covers the working hours and stretches to show the proposed slot.
+  const zonedEnd = toZonedTime(end, zone);
+  const firstHour = Math.max(0, Math.min(workingHoursStart - 1, zonedStart.getHours()));
+  const lastHour = zonedEnd.getTime() >= addDays(zonedDay, 1).getTime()
+    ? 24
+    : Math.min(24, Math.max(workingHoursEnd + 1, zonedEnd.getHours() + (zonedEnd.getMinutes() > 0 ? 1 : 0)));
+  const timelineStart = fromZonedTime(addHours(zonedDay, firstHour), zone);
+  const timelineEnd = fromZonedTime(addHours(zonedDay, lastHour), zone);
+  const timelineMs = timelineEnd.getTime() - timelineStart.getTime();
+  const hourStep = lastHour - firstHour > 12 ? 2 : 1;
+
+  const toPercent = (date: Date) =>
+    Math.min(100, Math.max(0, ((date.getTime() - timelineStart.getTime()) / timelineMs) * 100));
+
+  const blockStyle = (from: Date, to: Date): React.CSSProperties => ({
+    left: `${toPercent(from)}%`,
+    width: `${Math.max(toPercent(to) - toPercent(from), 0.5)}%`,
+  });
+
+  const { start: workStart, end: workEnd } = getWorkingHoursRange(start, zone, workingHoursStart, workingHoursEnd);
+
+  const known = people.filter((person) => person.busy !== null);
+  const conflicted = known.filter((person) => getConflicts(person.busy!, start, end).length > 0);
+  const unknownCount = people.length - known.length;
+
+  const duration = differenceInMinutes(end, start);
+  const suggestions = findFreeSlots(
+    known.map((person) => person.busy!),
+    {
+      windowStart: workStart,
+      windowEnd: workEnd,
+      duration,
+      // One extra in case the proposed slot itself is free.
+      count: suggestionCount + 1,
+      notBefore: new Date(),
+    }
+  )
+    .filter((slot) => slot.start.getTime() !== start.getTime())
+    .slice(0, suggestionCount);
+
+  const hours: number[] = [];
+  for (let hour = firstHour; hour <= lastHour; hour += hourStep) {
+    hours.push(hour);
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-md p-3 bg-white">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-700">
+          Availability · {format(zonedDay, "EEE, MMM d")}
+        </h4>
+        {isLoading && <Loader2 size={14} className="text-indigo-500 animate-spin" />}
+      </div>
+
+      {duration <= 0 ? (
+        <div className="text-xs text-gray-500">Pick an end time after the start to check availability.</div>
+      ) : (
+        <>
+          <div className="flex text-[10px] text-gray-400 mb-1">
+            <div className="w-32 flex-shrink-0"></div>
+            <div className="relative flex-1 h-3">
+              {hours.map((hour) => (
+                <span
+                  key={hour}
+                  className="absolute -translate-x-1/2"
+                  style={{ left: `${toPercent(fromZonedTime(addHours(zonedDay, hour), zone))}%` }}
+                >
+                  {format(addHours(zonedDay, hour), "ha").toLowerCase()}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            {people.map((person) => {
+              const conflicts = person.busy ? getConflicts(person.busy, start, end) : [];
+
+              return (
+                <div key={person.key} className="flex items-center">
+                  <div className="w-32 flex-shrink-0 flex items-center pr-2 text-xs text-gray-700 min-w-0">
+                    {person.busy === null ? (
+                      <HelpCircle size={12} className="mr-1 flex-shrink-0 text-gray-400" />
+                    ) : conflicts.length > 0 ? (
+                      <AlertCircle size={12} className="mr-1 flex-shrink-0 text-red-500" />
+                    ) : (
+                      <Check size={12} className="mr-1 flex-shrink-0 text-emerald-500" />
+                    )}
+                    <span className="truncate" title={person.label}>{person.label}</span>
+                  </div>
+                  <div className="relative flex-1 h-6 rounded bg-gray-100 overflow-hidden">
+                    <div className="absolute inset-y-0 bg-white" style={blockStyle(workStart, workEnd)}></div>
+                    {person.busy === null ? (
+                      <div className="absolute inset-0 flex items-center justify-center text-[10px] text-gray-400 italic">
+                        Availability not shared
+                      </div>
+                    ) : (
+                      person.busy.map((interval) => {
+                        const isConflict = conflicts.includes(interval);
+                        return (
+                          <div
+                            key={`${interval.eventId}-${interval.start.getTime()}`}
+                            className={`absolute inset-y-1 rounded-sm ${isConflict ? "bg-red-400" : "bg-slate-300"}`}
+                            style={blockStyle(interval.start, interval.end)}
+                            title={`${interval.name} · ${formatSlot(interval, zone)}`}
+                          ></div>
+                        );
+                      })
+                    )}
+                    <div
+                      className="absolute inset-y-0 border-2 border-indigo-500 bg-indigo-200 bg-opacity-30 rounded-sm pointer-events-none"
+                      style={blockStyle(start, end)}
+                    ></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {people.length > 0 && (
+            <div className={`mt-2 text-xs ${conflicted.length > 0 ? "text-red-600" : "text-gray-600"}`}>
+              {conflicted.length > 0
+                ? `${conflicted.length} of ${people.length} ${people.length === 1 ? "person is" : "people are"} busy at ${formatSlot({ start, end }, zone)}.`
+                : `Everyone${unknownCount > 0 ? " we can see" : ""} is free at ${formatSlot({ start, end }, zone)}.`}
+              {unknownCount > 0 && (
+                <span className="text-gray-500"> {unknownCount} calendar{unknownCount === 1 ? " isn't" : "s aren't"} shared with you.</span>
+              )}
+            </div>
+          )}
+
+          {!isLoading && people.length > 0 && (
+            <div className="mt-3">
+              <div className="text-xs font-medium text-gray-600 mb-1">Free for everyone</div>
+              {suggestions.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {suggestions.map((slot) => (
+                    <button
+                      key={slot.start.getTime()}
+                      type="button"
+                      onClick={() => onSelectSlot?.(slot)}
+                      disabled={!onSelectSlot}
+                      className="px-2 py-1 text-xs rounded-md border border-emerald-300 bg-emerald-50 text-emerald-800 hover:bg-emerald-100 disabled:cursor-default disabled:hover:bg-emerald-50"
+                    >
+                      {formatSlot(slot, zone)}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-xs text-gray-500">
+                  No {duration}-minute slot left during working hours on this day.
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SchedulingAssistant;
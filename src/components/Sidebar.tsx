@@ -2,7 +2,7 @@ import React, { useState } from "react";
 import { 
   Edit2, Trash2, Palette, Share2, LogOut, 
   Plus, ChevronRight, ChevronDown, MoreHorizontal,
-  UserPlus
+  UserPlus, Download, Upload, FileSpreadsheet
 } from "lucide-react";
 
 export interface CalendarData {
@@ -54,6 +54,8 @@ const Sidebar: React.FC<SidebarProps> = ({
 const renderMenuOptions = (calendar: CalendarData) => {
   const role = calendar.role?.toLowerCase();
   const isMainOrHoliday = calendar.calendarType === "main" || calendar.calendarType === "holiday";
+  const canImport = calendar.calendarType !== "holiday" &&
+    (String(calendar.creatorId) === String(authUser?.id) || role === "owner" || role === "editor");
 
   return (
     <div className="absolute right-0 top-0 z-10 mt-10 w-56 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 divide-y divide-gray-100">
@@ -266,6 +268,53 @@ const renderMenuOptions = (calendar: CalendarData) => {
           </>
         )}
       </div>
+
+      <div className="py-1">
+        <button
+          onClick={() => {
+            setActiveMenu(null);
+            openModal({
+              type: 'export',
+              calendarId: calendar.id,
+              calendarTitle: calendar.title
+            });
+          }}
+          className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          <Download className="mr-2" size={16} />
+          <span>Export (.ics)</span>
+        </button>
+        {canImport && (
+          <button
+            onClick={() => {
+              setActiveMenu(null);
+              openModal({
+                type: 'import',
+                calendarId: calendar.id
+              });
+            }}
+            className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <Upload className="mr-2" size={16} />
+            <span>Import (.ics)</span>
+          </button>
+        )}
+        {canImport && (
+          <button
+            onClick={() => {
+              setActiveMenu(null);
+              openModal({
+                type: 'importCsv',
+                calendarId: calendar.id
+              });
+            }}
+            className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <FileSpreadsheet className="mr-2" size={16} />
+            <span>Import (CSV)</span>
+          </button>
+        )}
+      </div>
     </div>
   );
 };
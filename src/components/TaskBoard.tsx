@@ -0,0 +1,309 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { format } from "date-fns";
+import { CheckCircle2, KanbanSquare } from "lucide-react";
+import { AppDispatch, RootState } from "../store";
+import { updateEvent } from "../actions/eventActions";
+import { CalendarData, CalendarEvent } from "./CustomCalendar";
+import { EventCategory, TaskPriority, UpdateEventPayload } from "../types/eventTypes";
+import {
+  TASK_PRIORITY_STYLES,
+  canModifyTask,
+  formatTaskPriority,
+  getTaskDueDate,
+  isTaskOverdue,
+  sortTasks,
+} from "../lib/tasks";
+
+interface TaskBoardProps {
+  events: CalendarEvent[];
+  calendars: CalendarData[];
+  onTasksChanged: (calendarIds: string[]) => void;
+  setAlertMessage: (message: string | null) => void;
+}
+
+type BoardGrouping = "priority" | "status";
+
+type BoardSwimlanes = "none" | "category";
+
+interface BoardColumn {
+  key: string;
+  title: string;
+  accent: string;
+  // The change that moves a task into this column.
+  changes: Partial<CalendarEvent>;
+}
+
+const COLUMNS: Record<BoardGrouping, BoardColumn[]> = {
+  priority: [
+    { key: TaskPriority.LOW, title: "Low", accent: "border-blue-400", changes: { priority: TaskPriority.LOW } },
+    { key: TaskPriority.MEDIUM, title: "Medium", accent: "border-yellow-400", changes: { priority: TaskPriority.MEDIUM } },
+    { key: TaskPriority.HIGH, title: "High", accent: "border-red-400", changes: { priority: TaskPriority.HIGH } },
+  ],
+  status: [
+    { key: "todo", title: "To do", accent: "border-indigo-400", changes: { isCompleted: false } },
+    { key: "done", title: "Done", accent: "border-emerald-400", changes: { isCompleted: true } },
+  ],
+};
+
+const LANES: { key: EventCategory; title: string }[] = [
+  { key: EventCategory.HOME, title: "Home" },
+  { key: EventCategory.WORK, title: "Work" },
+];
+
+const getColumnKey = (task: CalendarEvent, grouping: BoardGrouping): string =>
+  grouping === "status"
+    ? task.isCompleted ? "done" : "todo"
+    : task.priority || TaskPriority.MEDIUM;
+
+const selectClassName =
+  "border border-gray-300 rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const TaskBoard: React.FC<TaskBoardProps> = ({
+  events,
+  calendars,
+  onTasksChanged,
+  setAlertMessage,
+}) => {
+  const dispatch: AppDispatch = useDispatch();
+  const authUser = useSelector((state: RootState) => state.auth.user);
+
+  const [grouping, setGrouping] = useState<BoardGrouping>("priority");
+  const [swimlanes, setSwimlanes] = useState<BoardSwimlanes>("none");
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // Moves are shown right away and dropped once the refreshed events arrive.
+  const [movedTasks, setMovedTasks] = useState<Record<string, Partial<CalendarEvent>>>({});
+
+  useEffect(() => {
+    setMovedTasks({});
+  }, [events]);
+
+  const now = new Date();
+
+  const tasks = useMemo(
+    () =>
+      sortTasks(
+        events
+          .filter(event => event.type === "task")
+          .map(task => movedTasks[task.id] ? { ...task, ...movedTasks[task.id] } : task),
+        "due"
+      ),
+    [events, movedTasks]
+  );
+
+  // Completed tasks would crowd the priority columns, so they're opt-in there.
+  const boardTasks = grouping === "status" || showCompleted
+    ? tasks
+    : tasks.filter(task => !task.isCompleted);
+
+  const columns = COLUMNS[grouping];
+  const lanes: { key: EventCategory | null; title: string }[] =
+    swimlanes === "category" ? LANES : [{ key: null, title: "" }];
+
+  const moveTask = async (task: CalendarEvent, column: BoardColumn, lane: EventCategory | null) => {
+    const changes: Partial<CalendarEvent> = { ...column.changes };
+    if (lane && task.category !== lane) {
+      changes.category = lane;
+    }
+
+    const isUnchanged = (Object.keys(changes) as (keyof CalendarEvent)[])
+      .every(key => task[key] === changes[key]);
+    if (isUnchanged) return;
+
+    setMovedTasks(prev => ({ ...prev, [task.id]: { ...prev[task.id], ...changes } }));
+
+    try {
+      await dispatch(updateEvent(parseInt(task.id), changes as UpdateEventPayload, { silent: true }));
+      onTasksChanged([task.calendarId]);
+    } catch (error) {
+      console.error(`Error moving task ${task.id}:`, error);
+      setMovedTasks(prev => {
+        const rest = { ...prev };
+        delete rest[task.id];
+        return rest;
+      });
+      setAlertMessage(`Couldn't move "${task.title}"`);
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, task: CalendarEvent) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", task.id);
+    setDraggedTaskId(task.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTaskId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, column: BoardColumn, lane: EventCategory | null) => {
+    e.preventDefault();
+    const taskId = draggedTaskId || e.dataTransfer.getData("text/plain");
+    const task = tasks.find(item => item.id === taskId);
+
+    handleDragEnd();
+    if (task) {
+      moveTask(task, column, lane);
+    }
+  };
+
+  const renderCard = (task: CalendarEvent) => {
+    const calendar = calendars.find(cal => cal.id === task.calendarId);
+    const overdue = isTaskOverdue(task, now);
+    const editable = canModifyTask(task, calendars, authUser?.id);
+
+    return (
+      <div
+        key={`${task.calendarId}-${task.id}`}
+        draggable={editable}
+        onDragStart={(e) => handleDragStart(e, task)}
+        onDragEnd={handleDragEnd}
+        className={`rounded-md border border-slate-200 bg-white p-3 shadow-sm ${
+          editable ? "cursor-grab active:cursor-grabbing" : "cursor-default opacity-80"
+        } ${draggedTaskId === task.id ? "opacity-50" : ""}`}
+        title={editable ? undefined : "You can't change this task"}
+      >
+        <div className="flex items-start gap-2">
+          {task.isCompleted && <CheckCircle2 className="h-4 w-4 text-emerald-600 flex-shrink-0 mt-0.5" />}
+          <div className={`text-sm font-medium ${task.isCompleted ? "line-through text-gray-400" : "text-gray-900"}`}>
+            {task.title}
+          </div>
+        </div>
+        <div className="flex items-center text-xs text-gray-500 mt-1">
+          <span
+            className="w-2 h-2 rounded-full mr-1 flex-shrink-0"
+            style={{ backgroundColor: calendar?.color || task.color }}
+          ></span>
+          <span className="truncate">{calendar?.title || "Calendar"}</span>
+        </div>
+        <div className="flex items-center justify-between gap-2 mt-2">
+          <span className={`text-xs whitespace-nowrap ${overdue ? "text-red-600 font-medium" : "text-gray-500"}`}>
+            {overdue && "Overdue · "}
+            {format(getTaskDueDate(task), "MMM d, h:mm a")}
+          </span>
+          <div className="flex items-center gap-1">
+            {task.category && swimlanes !== "category" && (
+              <span className="px-2 py-0.5 rounded-full text-xs bg-slate-100 text-slate-600 capitalize">
+                {task.category}
+              </span>
+            )}
+            {grouping !== "priority" && (
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                TASK_PRIORITY_STYLES[(task.priority as TaskPriority) || TaskPriority.MEDIUM]
+              }`}>
+                {formatTaskPriority(task.priority)}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-lg shadow-sm border border-slate-200 bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center">
+            <KanbanSquare className="h-5 w-5 mr-2 text-indigo-600" />
+            Board
+          </h2>
+          <p className="text-sm text-slate-500">Drag cards between columns to update them</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          <span>Columns</span>
+          <select
+            value={grouping}
+            onChange={(e) => setGrouping(e.target.value as BoardGrouping)}
+            className={selectClassName}
+          >
+            <option value="priority">Priority</option>
+            <option value="status">Status</option>
+          </select>
+          <span className="ml-2">Swimlanes</span>
+          <select
+            value={swimlanes}
+            onChange={(e) => setSwimlanes(e.target.value as BoardSwimlanes)}
+            className={selectClassName}
+          >
+            <option value="none">None</option>
+            <option value="category">Category</option>
+          </select>
+          {grouping === "priority" && (
+            <label className="flex items-center ml-2">
+              <input
+                type="checkbox"
+                checked={showCompleted}
+                onChange={(e) => setShowCompleted(e.target.checked)}
+                className="mr-2"
+              />
+              Show completed
+            </label>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6 overflow-x-auto">
+        {lanes.map(lane => {
+          const laneTasks = lane.key
+            ? boardTasks.filter(task => (task.category || EventCategory.HOME) === lane.key)
+            : boardTasks;
+
+          return (
+            <div key={lane.key || "all"}>
+              {lane.key && (
+                <h3 className="text-sm font-semibold text-slate-700 mb-2">
+                  {lane.title}
+                  <span className="ml-2 text-xs font-normal text-slate-400">{laneTasks.length}</span>
+                </h3>
+              )}
+              <div
+                className="grid gap-4 min-w-[640px]"
+                style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` }}
+              >
+                {columns.map(column => {
+                  const targetKey = `${lane.key || "all"}:${column.key}`;
+                  const columnTasks = laneTasks.filter(task => getColumnKey(task, grouping) === column.key);
+
+                  return (
+                    <div
+                      key={column.key}
+                      onDragOver={(e) => {
+                        if (!draggedTaskId) return;
+                        e.preventDefault();
+                        e.dataTransfer.dropEffect = "move";
+                        if (dropTarget !== targetKey) setDropTarget(targetKey);
+                      }}
+                      onDragLeave={() => setDropTarget(prev => prev === targetKey ? null : prev)}
+                      onDrop={(e) => handleDrop(e, column, lane.key)}
+                      className={`flex flex-col rounded-lg bg-slate-50 border-t-4 ${column.accent} ${
+                        dropTarget === targetKey ? "ring-2 ring-indigo-300 bg-indigo-50/60" : ""
+                      }`}
+                    >
+                      <div className="flex items-center justify-between px-3 py-2 text-xs font-medium uppercase text-slate-500">
+                        <span>{column.title}</span>
+                        <span>{columnTasks.length}</span>
+                      </div>
+                      <div className="flex-1 space-y-2 px-3 pb-3 min-h-[80px]">
+                        {columnTasks.length === 0 ? (
+                          <div className="py-6 text-center text-xs text-slate-400">No tasks</div>
+                        ) : (
+                          columnTasks.map(renderCard)
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TaskBoard;
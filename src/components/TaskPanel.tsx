@@ -0,0 +1,341 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { format } from "date-fns";
+import { CheckCircle2, Circle, ListChecks, RotateCcw, Trash2, X } from "lucide-react";
+import { AppDispatch, RootState } from "../store";
+import { deleteEvent, updateEvent } from "../actions/eventActions";
+import { CalendarData, CalendarEvent } from "./CustomCalendar";
+import { TaskPriority } from "../types/eventTypes";
+import {
+  DEFAULT_TASK_FILTERS,
+  TASK_PRIORITY_STYLES,
+  TaskDueFilter,
+  TaskFilters,
+  TaskSortKey,
+  canModifyTask,
+  filterTasks,
+  formatTaskPriority,
+  getTaskDueDate,
+  isOneOffTaskOverdue,
+  sortTasks,
+} from "../lib/tasks";
+
+interface TaskPanelProps {
+  events: CalendarEvent[];
+  calendars: CalendarData[];
+  onTasksChanged: (calendarIds: string[]) => void;
+  setAlertMessage: (message: string | null) => void;
+}
+
+type BulkAction = "complete" | "reopen" | "delete";
+
+const DUE_FILTERS: { value: TaskDueFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "overdue", label: "Overdue" },
+  { value: "today", label: "Today" },
+  { value: "upcoming", label: "Upcoming" },
+];
+
+const selectClassName =
+  "border border-gray-300 rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const TaskPanel: React.FC<TaskPanelProps> = ({
+  events,
+  calendars,
+  onTasksChanged,
+  setAlertMessage,
+}) => {
+  const dispatch: AppDispatch = useDispatch();
+  const authUser = useSelector((state: RootState) => state.auth.user);
+
+  const [filters, setFilters] = useState<TaskFilters>(DEFAULT_TASK_FILTERS);
+  const [sortKey, setSortKey] = useState<TaskSortKey>("due");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pendingAction, setPendingAction] = useState<BulkAction | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const now = new Date();
+  const taskCalendars = calendars.filter(cal => cal.calendarType !== "holiday" && cal.isVisible);
+
+  const allTasks = useMemo(() => events.filter(event => event.type === "task"), [events]);
+
+  const visibleTasks = useMemo(
+    () => sortTasks(filterTasks(allTasks, filters), sortKey),
+    [allTasks, filters, sortKey]
+  );
+
+  // Tasks that were filtered out or removed can't stay selected.
+  useEffect(() => {
+    setSelectedIds(prev => prev.filter(id => visibleTasks.some(task => task.id === id)));
+  }, [visibleTasks]);
+
+  // Recurring tasks are changed from the calendar, where the user picks which occurrences a change applies to.
+  const isEditable = (task: CalendarEvent) =>
+    !task.recurrence && canModifyTask(task, calendars, authUser?.id);
+
+  const updateFilters = (changes: Partial<TaskFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const selectableTasks = visibleTasks.filter(isEditable);
+  const allSelected = selectableTasks.length > 0 && selectableTasks.every(task => selectedIds.includes(task.id));
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : selectableTasks.map(task => task.id));
+  };
+
+  const runAction = async (action: BulkAction, tasks: CalendarEvent[]) => {
+    setPendingAction(action);
+    setConfirmDelete(false);
+
+    let failed = 0;
+    const changedCalendarIds = new Set<string>();
+
+    for (const task of tasks) {
+      try {
+        if (action === "delete") {
+          await dispatch(deleteEvent(parseInt(task.id), { silent: true }));
+        } else {
+          await dispatch(updateEvent(parseInt(task.id), { isCompleted: action === "complete" }, { silent: true }));
+        }
+        changedCalendarIds.add(task.calendarId);
+      } catch (error) {
+        console.error(`Error applying "${action}" to task ${task.id}:`, error);
+        failed++;
+      }
+    }
+
+    setPendingAction(null);
+    setSelectedIds([]);
+
+    if (changedCalendarIds.size > 0) {
+      onTasksChanged(Array.from(changedCalendarIds));
+    }
+
+    const done = tasks.length - failed;
+    const verb = action === "delete" ? "Deleted" : action === "complete" ? "Completed" : "Reopened";
+    setAlertMessage(
+      failed > 0
+        ? `${verb} ${done} of ${tasks.length} tasks; ${failed} failed`
+        : `${verb} ${done} task${done === 1 ? "" : "s"}`
+    );
+  };
+
+  const selectedTasks = visibleTasks.filter(task => selectedIds.includes(task.id));
+  const openCount = allTasks.filter(task => !task.isCompleted).length;
+  const overdueCount = allTasks.filter(task => isOneOffTaskOverdue(task, now)).length;
+
+  return (
+    <div className="rounded-lg shadow-sm border border-slate-200 bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-4 border-b">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center">
+            <ListChecks className="h-5 w-5 mr-2 text-indigo-600" />
+            Tasks
+          </h2>
+          <p className="text-sm text-slate-500">
+            {openCount} open{overdueCount > 0 && <span className="text-red-600"> · {overdueCount} overdue</span>}
+          </p>
+        </div>
+        <div className="flex rounded-md border border-gray-300 overflow-hidden">
+          {DUE_FILTERS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => updateFilters({ due: option.value })}
+              className={`px-3 py-1.5 text-sm ${
+                filters.due === option.value
+                  ? "bg-indigo-600 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-6 py-3 border-b bg-slate-50">
+        <select
+          value={filters.priority}
+          onChange={(e) => updateFilters({ priority: e.target.value as TaskFilters["priority"] })}
+          className={selectClassName}
+        >
+          <option value="all">Any priority</option>
+          <option value={TaskPriority.HIGH}>High</option>
+          <option value={TaskPriority.MEDIUM}>Medium</option>
+          <option value={TaskPriority.LOW}>Low</option>
+        </select>
+        <select
+          value={filters.category}
+          onChange={(e) => updateFilters({ category: e.target.value as TaskFilters["category"] })}
+          className={selectClassName}
+        >
+          <option value="all">Any category</option>
+          <option value="home">Home</option>
+          <option value="work">Work</option>
+        </select>
+        <select
+          value={filters.calendarId}
+          onChange={(e) => updateFilters({ calendarId: e.target.value })}
+          className={selectClassName}
+        >
+          <option value="all">All calendars</option>
+          {taskCalendars.map(cal => (
+            <option key={cal.id} value={cal.id}>{cal.title}</option>
+          ))}
+        </select>
+        <select
+          value={filters.status}
+          onChange={(e) => updateFilters({ status: e.target.value as TaskFilters["status"] })}
+          className={selectClassName}
+        >
+          <option value="open">Open</option>
+          <option value="completed">Completed</option>
+          <option value="all">Open and completed</option>
+        </select>
+        <div className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+          <span>Sort by</span>
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as TaskSortKey)}
+            className={selectClassName}
+          >
+            <option value="due">Due date</option>
+            <option value="priority">Priority</option>
+          </select>
+        </div>
+      </div>
+
+      {selectedTasks.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 px-6 py-2 border-b bg-indigo-50 text-sm">
+          <span className="font-medium text-indigo-800 mr-2">{selectedTasks.length} selected</span>
+          <button
+            onClick={() => runAction("complete", selectedTasks)}
+            disabled={pendingAction !== null}
+            className="flex items-center px-3 py-1 rounded-md bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50"
+          >
+            <CheckCircle2 className="h-4 w-4 mr-1" />
+            Complete
+          </button>
+          <button
+            onClick={() => runAction("reopen", selectedTasks)}
+            disabled={pendingAction !== null}
+            className="flex items-center px-3 py-1 rounded-md bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reopen
+          </button>
+          {confirmDelete ? (
+            <span className="flex items-center gap-2">
+              <span className="text-red-700">Delete {selectedTasks.length} task{selectedTasks.length === 1 ? "" : "s"}?</span>
+              <button
+                onClick={() => runAction("delete", selectedTasks)}
+                disabled={pendingAction !== null}
+                className="px-3 py-1 rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                Delete
+              </button>
+              <button
+                onClick={() => setConfirmDelete(false)}
+                className="px-3 py-1 rounded-md bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </span>
+          ) : (
+            <button
+              onClick={() => setConfirmDelete(true)}
+              disabled={pendingAction !== null}
+              className="flex items-center px-3 py-1 rounded-md bg-white border border-red-300 text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </button>
+          )}
+          <button
+            onClick={() => setSelectedIds([])}
+            className="ml-auto text-gray-500 hover:text-gray-700"
+            title="Clear selection"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {visibleTasks.length === 0 ? (
+        <div className="p-10 text-center text-sm text-slate-500">No tasks match these filters</div>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          <li className="flex items-center px-6 py-2 text-xs font-medium uppercase text-slate-500">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={toggleAll}
+              disabled={selectableTasks.length === 0}
+              className="mr-4"
+            />
+            <span>{visibleTasks.length} task{visibleTasks.length === 1 ? "" : "s"}</span>
+          </li>
+          {visibleTasks.map(task => {
+            const calendar = calendars.find(cal => cal.id === task.calendarId);
+            const overdue = isOneOffTaskOverdue(task, now);
+            const editable = isEditable(task);
+
+            return (
+              <li key={`${task.calendarId}-${task.id}`} className="flex items-center px-6 py-3 hover:bg-slate-50">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(task.id)}
+                  onChange={() => toggleSelected(task.id)}
+                  disabled={!editable}
+                  className="mr-4"
+                  title={task.recurrence ? "Recurring tasks are changed from the calendar" : undefined}
+                />
+                <button
+                  onClick={() => runAction(task.isCompleted ? "reopen" : "complete", [task])}
+                  disabled={!editable || pendingAction !== null}
+                  className="mr-3 text-gray-400 hover:text-emerald-600 disabled:opacity-50"
+                  title={task.isCompleted ? "Mark as not completed" : "Mark as completed"}
+                >
+                  {task.isCompleted
+                    ? <CheckCircle2 className="h-5 w-5 text-emerald-600" />
+                    : <Circle className="h-5 w-5" />}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div className={`text-sm font-medium truncate ${task.isCompleted ? "line-through text-gray-400" : "text-gray-900"}`}>
+                    {task.title}
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-gray-500 mt-0.5">
+                    <span className="flex items-center">
+                      <span
+                        className="w-2 h-2 rounded-full mr-1"
+                        style={{ backgroundColor: calendar?.color || task.color }}
+                      ></span>
+                      {calendar?.title || "Calendar"}
+                    </span>
+                    {task.category && <span className="capitalize">· {task.category}</span>}
+                  </div>
+                </div>
+                <span className={`text-xs mr-4 whitespace-nowrap ${overdue ? "text-red-600 font-medium" : "text-gray-500"}`}>
+                  {overdue && "Overdue · "}
+                  {format(getTaskDueDate(task), "MMM d, h:mm a")}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                  TASK_PRIORITY_STYLES[(task.priority as TaskPriority) || TaskPriority.MEDIUM]
+                }`}>
+                  {formatTaskPriority(task.priority)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TaskPanel;
@@ -0,0 +1,86 @@
+import React from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { ChevronDown, LayoutTemplate, Trash2 } from "lucide-react";
+import { AppDispatch, RootState } from "../store";
+import { deleteTemplate } from "../actions/templateActions";
+import { EventTemplate } from "../types/templateTypes";
+import { formatTemplateDuration } from "../lib/templates";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+
+interface TemplatePickerProps {
+  onSelect: (template: EventTemplate) => void;
+}
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ onSelect }) => {
+  const dispatch: AppDispatch = useDispatch();
+  const authUser = useSelector((state: RootState) => state.auth.user);
+  const templates = useSelector((state: RootState) => state.templates.templates);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md bg-white text-gray-700 hover:bg-gray-50"
+        >
+          <LayoutTemplate size={16} className="mr-1 text-indigo-500" />
+          New from template
+          <ChevronDown size={14} className="ml-1 text-gray-400" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-72 z-[1100]">
+        <DropdownMenuLabel>Templates</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {templates.length === 0 ? (
+          <div className="px-2 py-3 text-xs text-gray-500">
+            No templates yet. Open an event and choose "Save as template".
+          </div>
+        ) : (
+          templates.map((template) => (
+            <DropdownMenuItem
+              key={template.id}
+              onSelect={() => onSelect(template)}
+              className="flex items-center cursor-pointer"
+            >
+              <span
+                className="w-2 h-2 rounded-full mr-2 flex-shrink-0"
+                style={{ backgroundColor: template.color || "#9CA3AF" }}
+              ></span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm truncate">{template.title}</span>
+                <span className="block text-xs text-gray-500 capitalize">
+                  {template.type} · {formatTemplateDuration(template.duration)}
+                  {template.participants.length > 0 && ` · ${template.participants.length} invited`}
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={(e) => {
+                  // Deleting shouldn't also pick the template.
+                  e.preventDefault();
+                  e.stopPropagation();
+                  if (authUser?.id) {
+                    dispatch(deleteTemplate(String(authUser.id), template.id));
+                  }
+                }}
+                className="ml-2 p-1 text-gray-400 hover:text-red-600"
+                title="Delete template"
+              >
+                <Trash2 size={14} />
+              </button>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default TemplatePicker;
@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { addDays, format, isSameDay } from "date-fns";
+import { AlertCircle, ArrowRight, CalendarCheck, Circle, CheckCircle2 } from "lucide-react";
+import { AppDispatch, RootState } from "../store";
+import { updateEvent } from "../actions/eventActions";
+import { CalendarData, CalendarEvent } from "./CustomCalendar";
+import {
+  canModifyTask,
+  getCarryOverDates,
+  getOverdueTasks,
+  getTaskDueDate,
+  sortTasks,
+} from "../lib/tasks";
+
+interface TodayPanelProps {
+  events: CalendarEvent[];
+  calendars: CalendarData[];
+  onTasksChanged: (calendarIds: string[]) => void;
+  setAlertMessage: (message: string | null) => void;
+}
+
+const TodayPanel: React.FC<TodayPanelProps> = ({
+  events,
+  calendars,
+  onTasksChanged,
+  setAlertMessage,
+}) => {
+  const dispatch: AppDispatch = useDispatch();
+  const authUser = useSelector((state: RootState) => state.auth.user);
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+
+  const now = new Date();
+  const overdueTasks = getOverdueTasks(events, now);
+  const todayTasks = sortTasks(
+    events.filter(event =>
+      event.type === "task" &&
+      !overdueTasks.includes(event) &&
+      isSameDay(getTaskDueDate(event), now)
+    ),
+    "due"
+  );
+
+  const applyUpdate = async (
+    task: CalendarEvent,
+    update: () => Promise<unknown>,
+    successMessage: string
+  ) => {
+    setBusyTaskId(task.id);
+    try {
+      await update();
+      onTasksChanged([task.calendarId]);
+      setAlertMessage(successMessage);
+    } catch (error) {
+      console.error(`Error updating task ${task.id}:`, error);
+      setAlertMessage(`Couldn't update "${task.title}"`);
+    } finally {
+      setBusyTaskId(null);
+    }
+  };
+
+  const moveTask = (task: CalendarEvent, dayOffset: number) => {
+    const targetDay = addDays(now, dayOffset);
+    applyUpdate(
+      task,
+      () => dispatch(updateEvent(parseInt(task.id), getCarryOverDates(task, targetDay, now), { silent: true })),
+      `"${task.title}" moved to ${dayOffset === 0 ? "today" : "tomorrow"}`
+    );
+  };
+
+  const toggleTask = (task: CalendarEvent) => {
+    applyUpdate(
+      task,
+      () => dispatch(updateEvent(parseInt(task.id), { isCompleted: !task.isCompleted }, { silent: true })),
+      task.isCompleted ? `"${task.title}" reopened` : `"${task.title}" completed`
+    );
+  };
+
+  const renderTask = (task: CalendarEvent, overdue: boolean) => {
+    const calendar = calendars.find(cal => cal.id === task.calendarId);
+    const editable = canModifyTask(task, calendars, authUser?.id);
+    const isBusy = busyTaskId === task.id;
+
+    return (
+      <li key={`${task.calendarId}-${task.id}`} className="px-4 py-2">
+        <div className="flex items-start">
+          <button
+            onClick={() => toggleTask(task)}
+            disabled={!editable || isBusy}
+            className="mr-2 mt-0.5 text-gray-400 hover:text-emerald-600 disabled:opacity-50"
+            title={task.isCompleted ? "Mark as not completed" : "Mark as completed"}
+          >
+            {task.isCompleted
+              ? <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+              : <Circle className="h-4 w-4" />}
+          </button>
+          <div className="flex-1 min-w-0">
+            <div className={`text-sm truncate ${task.isCompleted ? "line-through text-gray-400" : "text-gray-900"}`}>
+              {task.title}
+            </div>
+            <div className="flex items-center text-xs text-gray-500">
+              <span
+                className="w-2 h-2 rounded-full mr-1 flex-shrink-0"
+                style={{ backgroundColor: calendar?.color || task.color }}
+              ></span>
+              <span className={overdue ? "text-red-600" : ""}>
+                {format(getTaskDueDate(task), overdue ? "MMM d, h:mm a" : "h:mm a")}
+              </span>
+            </div>
+          </div>
+        </div>
+        {overdue && editable && (
+          <div className="flex gap-2 mt-1 ml-6">
+            <button
+              onClick={() => moveTask(task, 0)}
+              disabled={isBusy}
+              className="flex items-center px-2 py-0.5 rounded-md text-xs bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-50"
+            >
+              <ArrowRight className="h-3 w-3 mr-1" />
+              Today
+            </button>
+            <button
+              onClick={() => moveTask(task, 1)}
+              disabled={isBusy}
+              className="flex items-center px-2 py-0.5 rounded-md text-xs bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+            >
+              <ArrowRight className="h-3 w-3 mr-1" />
+              Tomorrow
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="rounded-lg shadow-sm border border-slate-200 bg-white">
+      <div className="px-4 py-3 border-b">
+        <h2 className="text-sm font-semibold text-slate-800 flex items-center">
+          <CalendarCheck className="h-4 w-4 mr-2 text-indigo-600" />
+          Today
+        </h2>
+        <p className="text-xs text-slate-500">{format(now, "EEEE, MMMM d")}</p>
+      </div>
+
+      {overdueTasks.length > 0 && (
+        <div className="border-b">
+          <div className="flex items-center px-4 pt-3 pb-1 text-xs font-medium uppercase text-red-600">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            Overdue · {overdueTasks.length}
+          </div>
+          <ul className="max-h-64 overflow-y-auto">
+            {overdueTasks.map(task => renderTask(task, true))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <div className="px-4 pt-3 pb-1 text-xs font-medium uppercase text-slate-500">
+          Due today · {todayTasks.length}
+        </div>
+        {todayTasks.length === 0 ? (
+          <div className="px-4 pb-4 pt-1 text-xs text-slate-400">Nothing else is due today</div>
+        ) : (
+          <ul className="pb-2">
+            {todayTasks.map(task => renderTask(task, false))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TodayPanel;
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from "react";
+import { RotateCcw, X } from "lucide-react";
+
+interface UndoToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onClose: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({
+  message,
+  actionLabel = "Undo",
+  onAction,
+  onClose,
+}) => {
+  // Parents pass a new onClose on every render, which mustn't restart the timer.
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  });
+
+  useEffect(() => {
+    const timer = setTimeout(() => onCloseRef.current(), 6000);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <div
+      className="fixed bottom-8 left-1/2 -translate-x-1/2 px-4 py-3 bg-slate-800 text-white rounded-md shadow-lg flex items-center space-x-4"
+      style={{ zIndex: 9999 }}
+    >
+      <span className="text-sm font-medium">{message}</span>
+      {onAction && (
+        <button
+          onClick={() => {
+            onAction();
+            onClose();
+          }}
+          className="flex items-center text-sm font-semibold text-indigo-300 hover:text-indigo-200"
+        >
+          <RotateCcw className="h-4 w-4 mr-1" />
+          {actionLabel}
+        </button>
+      )}
+      <button
+        onClick={onClose}
+        className="text-slate-400 hover:text-white transition-all duration-300"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -6,6 +6,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import Select from 'react-select';
 import axios from 'axios';
+import apiClient from '../../services/apiClient';
 import { AppDispatch } from '../../store';
 import { register as registerUser } from '../../actions/authActions';
 import { Button } from '../ui/button';
@@ -73,7 +74,7 @@ const Register = () => {
   useEffect(() => {
     const fetchCountries = async () => {
       try {
-        const response = await axios.get('http://localhost:3000/api/countries');
+        const response = await apiClient.get('/countries');
         const countryOptions = response.data.map((country: any) => ({
           label: country.name,
           value: country.code,
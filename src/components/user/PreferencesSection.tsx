@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from "react";
+import { Settings, Save, BellRing } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { CalendarView, UserPreferences, WeekStartDay } from "../../types/preferenceTypes";
+import { getBrowserTimeZone, getTimeZoneOptions } from "../../lib/timezone";
+import ReminderEditor from "../ReminderEditor";
+
+interface PreferencesSectionProps {
+  preferences: UserPreferences;
+  onSave: (preferences: UserPreferences) => void;
+}
+
+const WEEK_START_OPTIONS: { value: WeekStartDay; label: string }[] = [
+  { value: 0, label: "Sunday" },
+  { value: 1, label: "Monday" },
+  { value: 6, label: "Saturday" },
+];
+
+const VIEW_OPTIONS: { value: CalendarView; label: string }[] = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+  { value: "year", label: "Year" },
+  { value: "agenda", label: "Agenda" },
+];
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+const selectClassName =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500";
+
+const PreferencesSection: React.FC<PreferencesSectionProps> = ({ preferences, onSave }) => {
+  const [formData, setFormData] = useState<UserPreferences>(preferences);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | "unsupported">(
+    typeof Notification === "undefined" ? "unsupported" : Notification.permission
+  );
+
+  useEffect(() => {
+    setFormData(preferences);
+  }, [preferences]);
+
+  const update = (changes: Partial<UserPreferences>) => {
+    setFormData((prev) => ({ ...prev, ...changes }));
+  };
+
+  const isValid = formData.workingHoursEnd > formData.workingHoursStart;
+
+  const requestNotificationPermission = async () => {
+    if (typeof Notification === "undefined") return;
+    setNotificationPermission(await Notification.requestPermission());
+  };
+  const timeZoneOptions = getTimeZoneOptions();
+
+  return (
+    <Card className="bg-white shadow-lg rounded-lg mt-8">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <Settings className="w-5 h-5" />
+          Calendar Preferences
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              First day of the week
+            </label>
+            <select
+              value={formData.weekStartsOn}
+              onChange={(e) => update({ weekStartsOn: Number(e.target.value) as WeekStartDay })}
+              className={selectClassName}
+            >
+              {WEEK_START_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Default view
+            </label>
+            <select
+              value={formData.defaultView}
+              onChange={(e) => update({ defaultView: e.target.value as CalendarView })}
+              className={selectClassName}
+            >
+              {VIEW_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Working hours
+            </label>
+            <div className="flex items-center gap-2">
+              <select
+                value={formData.workingHoursStart}
+                onChange={(e) => update({ workingHoursStart: Number(e.target.value) })}
+                className={selectClassName}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{formatHour(hour)}</option>
+                ))}
+              </select>
+              <span className="text-gray-500">–</span>
+              <select
+                value={formData.workingHoursEnd}
+                onChange={(e) => update({ workingHoursEnd: Number(e.target.value) })}
+                className={selectClassName}
+              >
+                {Array.from({ length: 24 }, (_, i) => i + 1).map((hour) => (
+                  <option key={hour} value={hour}>{formatHour(hour)}</option>
+                ))}
+              </select>
+            </div>
+            {!isValid && (
+              <p className="text-xs text-red-600 mt-1">The working day must end after it starts.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Default event duration
+            </label>
+            <select
+              value={formData.defaultEventDuration}
+              onChange={(e) => update({ defaultEventDuration: Number(e.target.value) })}
+              className={selectClassName}
+            >
+              {DURATION_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? "" : "s"}`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Display time zone
+            </label>
+            <select
+              value={formData.displayTimeZone}
+              onChange={(e) => update({ displayTimeZone: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">Browser default ({getBrowserTimeZone()})</option>
+              {timeZoneOptions.map((zone) => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Secondary time zone
+            </label>
+            <select
+              value={formData.secondaryTimeZone}
+              onChange={(e) => update({ secondaryTimeZone: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">None</option>
+              {timeZoneOptions.map((zone) => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <ReminderEditor
+              label="Default reminders"
+              value={formData.defaultReminderOffsets}
+              onChange={(defaultReminderOffsets) => update({ defaultReminderOffsets })}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Browser notifications
+            </label>
+            {notificationPermission === "granted" && (
+              <p className="text-sm text-gray-600">Reminders are also shown as browser notifications.</p>
+            )}
+            {notificationPermission === "denied" && (
+              <p className="text-sm text-gray-600">
+                Notifications are blocked for this site. Allow them in your browser settings to get reminders outside the tab.
+              </p>
+            )}
+            {notificationPermission === "unsupported" && (
+              <p className="text-sm text-gray-600">This browser doesn't support notifications.</p>
+            )}
+            {notificationPermission === "default" && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={requestNotificationPermission}
+              >
+                <BellRing className="h-4 w-4 mr-2" />
+                Enable notifications
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Button
+          onClick={() => onSave(formData)}
+          disabled={!isValid}
+          className="w-full mt-6 bg-blue-600 text-white hover:bg-blue-700"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          Save Preferences
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PreferencesSection;
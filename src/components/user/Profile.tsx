@@ -7,6 +7,9 @@ import {
   uploadAvatar,
   updateCurrentUser,
 } from "../../actions/userActions";
+import { updatePreferences } from "../../actions/preferencesActions";
+import { UserPreferences } from "../../types/preferenceTypes";
+import PreferencesSection from "./PreferencesSection";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
 import { Card, CardContent } from "../ui/card";
@@ -26,7 +29,8 @@ import {
   EyeOff,
 } from "lucide-react";
 import { format } from "date-fns";
-import axios from "axios";
+import apiClient, { getAvatarUrl } from "../../services/apiClient";
+import authService from "../../services/authService";
 import Select from "react-select";
 import {
   FormField,
@@ -53,6 +57,7 @@ interface ResetFormValues {
 const Profile: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   const authUser = useSelector((state: RootState) => state.auth.user);
+  const preferences = useSelector((state: RootState) => state.preferences.preferences);
 
   // Основные состояния профиля
   const [editMode, setEditMode] = useState(false);
@@ -116,9 +121,7 @@ const Profile: React.FC = () => {
   useEffect(() => {
     const fetchCountries = async () => {
       try {
-        const response = await axios.get(
-          "http://localhost:3000/api/countries"
-        );
+        const response = await apiClient.get("/countries");
         const countryOptions: CountryOption[] = response.data.map(
           (country: any) => ({
             label: country.name,
@@ -154,6 +157,18 @@ const Profile: React.FC = () => {
     }
   };
 
+  const handleSavePreferences = (updated: UserPreferences) => {
+    if (authUser) {
+      try {
+        dispatch(updatePreferences(authUser.id, updated));
+        setAlertMessage("Preferences saved.");
+      } catch (err) {
+        setAlertMessage("Failed to save preferences.");
+        console.error("Error saving preferences:", err);
+      }
+    }
+  };
+
   const handleAvatarChange = async (
     event: React.ChangeEvent<HTMLInputElement>
   ) => {
@@ -176,9 +191,7 @@ const Profile: React.FC = () => {
   const handleEmailReset = async () => {
     if (authUser) {
       try {
-        await axios.post("http://localhost:3000/api/auth/reset-password", {
-          email: authUser.email,
-        });
+        await authService.sendPasswordResetLink(authUser.email);
         setAlertMessage("Password reset link sent to your email.");
         setShowResetModal(false);
       } catch (err) {
@@ -204,7 +217,7 @@ const Profile: React.FC = () => {
               }
             >
               <AvatarImage
-                src={`http://localhost:3000/uploads/avatars/${authUser.profilePictureName}`}
+                src={getAvatarUrl(authUser.profilePictureName)}
                 alt={`${authUser.firstName} ${authUser.lastName}`}
                 className="object-cover"
               />
@@ -357,6 +370,11 @@ const Profile: React.FC = () => {
             Reset Password
           </Button>
         </div>
+
+        <PreferencesSection
+          preferences={preferences}
+          onSave={handleSavePreferences}
+        />
       </div>
 
       {showResetModal && (
@@ -0,0 +1,161 @@
+import { addDays, addHours, addMinutes, differenceInMinutes, startOfDay } from "date-fns";
+import type { CalendarEvent } from "../components/CustomCalendar";
+import { expandRecurringEvents } from "./recurrence";
+import { fromZonedTime, toZonedTime } from "./timezone";
+
+export interface BusyInterval {
+  eventId: number;
+  name: string;
+  start: Date;
+  end: Date;
+}
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface FreeSlotOptions {
+  /** Earliest and latest instants a slot may occupy, usually the working hours. */
+  windowStart: Date;
+  windowEnd: Date;
+  /** Length of each slot in minutes. */
+  duration: number;
+  count: number;
+  /** Minutes between candidate starts. */
+  step?: number;
+  /** Candidates before this instant are skipped, e.g. the current time. */
+  notBefore?: Date;
+}
+
+/** Whether two half-open ranges share any time; touching ends don't overlap. */
+export const intervalsOverlap = (
+  aStart: Date,
+  aEnd: Date,
+  bStart: Date,
+  bEnd: Date
+): boolean => aStart.getTime() < bEnd.getTime() && bStart.getTime() < aEnd.getTime();
+
+/** Calendar items without an end take up half an hour, as in the day and week views. */
+export const getEventRange = (event: { start: string; end?: string }): TimeSlot => {
+  const start = new Date(event.start);
+  return {
+    start,
+    end: event.end ? new Date(event.end) : addMinutes(start, 30),
+  };
+};
+
+export const eventsOverlap = (
+  a: { start: string; end?: string },
+  b: { start: string; end?: string }
+): boolean => {
+  const first = getEventRange(a);
+  const second = getEventRange(b);
+  return intervalsOverlap(first.start, first.end, second.start, second.end);
+};
+
+/**
+ * The time the user's own events take between `rangeStart` and `rangeEnd`,
+ * with recurring events expanded. Tasks, reminders and holidays don't block time.
+ */
+export const getEventsBusyIntervals = (
+  events: CalendarEvent[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  excludeEventId?: string
+): BusyInterval[] =>
+  expandRecurringEvents(
+    events.filter((event) =>
+      event?.start &&
+      !event.deleted &&
+      event.type !== "task" &&
+      event.type !== "reminder" &&
+      event.type !== "holiday" &&
+      event.id !== excludeEventId
+    ),
+    rangeStart,
+    rangeEnd
+  )
+    .map((event) => ({
+      eventId: Number(event.id),
+      name: event.title,
+      ...getEventRange(event),
+    }))
+    .filter((interval) => intervalsOverlap(interval.start, interval.end, rangeStart, rangeEnd))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+export const getConflicts = (busy: BusyInterval[], start: Date, end: Date): BusyInterval[] =>
+  busy.filter((interval) => intervalsOverlap(interval.start, interval.end, start, end));
+
+/**
+ * The first `count` slots of `duration` minutes inside the window where nobody
+ * in `busyLists` is busy. Candidates start on multiples of `step` minutes past
+ * the window start, so suggestions line up with the hour.
+ */
+export const findFreeSlots = (busyLists: BusyInterval[][], options: FreeSlotOptions): TimeSlot[] => {
+  const { windowStart, windowEnd, duration, count, step = 30, notBefore } = options;
+  const busy = busyLists.flat();
+  const result: TimeSlot[] = [];
+
+  if (duration <= 0 || count <= 0) return result;
+
+  for (
+    let start = windowStart;
+    result.length < count && addMinutes(start, duration) <= windowEnd;
+    start = addMinutes(start, step)
+  ) {
+    if (notBefore && start < notBefore) continue;
+
+    const end = addMinutes(start, duration);
+    if (getConflicts(busy, start, end).length === 0) {
+      result.push({ start, end });
+    }
+  }
+
+  return result;
+};
+
+/** The whole day `date` falls on in the zone, as instants. */
+export const getDayRange = (date: Date, timeZone: string): TimeSlot => {
+  const day = startOfDay(toZonedTime(date, timeZone));
+  return {
+    start: fromZonedTime(day, timeZone),
+    end: fromZonedTime(addDays(day, 1), timeZone),
+  };
+};
+
+/** Working hours of the day `date` falls on in the zone, as instants. */
+export const getWorkingHoursRange = (
+  date: Date,
+  timeZone: string,
+  startHour: number,
+  endHour: number
+): TimeSlot => {
+  const day = startOfDay(toZonedTime(date, timeZone));
+  return {
+    start: fromZonedTime(addHours(day, startHour), timeZone),
+    end: fromZonedTime(addHours(day, endHour), timeZone),
+  };
+};
+
+/** Free slots as long as `slot` during the working hours of its day, to offer instead of a clashing time. */
+export const suggestAlternativeSlots = (
+  busy: BusyInterval[],
+  slot: TimeSlot,
+  options: { timeZone: string; workingHoursStart: number; workingHoursEnd: number; count?: number }
+): TimeSlot[] => {
+  const workingHours = getWorkingHoursRange(
+    slot.start,
+    options.timeZone,
+    options.workingHoursStart,
+    options.workingHoursEnd
+  );
+
+  return findFreeSlots([busy], {
+    windowStart: workingHours.start,
+    windowEnd: workingHours.end,
+    duration: differenceInMinutes(slot.end, slot.start),
+    count: options.count ?? 4,
+    notBefore: new Date(),
+  });
+};
@@ -0,0 +1,328 @@
+import { addHours, format, isValid, parse, parseISO } from "date-fns";
+import type { CalendarData, CalendarEvent } from "../components/CustomCalendar";
+import {
+  CreateEventPayload,
+  EventCategory,
+  EventType,
+  TaskPriority,
+} from "../types/eventTypes";
+
+type CsvValue = string | number | boolean | null | undefined;
+
+const CSV_DATE_FORMAT = "yyyy-MM-dd HH:mm";
+
+const DATE_TIME_FORMATS = [
+  "yyyy-MM-dd HH:mm",
+  "yyyy-MM-dd HH:mm:ss",
+  "yyyy-MM-dd'T'HH:mm",
+  "dd.MM.yyyy HH:mm",
+  "MM/dd/yyyy HH:mm",
+  "MM/dd/yyyy h:mm a",
+];
+
+const DATE_ONLY_FORMATS = ["yyyy-MM-dd", "dd.MM.yyyy", "MM/dd/yyyy"];
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain delimiters, line breaks and
+ * doubled quotes. Blank lines are skipped.
+ */
+export const parseCsv = (text: string, delimiter = ","): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Spreadsheets exported with a European locale use ";" as the separator.
+ */
+export const detectCsvDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  return (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ",";
+};
+
+const escapeCsvValue = (value: CsvValue): string => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]): string =>
+  rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+
+export const CSV_EXPORT_HEADERS = [
+  "Name",
+  "Description",
+  "Category",
+  "Type",
+  "Start",
+  "End",
+  "Priority",
+  "Completed",
+  "Calendar",
+];
+
+export const eventsToCsv = (
+  events: CalendarEvent[],
+  calendars: Pick<CalendarData, "id" | "title">[]
+): string => {
+  const calendarTitles = new Map(calendars.map((cal) => [cal.id, cal.title]));
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
+  );
+
+  return toCsv([
+    CSV_EXPORT_HEADERS,
+    ...sorted.map((event) => [
+      event.title,
+      event.description,
+      event.category,
+      event.type,
+      format(new Date(event.start), CSV_DATE_FORMAT),
+      event.end ? format(new Date(event.end), CSV_DATE_FORMAT) : "",
+      event.type === EventType.TASK ? event.priority : "",
+      event.type === EventType.TASK ? (event.isCompleted ? "yes" : "no") : "",
+      calendarTitles.get(event.calendarId) || "",
+    ]),
+  ]);
+};
+
+export const getCsvFileName = (name: string, date: Date = new Date()): string =>
+  `${name.replace(/[^\w-]+/g, "_") || "events"}-${format(date, "yyyyMMdd")}.csv`;
+
+export type CsvField =
+  | "name"
+  | "description"
+  | "category"
+  | "type"
+  | "startedAt"
+  | "endedAt"
+  | "priority"
+  | "isCompleted";
+
+export interface CsvFieldDefinition {
+  field: CsvField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+export const CSV_FIELDS: CsvFieldDefinition[] = [
+  { field: "name", label: "Name", required: true, aliases: ["name", "title", "subject", "summary"] },
+  { field: "description", label: "Description", required: false, aliases: ["description", "notes", "details"] },
+  { field: "category", label: "Category", required: false, aliases: ["category"] },
+  { field: "type", label: "Type", required: false, aliases: ["type", "kind"] },
+  { field: "startedAt", label: "Start", required: true, aliases: ["start", "startedat", "startdate", "begin", "from"] },
+  { field: "endedAt", label: "End", required: false, aliases: ["end", "endedat", "enddate", "finish", "to", "due"] },
+  { field: "priority", label: "Priority", required: false, aliases: ["priority"] },
+  { field: "isCompleted", label: "Completed", required: false, aliases: ["completed", "iscompleted", "done", "status"] },
+];
+
+/** Maps each field to the index of the CSV column it is read from. */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z]/g, "");
+
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CsvColumnMapping = {};
+
+  CSV_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex((header) => aliases.includes(header));
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+};
+
+export type CsvEventPayload = Omit<CreateEventPayload, "calendarId" | "color">;
+
+export interface CsvRowResult {
+  rowNumber: number;
+  payload: CsvEventPayload | null;
+  isCompleted: boolean;
+  errors: string[];
+}
+
+const parseCsvDate = (value: string): { date: Date; dateOnly: boolean } | null => {
+  const referenceDate = new Date();
+
+  for (const dateFormat of DATE_TIME_FORMATS) {
+    const date = parse(value, dateFormat, referenceDate);
+    if (isValid(date)) return { date, dateOnly: false };
+  }
+
+  for (const dateFormat of DATE_ONLY_FORMATS) {
+    const date = parse(value, dateFormat, referenceDate);
+    if (isValid(date)) return { date, dateOnly: true };
+  }
+
+  const iso = parseISO(value);
+  return isValid(iso) ? { date: iso, dateOnly: false } : null;
+};
+
+const parseEnumValue = <T extends string>(
+  value: string,
+  values: T[]
+): T | undefined => values.find((option) => option === value.toLowerCase());
+
+const parseBoolean = (value: string): boolean | undefined => {
+  const normalized = value.toLowerCase();
+  if (["yes", "true", "1", "x", "done", "completed"].includes(normalized)) return true;
+  if (["no", "false", "0", "", "open", "pending"].includes(normalized)) return false;
+  return undefined;
+};
+
+/**
+ * Converts one CSV row into an event payload using the column mapping.
+ * `rowNumber` is the 1-based row in the file and is only used for display.
+ */
+export const validateCsvRow = (
+  row: string[],
+  mapping: CsvColumnMapping,
+  rowNumber: number
+): CsvRowResult => {
+  const errors: string[] = [];
+  const read = (field: CsvField) => {
+    const index = mapping[field];
+    return index === undefined ? "" : (row[index] || "").trim();
+  };
+
+  const name = read("name");
+  if (!name) {
+    errors.push("Name is required");
+  } else if (name.length > 100) {
+    errors.push("Name cannot exceed 100 characters");
+  }
+
+  const typeValue = read("type");
+  const type = typeValue
+    ? parseEnumValue(typeValue, Object.values(EventType))
+    : EventType.ARRANGEMENT;
+  if (!type) {
+    errors.push(`Unknown type "${typeValue}" (expected ${Object.values(EventType).join(", ")})`);
+  }
+
+  const categoryValue = read("category");
+  const category = categoryValue
+    ? parseEnumValue(categoryValue, Object.values(EventCategory))
+    : EventCategory.HOME;
+  if (!category) {
+    errors.push(`Unknown category "${categoryValue}" (expected ${Object.values(EventCategory).join(", ")})`);
+  }
+
+  const priorityValue = read("priority");
+  const priority = priorityValue
+    ? parseEnumValue(priorityValue, Object.values(TaskPriority))
+    : TaskPriority.MEDIUM;
+  if (!priority) {
+    errors.push(`Unknown priority "${priorityValue}" (expected ${Object.values(TaskPriority).join(", ")})`);
+  }
+
+  const completedValue = read("isCompleted");
+  const isCompleted = parseBoolean(completedValue);
+  if (isCompleted === undefined) {
+    errors.push(`Cannot read completion "${completedValue}" (expected yes or no)`);
+  }
+
+  const startValue = read("startedAt");
+  const start = startValue ? parseCsvDate(startValue) : null;
+  if (!startValue) {
+    errors.push("Start is required");
+  } else if (!start) {
+    errors.push(`Invalid start date "${startValue}"`);
+  }
+
+  const endValue = read("endedAt");
+  const end = endValue ? parseCsvDate(endValue) : null;
+  if (endValue && !end) {
+    errors.push(`Invalid end date "${endValue}"`);
+  }
+
+  let startedAt: Date | null = null;
+  let endedAt: Date | null = null;
+
+  if (start) {
+    startedAt = start.date;
+
+    if (end) {
+      endedAt = end.date;
+      // A date-only end means "until the end of that day".
+      if (end.dateOnly) endedAt.setHours(23, 59, 0, 0);
+    } else if (!endValue) {
+      endedAt = start.dateOnly
+        ? new Date(new Date(start.date).setHours(23, 59, 0, 0))
+        : addHours(start.date, 1);
+    }
+
+    if (endedAt && endedAt < startedAt) {
+      errors.push("End must be after start");
+    }
+  }
+
+  if (errors.length > 0 || !startedAt || !endedAt || !type || !category) {
+    return { rowNumber, payload: null, isCompleted: false, errors };
+  }
+
+  const payload: CsvEventPayload = {
+    name,
+    description: read("description"),
+    category,
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    type,
+  };
+
+  if (type === EventType.TASK) {
+    payload.priority = priority;
+  }
+
+  return {
+    rowNumber,
+    payload,
+    isCompleted: type === EventType.TASK && !!isCompleted,
+    errors,
+  };
+};
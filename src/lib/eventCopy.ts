@@ -0,0 +1,58 @@
+import { addDays } from "date-fns";
+import { CreateEventPayload, Event, EventType, RecurrenceRule } from "../types/eventTypes";
+import { WEEKDAY_ORDER } from "./recurrence";
+import { getOtherParticipants } from "./templates";
+
+export interface EventCopyOptions {
+  calendarId: number;
+  color: string;
+  /** Whole days the copy is moved by; 0 keeps the original dates. */
+  dayShift: number;
+  keepParticipants: boolean;
+  currentUserId?: number;
+}
+
+// A moved series keeps its shape: skipped dates, the last date and the weekdays move with it.
+const shiftRecurrence = (rule: RecurrenceRule, dayShift: number): RecurrenceRule => ({
+  ...rule,
+  byWeekday: rule.byWeekday?.map(
+    (weekday) => WEEKDAY_ORDER[(((WEEKDAY_ORDER.indexOf(weekday) + dayShift) % 7) + 7) % 7]
+  ),
+  until: rule.until ? addDays(new Date(rule.until), dayShift).toISOString() : rule.until,
+  exceptions: rule.exceptions?.map((exception) => addDays(new Date(exception), dayShift).toISOString()),
+});
+
+/** A new event with the same details as `event`; a copied task starts open with its steps unchecked. */
+export const buildEventCopyPayload = (event: Event, options: EventCopyOptions): CreateEventPayload => {
+  const payload: CreateEventPayload = {
+    name: event.name,
+    description: event.description || "",
+    category: event.category,
+    startedAt: addDays(new Date(event.startedAt), options.dayShift).toISOString(),
+    endedAt: addDays(new Date(event.endedAt), options.dayShift).toISOString(),
+    color: options.color,
+    type: event.type,
+    calendarId: options.calendarId,
+    recurrence: event.recurrence && options.dayShift !== 0
+      ? shiftRecurrence(event.recurrence, options.dayShift)
+      : event.recurrence ?? null,
+    timeZone: event.timeZone ?? null,
+    reminderOffsets: event.reminderOffsets ?? null,
+  };
+
+  if (event.type === EventType.TASK && event.task) {
+    payload.priority = event.task.priority;
+    if (event.task.checklist?.length) {
+      payload.checklist = event.task.checklist.map((item) => ({ ...item, isDone: false }));
+    }
+  }
+
+  if (event.type === EventType.ARRANGEMENT && options.keepParticipants) {
+    const participantIds = getOtherParticipants(event, options.currentUserId).map((participant) => participant.id);
+    if (participantIds.length > 0) {
+      payload.participantIds = participantIds;
+    }
+  }
+
+  return payload;
+};
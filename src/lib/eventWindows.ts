@@ -0,0 +1,37 @@
+import { addDays, addMonths, startOfMonth } from "date-fns";
+
+export interface DateWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Calendar months covering the given ranges, oldest first. Loading always
+ * happens in whole months, so moving between views and back asks for windows
+ * that are already cached instead of slightly different ranges.
+ */
+export const getMonthWindows = (...ranges: DateWindow[]): DateWindow[] => {
+  const windows = new Map<number, DateWindow>();
+
+  ranges.forEach((range) => {
+    // A day of slack on each side, so events moved across midnight by the display zone still load.
+    const last = addDays(range.end, 1);
+    for (let start = startOfMonth(addDays(range.start, -1)); start < last; start = addMonths(start, 1)) {
+      windows.set(start.getTime(), { start, end: addMonths(start, 1) });
+    }
+  });
+
+  return [...windows.values()].sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/** The month before and the month after `windows`, worth loading ahead of navigation. */
+export const getAdjacentWindows = (windows: DateWindow[]): DateWindow[] => {
+  if (windows.length === 0) return [];
+
+  const first = windows[0].start;
+  const last = windows[windows.length - 1].end;
+  return [
+    { start: addMonths(first, -1), end: first },
+    { start: last, end: addMonths(last, 1) },
+  ];
+};
@@ -0,0 +1,458 @@
+import { format } from "date-fns";
+import type { CalendarEvent } from "../components/CustomCalendar";
+import {
+  Event,
+  EventCategory,
+  EventParticipation,
+  EventType,
+  RecurrenceRule,
+  ResponseStatus,
+  TaskPriority,
+} from "../types/eventTypes";
+import { parseRRuleString, toRRuleString } from "./recurrence";
+import { isValidTimeZone, zonedTimeToUtc } from "./timezone";
+
+export interface ICalAttendee {
+  email: string;
+  name?: string;
+  status?: string;
+}
+
+export interface ICalEvent {
+  uid: string;
+  title: string;
+  start: string;
+  end?: string;
+  description?: string;
+  category?: string;
+  type?: string;
+  priority?: string;
+  isCompleted?: boolean;
+  recurrence?: RecurrenceRule | null;
+  attendees?: ICalAttendee[];
+}
+
+const UID_DOMAIN = "planq";
+
+// RFC 5545 PRIORITY: 1 is the highest, 9 the lowest, 0 undefined.
+export const PRIORITY_TO_ICAL: Record<TaskPriority, number> = {
+  [TaskPriority.HIGH]: 1,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+const PARTSTAT: Record<ResponseStatus, string> = {
+  [ResponseStatus.INVITED]: "NEEDS-ACTION",
+  [ResponseStatus.PENDING]: "NEEDS-ACTION",
+  [ResponseStatus.ACCEPTED]: "ACCEPTED",
+  [ResponseStatus.DECLINED]: "DECLINED",
+};
+
+export const formatICalDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+export const escapeICalText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Splits a content line into 75-octet chunks joined by CRLF + space, as
+ * required by RFC 5545 section 3.1. Multi-byte characters are never split.
+ */
+export const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+};
+
+const participationToAttendee = (
+  participation: Partial<EventParticipation>
+): ICalAttendee | null => {
+  const user = participation.calendarMember?.user;
+  if (!user?.email) return null;
+
+  return {
+    email: user.email,
+    name: [user.firstName, user.lastName].filter(Boolean).join(" ") || undefined,
+    status: participation.responseStatus,
+  };
+};
+
+const participationsToAttendees = (
+  participations?: Partial<EventParticipation>[]
+): ICalAttendee[] =>
+  (participations || [])
+    .map(participationToAttendee)
+    .filter((attendee): attendee is ICalAttendee => attendee !== null);
+
+export const calendarEventToICal = (event: CalendarEvent): ICalEvent => ({
+  uid: `event-${event.id}@${UID_DOMAIN}`,
+  title: event.title,
+  start: event.start,
+  end: event.end,
+  description: event.description,
+  category: event.category,
+  type: event.type,
+  priority: event.priority,
+  isCompleted: event.isCompleted,
+  recurrence: event.recurrence,
+  attendees: participationsToAttendees(event.participations),
+});
+
+export const eventToICal = (event: Event): ICalEvent => ({
+  uid: `event-${event.id}@${UID_DOMAIN}`,
+  title: event.name,
+  start: event.startedAt,
+  end: event.endedAt,
+  description: event.description,
+  category: event.category,
+  type: event.type,
+  priority: event.task?.priority,
+  isCompleted: event.task?.isCompleted,
+  recurrence: event.recurrence,
+  attendees: participationsToAttendees(event.participations),
+});
+
+const buildVEvent = (event: ICalEvent, stamp: string): string[] => {
+  const start = new Date(event.start);
+  const end = event.end ? new Date(event.end) : start;
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatICalDate(start)}`,
+    `DTEND:${formatICalDate(end)}`,
+    `SUMMARY:${escapeICalText(event.title || "")}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  }
+  if (event.category) {
+    lines.push(`CATEGORIES:${escapeICalText(event.category.toUpperCase())}`);
+  }
+  if (event.priority && event.priority in PRIORITY_TO_ICAL) {
+    lines.push(`PRIORITY:${PRIORITY_TO_ICAL[event.priority as TaskPriority]}`);
+  }
+  if (event.type) {
+    lines.push(`X-PLANQ-TYPE:${event.type}`);
+  }
+  if (event.isCompleted) {
+    lines.push("X-PLANQ-COMPLETED:TRUE");
+  }
+  if (event.recurrence) {
+    lines.push(`RRULE:${toRRuleString(event.recurrence)}`);
+    (event.recurrence.exceptions || []).forEach((exception) => {
+      lines.push(`EXDATE:${formatICalDate(new Date(exception))}`);
+    });
+  }
+
+  (event.attendees || []).forEach((attendee) => {
+    const params = [
+      attendee.name ? `CN="${attendee.name.replace(/"/g, "'")}"` : null,
+      `PARTSTAT=${PARTSTAT[attendee.status as ResponseStatus] || "NEEDS-ACTION"}`,
+    ].filter(Boolean);
+    lines.push(`ATTENDEE;${params.join(";")}:mailto:${attendee.email}`);
+  });
+
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+/**
+ * Serializes events into an RFC 5545 VCALENDAR document with CRLF line
+ * endings. `now` is only used for DTSTAMP and can be fixed for stable output.
+ */
+export const buildICalendar = (
+  events: ICalEvent[],
+  options: { name?: string; now?: Date } = {}
+): string => {
+  const stamp = formatICalDate(options.now || new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//PlanQ//PlanQ Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeICalText(options.name)}`);
+  }
+
+  events.forEach((event) => {
+    lines.push(...buildVEvent(event, stamp));
+  });
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+export const getICalFileName = (name: string, date: Date = new Date()): string =>
+  `${name.replace(/[^\w-]+/g, "_") || "calendar"}-${format(date, "yyyyMMdd")}.ics`;
+
+export interface ImportedICalEvent {
+  uid: string;
+  title: string;
+  description: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  type: EventType;
+  category: EventCategory;
+  priority?: TaskPriority;
+  isCompleted?: boolean;
+  recurrence: RecurrenceRule | null;
+  /** The file repeats the event in a way PlanQ can't, so only its first date is imported. */
+  hasUnsupportedRecurrence: boolean;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unfoldLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+
+const parseProperty = (line: string): ICalProperty | null => {
+  // The value starts at the first colon that is not inside a quoted parameter.
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+export const unescapeICalText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+const parseICalDate = (property: ICalProperty): { date: Date; allDay: boolean } | null => {
+  const match = property.value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/
+  );
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds = "0", utc] = match;
+  const time = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hours: Number(hours || 0),
+    minutes: Number(minutes || 0),
+    seconds: Number(seconds),
+  };
+
+  if (hours === undefined || property.params.VALUE === "DATE") {
+    return { date: new Date(time.year, time.month - 1, time.day), allDay: true };
+  }
+  if (utc) {
+    return {
+      date: new Date(Date.UTC(time.year, time.month - 1, time.day, time.hours, time.minutes, time.seconds)),
+      allDay: false,
+    };
+  }
+  if (property.params.TZID && isValidTimeZone(property.params.TZID)) {
+    return { date: zonedTimeToUtc(time, property.params.TZID), allDay: false };
+  }
+
+  // Floating time (or an unknown TZID): interpret in the browser's time zone.
+  return {
+    date: new Date(time.year, time.month - 1, time.day, time.hours, time.minutes, time.seconds),
+    allDay: false,
+  };
+};
+
+const parseDuration = (value: string): number => {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return 0;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks || 0) * 7 * 86400 +
+    Number(days || 0) * 86400 +
+    Number(hours || 0) * 3600 +
+    Number(minutes || 0) * 60 +
+    Number(seconds || 0);
+
+  return (sign === "-" ? -total : total) * 1000;
+};
+
+const priorityFromICal = (value?: string): TaskPriority | undefined => {
+  const priority = Number(value);
+  if (!priority) return undefined;
+  if (priority <= 4) return TaskPriority.HIGH;
+  if (priority === 5) return TaskPriority.MEDIUM;
+  return TaskPriority.LOW;
+};
+
+const categoryFromICal = (value?: string): EventCategory =>
+  value &&
+  value
+    .split(",")
+    .some((category) => unescapeICalText(category).trim().toLowerCase() === EventCategory.WORK)
+    ? EventCategory.WORK
+    : EventCategory.HOME;
+
+const typeFromICal = (component: string, value?: string): EventType => {
+  if (component === "VTODO") return EventType.TASK;
+  if (value && (Object.values(EventType) as string[]).includes(value)) {
+    return value as EventType;
+  }
+  return EventType.ARRANGEMENT;
+};
+
+const buildImportedEvent = (
+  component: string,
+  properties: ICalProperty[],
+  index: number
+): ImportedICalEvent | null => {
+  const get = (name: string) => properties.find((property) => property.name === name);
+
+  const startProperty = get("DTSTART") || (component === "VTODO" ? get("DUE") : undefined);
+  const start = startProperty ? parseICalDate(startProperty) : null;
+  if (!start) return null;
+
+  const endProperty = get("DTEND") || (component === "VTODO" ? get("DUE") : undefined);
+  const parsedEnd = endProperty ? parseICalDate(endProperty) : null;
+  const duration = get("DURATION");
+  let end: Date;
+
+  if (start.allDay) {
+    // DTEND of an all-day event is exclusive; PlanQ stores the last minute of the last day.
+    const lastDay = parsedEnd && parsedEnd.date > start.date
+      ? new Date(parsedEnd.date.getTime() - 86400000)
+      : new Date(start.date);
+    end = new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate(), 23, 59);
+  } else if (parsedEnd && parsedEnd.date >= start.date) {
+    end = parsedEnd.date;
+  } else if (duration) {
+    end = new Date(start.date.getTime() + parseDuration(duration.value));
+  } else {
+    end = new Date(start.date.getTime() + 30 * 60000);
+  }
+
+  const rrule = get("RRULE");
+  const recurrence = rrule ? parseRRuleString(rrule.value) : null;
+  if (recurrence) {
+    recurrence.exceptions = properties
+      .filter((property) => property.name === "EXDATE")
+      .flatMap((property) =>
+        property.value.split(",").map((value) => parseICalDate({ ...property, value }))
+      )
+      .filter((exdate): exdate is { date: Date; allDay: boolean } => exdate !== null)
+      .map((exdate) => exdate.date.toISOString());
+  }
+
+  const type = typeFromICal(component, get("X-PLANQ-TYPE")?.value);
+  const status = get("STATUS")?.value.toUpperCase();
+
+  return {
+    uid: get("UID")?.value || `import-${index}`,
+    title: unescapeICalText(get("SUMMARY")?.value || "Untitled"),
+    description: unescapeICalText(get("DESCRIPTION")?.value || ""),
+    start: start.date.toISOString(),
+    end: end.toISOString(),
+    allDay: start.allDay,
+    type,
+    category: categoryFromICal(get("CATEGORIES")?.value),
+    priority: type === EventType.TASK ? priorityFromICal(get("PRIORITY")?.value) : undefined,
+    isCompleted:
+      type === EventType.TASK
+        ? status === "COMPLETED" || get("X-PLANQ-COMPLETED")?.value.toUpperCase() === "TRUE"
+        : undefined,
+    recurrence,
+    hasUnsupportedRecurrence: !!rrule && !recurrence,
+  };
+};
+
+/**
+ * Reads every VEVENT and VTODO of an iCalendar document. Components without
+ * a usable start date are skipped; nested components (VALARM) are ignored.
+ */
+export const parseICalendar = (text: string): ImportedICalEvent[] => {
+  const result: ImportedICalEvent[] = [];
+  let component: string | null = null;
+  let depth = 0;
+  let properties: ICalProperty[] = [];
+
+  unfoldLines(text).forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === "BEGIN") {
+      const name = property.value.toUpperCase();
+      if (!component && (name === "VEVENT" || name === "VTODO")) {
+        component = name;
+        depth = 0;
+        properties = [];
+      } else if (component) {
+        depth++;
+      }
+      return;
+    }
+
+    if (property.name === "END" && component) {
+      if (depth > 0) {
+        depth--;
+        return;
+      }
+      const event = buildImportedEvent(component, properties, result.length);
+      if (event) result.push(event);
+      component = null;
+      return;
+    }
+
+    if (component && depth === 0) {
+      properties.push(property);
+    }
+  });
+
+  return result;
+};
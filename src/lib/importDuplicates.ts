@@ -0,0 +1,13 @@
+import { format } from "date-fns";
+import { ParticipationWithEvent } from "../types/eventTypes";
+
+/** Imported items count as already there when an event of the same name starts in the same minute. */
+export const getDuplicateKey = (title: string, start: string): string =>
+  `${title.trim().toLowerCase()}|${format(new Date(start), "yyyy-MM-dd'T'HH:mm")}`;
+
+export const getExistingEventKeys = (participations: ParticipationWithEvent[] = []): Set<string> =>
+  new Set(
+    participations
+      .filter((participation) => participation.event)
+      .map((participation) => getDuplicateKey(participation.event!.name, participation.event!.startedAt))
+  );
@@ -0,0 +1,90 @@
+import {
+  CreateEventPayload,
+  Event,
+  EventParticipation,
+  EventType,
+  TaskPriority,
+  UpdateEventPayload,
+} from "../types/eventTypes";
+
+let lastPendingId = 0;
+
+/** Negative ids mark events that are still being created and can't clash with real ones. */
+export const createPendingEventId = (): number => --lastPendingId;
+
+export const isPendingEventId = (id: number): boolean => id < 0;
+
+/** The event as it will look once the server accepts `changes`. */
+export const applyEventChanges = (event: Event, changes: UpdateEventPayload): Event => {
+  const { priority, isCompleted, checklist, color, ...fields } = changes;
+  // Fields left out of the change keep their current value.
+  const definedFields = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+  const updated: Event = { ...event, ...definedFields };
+
+  if (event.task && (priority !== undefined || isCompleted !== undefined || checklist !== undefined)) {
+    updated.task = {
+      ...event.task,
+      ...(priority !== undefined && { priority }),
+      ...(isCompleted !== undefined && { isCompleted }),
+      ...(checklist !== undefined && { checklist }),
+    };
+  }
+
+  // The color belongs to the participations of whoever made the change, which are the ones this client has.
+  if (color !== undefined && event.participations) {
+    updated.participations = event.participations.map((participation) => ({ ...participation, color }));
+  }
+
+  return updated;
+};
+
+export const applyParticipantChanges = (
+  event: Event,
+  calendarMemberId: number,
+  changes: { responseStatus?: string; color?: string }
+): Event => ({
+  ...event,
+  participations: (event.participations || []).map((participation) =>
+    participation.calendarMemberId === calendarMemberId
+      ? { ...participation, ...changes } as EventParticipation
+      : participation
+  ),
+});
+
+/**
+ * A stand-in for an event that is being created, shown until the server returns
+ * the real one. It has no creator yet, so nobody can edit or drag it before it exists.
+ */
+export const buildPendingEvent = (payload: CreateEventPayload, id: number): Event => {
+  const now = new Date().toISOString();
+  // The creator's profile only comes back from the server.
+  const event: Omit<Event, "creator"> = {
+    id,
+    creatorId: 0,
+    name: payload.name,
+    description: payload.description,
+    category: payload.category,
+    startedAt: payload.startedAt,
+    endedAt: payload.endedAt,
+    type: payload.type,
+    createdAt: now,
+    updatedAt: now,
+    recurrence: payload.recurrence,
+    timeZone: payload.timeZone,
+    reminderOffsets: payload.reminderOffsets,
+    participations: [],
+    ...(payload.type === EventType.TASK && {
+      task: {
+        id,
+        eventId: id,
+        priority: payload.priority ?? TaskPriority.MEDIUM,
+        isCompleted: false,
+        checklist: payload.checklist,
+        createdAt: now,
+        updatedAt: now,
+      },
+    }),
+  };
+
+  return event as Event;
+};
@@ -0,0 +1,295 @@
+import { addDays, addMinutes, differenceInCalendarDays, setHours, setMinutes, startOfDay } from "date-fns";
+import { EventCategory, EventType, TaskPriority } from "../types/eventTypes";
+
+export interface QuickAddOptions {
+  /** Wall-clock "now" in the zone the phrase should be read in. */
+  now: Date;
+  defaultDuration: number;
+  /** Hour used when a day is given without a time. */
+  defaultStartHour: number;
+}
+
+export interface QuickAddResult {
+  name: string;
+  /** Wall-clock times in the same zone as `options.now`. */
+  start: Date;
+  end: Date;
+  category: EventCategory;
+  type: EventType;
+  /** Only tasks have a priority; "!high" alone doesn't turn a phrase into one. */
+  priority?: TaskPriority;
+  /** Text after "@", matched against calendar titles by the caller. */
+  calendarQuery?: string;
+  hasDate: boolean;
+  hasTime: boolean;
+}
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const TYPE_TAGS: Record<string, EventType> = {
+  task: EventType.TASK,
+  todo: EventType.TASK,
+  reminder: EventType.REMINDER,
+  event: EventType.ARRANGEMENT,
+  meeting: EventType.ARRANGEMENT,
+  arrangement: EventType.ARRANGEMENT,
+};
+
+const CATEGORY_TAGS: Record<string, EventCategory> = {
+  home: EventCategory.HOME,
+  work: EventCategory.WORK,
+};
+
+const PRIORITY_TAGS: Record<string, TaskPriority> = {
+  high: TaskPriority.HIGH,
+  medium: TaskPriority.MEDIUM,
+  med: TaskPriority.MEDIUM,
+  low: TaskPriority.LOW,
+};
+
+const TIME = "(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?";
+
+const WEEKDAY_PATTERN =
+  "(sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?)";
+
+const MONTH_PATTERN =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+
+/** Minutes after midnight, or null for an impossible time such as 25:00 or 13pm. */
+const toMinutes = (hours: string, minutes: string | undefined, meridiem: string | undefined): number | null => {
+  let hour = parseInt(hours, 10);
+  const minute = minutes ? parseInt(minutes, 10) : 0;
+  if (minute > 59) return null;
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = hour % 12 + (meridiem === "pm" ? 12 : 0);
+  } else if (hour > 23) {
+    return null;
+  }
+
+  return hour * 60 + minute;
+};
+
+/** Wall-clock time on `day`, so "3pm" stays 15:00 on days the clocks change. */
+const atMinutes = (day: Date, minutes: number): Date =>
+  setMinutes(setHours(startOfDay(day), Math.floor(minutes / 60)), minutes % 60);
+
+/** The given date, or null when it doesn't exist (e.g. Feb 31) instead of rolling into the next month. */
+const calendarDay = (year: number, monthIndex: number, date: number): Date | null => {
+  const day = new Date(year, monthIndex, date);
+  return day.getMonth() === monthIndex && day.getDate() === date ? day : null;
+};
+
+/** The next time a year-less date comes around; dates that already passed mean next year. */
+const upcomingDay = (now: Date, monthIndex: number, date: number): Date | null => {
+  const thisYear = calendarDay(now.getFullYear(), monthIndex, date);
+  if (thisYear && differenceInCalendarDays(thisYear, now) >= 0) {
+    return thisYear;
+  }
+  return calendarDay(now.getFullYear() + 1, monthIndex, date);
+};
+
+const toMonthIndex = (month: string): number => MONTHS.indexOf(month.toLowerCase().slice(0, 3));
+
+/**
+ * Reads a phrase such as "Team sync tomorrow 3pm for 45m #work !high" into the
+ * parts of a new event. Whatever isn't recognised as a date, time, duration or
+ * tag becomes the name.
+ */
+export const parseQuickAdd = (text: string, options: QuickAddOptions): QuickAddResult => {
+  const { now, defaultDuration, defaultStartHour } = options;
+  let rest = ` ${text} `;
+
+  // Matches that `accept` turns down stay in the name.
+  const take = (
+    pattern: RegExp,
+    accept: (match: RegExpMatchArray) => boolean = () => true
+  ): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (!match || !accept(match)) {
+      return null;
+    }
+    rest = rest.replace(match[0], " ");
+    return match;
+  };
+
+  let category = EventCategory.HOME;
+  let type: EventType | null = null;
+  let priority: TaskPriority | undefined;
+  let calendarQuery: string | undefined;
+
+  // Unknown tags stay in the name.
+  for (const [tag, word] of rest.matchAll(/\s#(\w+)/g)) {
+    const key = word.toLowerCase();
+    if (CATEGORY_TAGS[key]) {
+      category = CATEGORY_TAGS[key];
+    } else if (TYPE_TAGS[key]) {
+      type = TYPE_TAGS[key];
+    } else {
+      continue;
+    }
+    rest = rest.replace(tag, " ");
+  }
+
+  const priorityMatch = take(/\s!(high|medium|med|low)\b/i);
+  if (priorityMatch) {
+    priority = PRIORITY_TAGS[priorityMatch[1].toLowerCase()];
+  }
+
+  const calendarMatch = take(/\s@(\S+)/);
+  if (calendarMatch) {
+    calendarQuery = calendarMatch[1];
+  }
+
+  let duration: number | null = null;
+  const durationMatch = take(
+    /\sfor\s+(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?)(?:\s*(\d+)\s*(?:m|mins?|minutes?))?(?=\s)/i
+  );
+  if (durationMatch) {
+    const amount = parseFloat(durationMatch[1]);
+    const isHours = durationMatch[2].toLowerCase().startsWith("h");
+    duration = Math.round(isHours ? amount * 60 : amount) + (durationMatch[3] ? parseInt(durationMatch[3], 10) : 0);
+  }
+
+  let startMinutes: number | null = null;
+  let endMinutes: number | null = null;
+
+  const rangeMatch = rest.match(new RegExp(`\\s(?:from\\s+)?${TIME}\\s*(?:-|–|to|until)\\s*${TIME}(?=\\s)`, "i"));
+  if (rangeMatch) {
+    const [, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem] =
+      rangeMatch.map((part) => part?.toLowerCase());
+    // "3-4pm" means both ends are in the afternoon.
+    const rangeStart = toMinutes(startHour, startMinute, startMeridiem || endMeridiem);
+    const rangeEnd = toMinutes(endHour, endMinute, endMeridiem);
+
+    // Plain numbers like "2-3" are more likely part of the name.
+    const looksLikeTime = startMeridiem || endMeridiem || startMinute || endMinute;
+    if (rangeStart !== null && rangeEnd !== null && looksLikeTime) {
+      rest = rest.replace(rangeMatch[0], " ");
+      startMinutes = rangeStart;
+      endMinutes = rangeEnd;
+    }
+  }
+
+  if (startMinutes === null) {
+    const timeMatch =
+      take(/\s(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)(?=\s)/i) ||
+      take(/\s(?:at\s+)?(\d{1,2}):(\d{2})(?=\s)/i) ||
+      take(/\sat\s+(\d{1,2})(?=\s)/i);
+
+    if (timeMatch) {
+      const [, hours, minutes, meridiem] = timeMatch.map((part) => part?.toLowerCase());
+      startMinutes = toMinutes(hours, minutes, meridiem);
+
+      // A bare "at 3" almost always means the afternoon.
+      if (startMinutes !== null && !meridiem && !minutes && startMinutes < 7 * 60) {
+        startMinutes += 12 * 60;
+      }
+    } else if (take(/\s(?:at\s+)?noon(?=\s)/i)) {
+      startMinutes = 12 * 60;
+    } else if (take(/\s(?:at\s+)?midnight(?=\s)/i)) {
+      startMinutes = 0;
+    }
+  }
+
+  let day: Date | null = null;
+  let isTonight = false;
+
+  if (take(/\s(?:on\s+)?today(?=\s)/i)) {
+    day = now;
+  } else if (take(/\stonight(?=\s)/i)) {
+    day = now;
+    isTonight = true;
+  } else if (take(/\s(?:on\s+)?(?:tomorrow|tmrw?)(?=\s)/i)) {
+    day = addDays(now, 1);
+  } else {
+    const inMatch = take(/\sin\s+(\d+)\s+(days?|weeks?)(?=\s)/i);
+    const weekdayMatch = inMatch
+      ? null
+      : take(new RegExp(`\\s(?:(on|next|this)\\s+)?${WEEKDAY_PATTERN}(?=\\s)`, "i"));
+    const isoMatch = inMatch || weekdayMatch
+      ? null
+      : take(
+          /\s(?:on\s+)?(\d{4})-(\d{2})-(\d{2})(?=\s)/,
+          ([, year, month, date]) => calendarDay(parseInt(year, 10), parseInt(month, 10) - 1, parseInt(date, 10)) !== null
+        );
+    const monthFirstMatch = inMatch || weekdayMatch || isoMatch
+      ? null
+      : take(
+          new RegExp(`\\s(?:on\\s+)?${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?=\\s)`, "i"),
+          ([, month, date]) => upcomingDay(now, toMonthIndex(month), parseInt(date, 10)) !== null
+        );
+    const dayFirstMatch = inMatch || weekdayMatch || isoMatch || monthFirstMatch
+      ? null
+      : take(
+          new RegExp(`\\s(?:on\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN}(?=\\s)`, "i"),
+          ([, date, month]) => upcomingDay(now, toMonthIndex(month), parseInt(date, 10)) !== null
+        );
+
+    if (inMatch) {
+      const amount = parseInt(inMatch[1], 10);
+      day = addDays(now, inMatch[2].toLowerCase().startsWith("week") ? amount * 7 : amount);
+    } else if (weekdayMatch) {
+      const target = WEEKDAYS.indexOf(weekdayMatch[2].toLowerCase().slice(0, 3));
+      let offset = (target - now.getDay() + 7) % 7;
+      if (weekdayMatch[1]?.toLowerCase() === "next" && offset === 0) {
+        offset = 7;
+      }
+      day = addDays(now, offset);
+    } else if (isoMatch) {
+      day = calendarDay(parseInt(isoMatch[1], 10), parseInt(isoMatch[2], 10) - 1, parseInt(isoMatch[3], 10));
+    } else if (monthFirstMatch) {
+      day = upcomingDay(now, toMonthIndex(monthFirstMatch[1]), parseInt(monthFirstMatch[2], 10));
+    } else if (dayFirstMatch) {
+      day = upcomingDay(now, toMonthIndex(dayFirstMatch[2]), parseInt(dayFirstMatch[1], 10));
+    }
+  }
+
+  const hasDate = day !== null;
+  const hasTime = startMinutes !== null;
+  const eventDay = day || now;
+
+  let start: Date;
+  if (startMinutes !== null) {
+    start = atMinutes(eventDay, startMinutes);
+  } else if (isTonight) {
+    start = atMinutes(eventDay, 19 * 60);
+  } else if (differenceInCalendarDays(eventDay, now) === 0) {
+    // Without a time, today's events start at the next quarter hour.
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    start = atMinutes(eventDay, Math.ceil((minutes + 1) / 15) * 15);
+  } else {
+    start = atMinutes(eventDay, defaultStartHour * 60);
+  }
+
+  let end: Date;
+  if (endMinutes !== null) {
+    end = atMinutes(eventDay, endMinutes);
+    if (end <= start) {
+      end = addDays(end, 1);
+    }
+  } else {
+    end = addMinutes(start, duration ?? defaultDuration);
+  }
+
+  const name = rest
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(?:at|on|from|for|in)\s+/i, "")
+    .replace(/\s+(?:at|on|from|for|in)$/i, "");
+
+  return {
+    name,
+    start,
+    end,
+    category,
+    type: type ?? EventType.ARRANGEMENT,
+    priority,
+    calendarQuery,
+    hasDate,
+    hasTime,
+  };
+};
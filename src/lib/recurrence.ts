@@ -0,0 +1,434 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  differenceInCalendarYears,
+  format,
+  startOfWeek,
+} from "date-fns";
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  Weekday,
+} from "../types/eventTypes";
+import { fromZonedTime, isValidTimeZone, toZonedTime } from "./timezone";
+
+export interface RecurringItem {
+  start: string;
+  end?: string;
+  recurrence?: RecurrenceRule | null;
+  timeZone?: string | null;
+}
+
+export type Occurrence<T> = T & { occurrenceStart?: string };
+
+// Indexed by Date.getDay(), so WEEKDAY_ORDER[0] is Sunday.
+export const WEEKDAY_ORDER: Weekday[] = [
+  Weekday.SUNDAY,
+  Weekday.MONDAY,
+  Weekday.TUESDAY,
+  Weekday.WEDNESDAY,
+  Weekday.THURSDAY,
+  Weekday.FRIDAY,
+  Weekday.SATURDAY,
+];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  [Weekday.SUNDAY]: "Sun",
+  [Weekday.MONDAY]: "Mon",
+  [Weekday.TUESDAY]: "Tue",
+  [Weekday.WEDNESDAY]: "Wed",
+  [Weekday.THURSDAY]: "Thu",
+  [Weekday.FRIDAY]: "Fri",
+  [Weekday.SATURDAY]: "Sat",
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  [RecurrenceFrequency.DAILY]: "day",
+  [RecurrenceFrequency.WEEKLY]: "week",
+  [RecurrenceFrequency.MONTHLY]: "month",
+  [RecurrenceFrequency.YEARLY]: "year",
+};
+
+const RRULE_FREQUENCIES: Record<RecurrenceFrequency, string> = {
+  [RecurrenceFrequency.DAILY]: "DAILY",
+  [RecurrenceFrequency.WEEKLY]: "WEEKLY",
+  [RecurrenceFrequency.MONTHLY]: "MONTHLY",
+  [RecurrenceFrequency.YEARLY]: "YEARLY",
+};
+
+// Periods walked per expansion, so a rule that never reaches the range can't loop forever.
+const MAX_PERIODS = 10000;
+
+export const createDefaultRecurrence = (
+  frequency: RecurrenceFrequency,
+  startDate: Date
+): RecurrenceRule => ({
+  frequency,
+  interval: 1,
+  byWeekday:
+    frequency === RecurrenceFrequency.WEEKLY
+      ? [WEEKDAY_ORDER[startDate.getDay()]]
+      : undefined,
+  count: null,
+  until: null,
+  exceptions: [],
+});
+
+const addPeriods = (
+  date: Date,
+  frequency: RecurrenceFrequency,
+  amount: number
+): Date => {
+  switch (frequency) {
+    case RecurrenceFrequency.DAILY:
+      return addDays(date, amount);
+    case RecurrenceFrequency.WEEKLY:
+      return addWeeks(date, amount);
+    case RecurrenceFrequency.MONTHLY:
+      return addMonths(date, amount);
+    case RecurrenceFrequency.YEARLY:
+      return addYears(date, amount);
+  }
+};
+
+const getPeriodCandidates = (
+  rule: RecurrenceRule,
+  seriesStart: Date,
+  period: number
+): Date[] => {
+  const interval = Math.max(1, rule.interval || 1);
+
+  if (rule.frequency === RecurrenceFrequency.WEEKLY && rule.byWeekday?.length) {
+    const weekStart = addWeeks(
+      startOfWeek(seriesStart, { weekStartsOn: 1 }),
+      period * interval
+    );
+
+    return rule.byWeekday
+      .map((weekday) => {
+        const offset = (WEEKDAY_ORDER.indexOf(weekday) + 6) % 7;
+        const candidate = addDays(weekStart, offset);
+        candidate.setHours(
+          seriesStart.getHours(),
+          seriesStart.getMinutes(),
+          seriesStart.getSeconds(),
+          0
+        );
+        return candidate;
+      })
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  const candidate = addPeriods(seriesStart, rule.frequency, period * interval);
+
+  // Like RFC 5545, skip months/years that do not contain the start day
+  // (e.g. the 31st or February 29th) instead of clamping.
+  if (
+    (rule.frequency === RecurrenceFrequency.MONTHLY ||
+      rule.frequency === RecurrenceFrequency.YEARLY) &&
+    candidate.getDate() !== seriesStart.getDate()
+  ) {
+    return [];
+  }
+
+  return [candidate];
+};
+
+const getPeriodsBetween = (
+  frequency: RecurrenceFrequency,
+  from: Date,
+  to: Date
+): number => {
+  switch (frequency) {
+    case RecurrenceFrequency.DAILY:
+      return differenceInCalendarDays(to, from);
+    case RecurrenceFrequency.WEEKLY:
+      return differenceInCalendarWeeks(to, from, { weekStartsOn: 1 });
+    case RecurrenceFrequency.MONTHLY:
+      return differenceInCalendarMonths(to, from);
+    case RecurrenceFrequency.YEARLY:
+      return differenceInCalendarYears(to, from);
+  }
+};
+
+// The first period that can reach `date`, less one so time of day and DST shifts can't skip an occurrence.
+const getFirstPeriod = (
+  rule: RecurrenceRule,
+  seriesStart: Date,
+  date: Date
+): number => {
+  if (date <= seriesStart) return 0;
+
+  const interval = Math.max(1, rule.interval || 1);
+  return Math.max(0, Math.floor(getPeriodsBetween(rule.frequency, seriesStart, date) / interval) - 1);
+};
+
+/**
+ * Returns the start of every occurrence of the series that begins before
+ * `rangeEnd`, skipping those that end before `rangeStart`. Exceptions are
+ * removed after COUNT is applied, as in RFC 5545.
+ */
+export const getOccurrenceStarts = (
+  rule: RecurrenceRule,
+  seriesStart: Date,
+  rangeStart: Date,
+  rangeEnd: Date,
+  durationMs = 0
+): Date[] => {
+  const until = rule.until ? new Date(rule.until) : null;
+  const exceptions = new Set(
+    (rule.exceptions || []).map((exception) => new Date(exception).getTime())
+  );
+  const result: Date[] = [];
+  let generated = 0;
+
+  // COUNT needs every earlier occurrence counted, so only open-ended series can start at the range.
+  const firstPeriod = rule.count
+    ? 0
+    : getFirstPeriod(rule, seriesStart, new Date(rangeStart.getTime() - durationMs));
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+    const candidates = getPeriodCandidates(rule, seriesStart, period);
+
+    for (const candidate of candidates) {
+      if (candidate < seriesStart) continue;
+      if (candidate >= rangeEnd) return result;
+      if (until && candidate > until) return result;
+      if (rule.count && generated >= rule.count) return result;
+
+      generated++;
+
+      if (exceptions.has(candidate.getTime())) continue;
+      if (candidate.getTime() + durationMs < rangeStart.getTime()) continue;
+
+      result.push(candidate);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Replaces every recurring item with one copy per occurrence that overlaps
+ * the given range. Non-recurring items are passed through untouched.
+ * Items with a time zone repeat at the same wall-clock time in that zone,
+ * even when it and the browser switch to or from DST on different dates.
+ */
+export const expandRecurringEvents = <T extends RecurringItem>(
+  events: T[],
+  rangeStart: Date,
+  rangeEnd: Date
+): Occurrence<T>[] => {
+  const result: Occurrence<T>[] = [];
+
+  events.forEach((event) => {
+    if (!event || !event.start || !event.recurrence) {
+      result.push(event);
+      return;
+    }
+
+    const seriesStart = new Date(event.start);
+    const durationMs = event.end
+      ? new Date(event.end).getTime() - seriesStart.getTime()
+      : 0;
+    const timeZone =
+      event.timeZone && isValidTimeZone(event.timeZone) ? event.timeZone : null;
+    const toZone = (date: Date) => (timeZone ? toZonedTime(date, timeZone) : date);
+    const rule = timeZone
+      ? {
+          ...event.recurrence,
+          until: event.recurrence.until
+            ? toZone(new Date(event.recurrence.until)).toISOString()
+            : event.recurrence.until,
+          exceptions: event.recurrence.exceptions?.map((exception) =>
+            toZone(new Date(exception)).toISOString()
+          ),
+        }
+      : event.recurrence;
+
+    getOccurrenceStarts(
+      rule,
+      toZone(seriesStart),
+      toZone(rangeStart),
+      toZone(rangeEnd),
+      durationMs
+    ).forEach((zonedStart) => {
+      const occurrenceStart = timeZone ? fromZonedTime(zonedStart, timeZone) : zonedStart;
+      result.push({
+        ...event,
+        start: occurrenceStart.toISOString(),
+        end: event.end
+          ? new Date(occurrenceStart.getTime() + durationMs).toISOString()
+          : undefined,
+        occurrenceStart: occurrenceStart.toISOString(),
+      });
+    });
+  });
+
+  return result;
+};
+
+export const excludeOccurrence = (
+  rule: RecurrenceRule,
+  occurrenceStart: string
+): RecurrenceRule => ({
+  ...rule,
+  exceptions: [...(rule.exceptions || []), occurrenceStart],
+});
+
+/**
+ * Cuts a series in two at `occurrenceStart`: the first rule ends right
+ * before it, the second one carries the remaining occurrences.
+ */
+export const splitRecurrence = (
+  rule: RecurrenceRule,
+  seriesStart: Date,
+  occurrenceStart: Date
+): { before: RecurrenceRule; after: RecurrenceRule } => {
+  const earlier = getOccurrenceStarts(
+    { ...rule, exceptions: [] },
+    seriesStart,
+    seriesStart,
+    occurrenceStart
+  ).length;
+
+  const before: RecurrenceRule = {
+    ...rule,
+    count: null,
+    until: new Date(occurrenceStart.getTime() - 1000).toISOString(),
+    exceptions: (rule.exceptions || []).filter(
+      (exception) => new Date(exception) < occurrenceStart
+    ),
+  };
+
+  const after: RecurrenceRule = {
+    ...rule,
+    count: rule.count ? Math.max(1, rule.count - earlier) : null,
+    exceptions: (rule.exceptions || []).filter(
+      (exception) => new Date(exception) >= occurrenceStart
+    ),
+  };
+
+  return { before, after };
+};
+
+export const formatRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === RecurrenceFrequency.WEEKLY && rule.byWeekday?.length) {
+    const days = WEEKDAY_ORDER.filter((weekday) =>
+      rule.byWeekday?.includes(weekday)
+    ).map((weekday) => WEEKDAY_LABELS[weekday]);
+    text += ` on ${days.join(", ")}`;
+  }
+
+  if (rule.count) {
+    text += `, ${rule.count} time${rule.count === 1 ? "" : "s"}`;
+  } else if (rule.until) {
+    text += `, until ${format(new Date(rule.until), "MMM d, yyyy")}`;
+  }
+
+  return text;
+};
+
+const toRRuleDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const fromRRuleDate = (value: string): Date | null => {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/
+  );
+  if (!match) return null;
+
+  const [, year, month, day, hours = "23", minutes = "59", seconds = "59", utc] =
+    match;
+  const parts = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds),
+  ] as const;
+
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+/**
+ * Serializes the rule to an RFC 5545 RRULE value (without the "RRULE:"
+ * prefix). Exceptions are not part of RRULE and map to EXDATE instead.
+ */
+export const toRRuleString = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${RRULE_FREQUENCIES[rule.frequency]}`];
+
+  if (rule.interval && rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.frequency === RecurrenceFrequency.WEEKLY && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.join(",")}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${toRRuleDate(new Date(rule.until))}`);
+  }
+
+  return parts.join(";");
+};
+
+// RRULE parts a RecurrenceRule can hold; WKST only matters for rules PlanQ can't represent anyway.
+const SUPPORTED_RRULE_PARTS = ["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "WKST"];
+
+/**
+ * Parses an RFC 5545 RRULE value. Returns null for rules outside the subset
+ * PlanQ can represent, such as "second Tuesday of the month" or BYMONTHDAY,
+ * rather than a rule that would repeat on other dates.
+ */
+export const parseRRuleString = (value: string): RecurrenceRule | null => {
+  const fields = new Map<string, string>();
+
+  value
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .forEach((part) => {
+      const [key, fieldValue] = part.split("=");
+      if (key && fieldValue) {
+        fields.set(key.trim().toUpperCase(), fieldValue.trim());
+      }
+    });
+
+  const frequency = (
+    Object.keys(RRULE_FREQUENCIES) as RecurrenceFrequency[]
+  ).find((key) => RRULE_FREQUENCIES[key] === fields.get("FREQ")?.toUpperCase());
+
+  if (!frequency || [...fields.keys()].some((key) => !SUPPORTED_RRULE_PARTS.includes(key))) return null;
+
+  // Only weekly rules repeat on chosen weekdays, and only on every one of them (no "2TU").
+  const byWeekday = fields.get("BYDAY")?.split(",").map((day) => day.trim().toUpperCase());
+  if (
+    byWeekday &&
+    (frequency !== RecurrenceFrequency.WEEKLY ||
+      !byWeekday.every((day): day is Weekday => WEEKDAY_ORDER.includes(day as Weekday)))
+  ) {
+    return null;
+  }
+
+  const until = fields.get("UNTIL") ? fromRRuleDate(fields.get("UNTIL")!) : null;
+  const count = Number(fields.get("COUNT"));
+
+  return {
+    frequency,
+    interval: Math.max(1, Number(fields.get("INTERVAL")) || 1),
+    byWeekday: byWeekday?.length ? byWeekday : undefined,
+    count: count > 0 ? count : null,
+    until: until ? until.toISOString() : null,
+    exceptions: [],
+  };
+};
@@ -0,0 +1,121 @@
+import { addMinutes, endOfDay, startOfDay } from "date-fns";
+import type { CalendarEvent } from "../components/CustomCalendar";
+import { ResponseStatus } from "../types/eventTypes";
+import type { DateWindow } from "./eventWindows";
+import { expandRecurringEvents } from "./recurrence";
+
+export const REMINDER_OFFSET_OPTIONS = [0, 5, 10, 15, 30, 60, 120, 1440, 2880, 10080];
+
+export const SNOOZE_OPTIONS = [5, 10, 15];
+
+const MAX_REMINDER_OFFSET = Math.max(...REMINDER_OFFSET_OPTIONS);
+
+// Reminders that come due while the page is closed are still shown if the event started this recently.
+const LATE_REMINDER_GRACE_MINUTES = 5;
+
+export interface DueReminder {
+  /** Identifies one reminder of one occurrence; used to remember what was already shown. */
+  key: string;
+  event: CalendarEvent;
+  offset: number;
+  start: Date;
+  /** Keys of the earlier reminders of the same occurrence that this one stands in for. */
+  supersededKeys: string[];
+}
+
+export const formatReminderOffset = (minutes: number): string => {
+  if (minutes === 0) return "At start time";
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return days % 7 === 0
+      ? `${days / 7} week${days === 7 ? "" : "s"} before`
+      : `${days} day${days === 1 ? "" : "s"} before`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? "" : "s"} before`;
+  }
+  return `${minutes} minutes before`;
+};
+
+export const sortReminderOffsets = (offsets: number[]): number[] =>
+  Array.from(new Set(offsets)).sort((a, b) => a - b);
+
+const getReminderOffsets = (event: CalendarEvent, defaultOffsets: number[]): number[] =>
+  event.reminderOffsets ?? defaultOffsets;
+
+/** Where the occurrences that reminders checked during `day` can start, so they can be loaded ahead. */
+export const getReminderRange = (day: Date): DateWindow => ({
+  start: addMinutes(startOfDay(day), -LATE_REMINDER_GRACE_MINUTES),
+  end: addMinutes(endOfDay(day), MAX_REMINDER_OFFSET + 1),
+});
+
+const shouldRemind = (event: CalendarEvent): boolean => {
+  if (!event || !event.start || event.deleted) return false;
+  if (event.type === "holiday" || event.isCompleted) return false;
+  return event.participations?.[0]?.responseStatus !== ResponseStatus.DECLINED;
+};
+
+/**
+ * Reminders due at `now` that are not in `shownKeys`. Recurring events are
+ * expanded around `now`, so each occurrence is reminded separately. When
+ * several offsets of an occurrence have passed, e.g. after the page was
+ * closed, only the one closest to the start is returned.
+ */
+export const getDueReminders = (
+  events: CalendarEvent[],
+  defaultOffsets: number[],
+  now: Date,
+  shownKeys: Set<string>
+): DueReminder[] => {
+  const earliestStart = addMinutes(now, -LATE_REMINDER_GRACE_MINUTES);
+  const occurrences = expandRecurringEvents(
+    events.filter(shouldRemind),
+    earliestStart,
+    addMinutes(now, MAX_REMINDER_OFFSET + 1)
+  );
+  const due: DueReminder[] = [];
+
+  occurrences.forEach((event) => {
+    const start = new Date(event.start);
+    if (start < earliestStart) return;
+
+    const getKey = (offset: number) => `${event.id}:${start.toISOString()}:${offset}`;
+    const passed = sortReminderOffsets(getReminderOffsets(event, defaultOffsets))
+      .filter((offset) => addMinutes(start, -offset) <= now);
+    if (passed.length === 0 || shownKeys.has(getKey(passed[0]))) return;
+
+    due.push({
+      key: getKey(passed[0]),
+      event,
+      offset: passed[0],
+      start,
+      supersededKeys: passed.slice(1).map(getKey).filter((key) => !shownKeys.has(key)),
+    });
+  });
+
+  return due.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+const SHOWN_STORAGE_KEY = "reminders:shown";
+
+/**
+ * Keys of reminders that were already shown in this browser, with the time
+ * after which they can be forgotten.
+ */
+export const loadShownReminders = (): Record<string, number> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SHOWN_STORAGE_KEY) || "{}");
+    const now = Date.now();
+    return Object.fromEntries(
+      Object.entries(stored as Record<string, number>).filter(([, expiresAt]) => expiresAt > now)
+    );
+  } catch (error) {
+    console.error("Error reading shown reminders:", error);
+    return {};
+  }
+};
+
+export const saveShownReminders = (shown: Record<string, number>) => {
+  localStorage.setItem(SHOWN_STORAGE_KEY, JSON.stringify(shown));
+};
@@ -0,0 +1,147 @@
+import { addDays, differenceInCalendarDays, endOfDay, isSameDay, startOfDay } from "date-fns";
+import type { CalendarData, CalendarEvent } from "../components/CustomCalendar";
+import { ChecklistItem, TaskPriority } from "../types/eventTypes";
+
+export type TaskDueFilter = "all" | "overdue" | "today" | "upcoming";
+
+export type TaskStatusFilter = "open" | "completed" | "all";
+
+export type TaskSortKey = "due" | "priority";
+
+export interface TaskFilters {
+  priority: TaskPriority | "all";
+  category: "home" | "work" | "all";
+  calendarId: string | "all";
+  due: TaskDueFilter;
+  status: TaskStatusFilter;
+}
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = {
+  priority: "all",
+  category: "all",
+  calendarId: "all",
+  due: "all",
+  status: "open",
+};
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  [TaskPriority.HIGH]: 0,
+  [TaskPriority.MEDIUM]: 1,
+  [TaskPriority.LOW]: 2,
+};
+
+/** A task is due when it ends; tasks without an end are due when they start. */
+export const getTaskDueDate = (task: CalendarEvent): Date => new Date(task.end || task.start);
+
+export const isTaskOverdue = (task: CalendarEvent, now: Date = new Date()): boolean =>
+  task.type === "task" && !task.isCompleted && getTaskDueDate(task) < now;
+
+/**
+ * Overdue for lists of stored tasks rather than expanded occurrences. Recurring
+ * tasks never count: their stored dates are the first occurrence, not the next one.
+ */
+export const isOneOffTaskOverdue = (task: CalendarEvent, now: Date = new Date()): boolean =>
+  !task.recurrence && isTaskOverdue(task, now);
+
+/** Open one-off tasks that are past due, oldest first; moving a recurring one would move the series. */
+export const getOverdueTasks = (events: CalendarEvent[], now: Date = new Date()): CalendarEvent[] =>
+  sortTasks(
+    events.filter((event) => isOneOffTaskOverdue(event, now)),
+    "due"
+  );
+
+/**
+ * New dates for carrying a task over to `targetDay`: the due time of day and the
+ * duration are kept, but a due time that would already be past becomes the end of that day.
+ */
+export const getCarryOverDates = (
+  task: CalendarEvent,
+  targetDay: Date,
+  now: Date = new Date()
+): { startedAt: string; endedAt: string } => {
+  const due = getTaskDueDate(task);
+  const duration = due.getTime() - new Date(task.start).getTime();
+
+  let newDue = addDays(due, differenceInCalendarDays(targetDay, due));
+  if (newDue <= now) {
+    newDue = endOfDay(targetDay);
+  }
+
+  return {
+    startedAt: new Date(newDue.getTime() - duration).toISOString(),
+    endedAt: newDue.toISOString(),
+  };
+};
+
+/** Creators can always change their tasks; others need an owner or editor role in the task's calendar. */
+export const canModifyTask = (
+  task: CalendarEvent,
+  calendars: Pick<CalendarData, "id" | "role">[],
+  userId?: string | number
+): boolean => {
+  if (task.creatorId && String(task.creatorId) === String(userId)) return true;
+
+  const role = calendars.find((cal) => cal.id === task.calendarId)?.role?.toLowerCase();
+  return role === "owner" || role === "editor";
+};
+
+export const matchesDueFilter = (task: CalendarEvent, due: TaskDueFilter, now: Date): boolean => {
+  const dueDate = getTaskDueDate(task);
+
+  switch (due) {
+    case "overdue":
+      return isOneOffTaskOverdue(task, now);
+    case "today":
+      return isSameDay(dueDate, now);
+    case "upcoming":
+      return dueDate >= startOfDay(addDays(now, 1));
+    default:
+      return true;
+  }
+};
+
+export const filterTasks = (
+  tasks: CalendarEvent[],
+  filters: TaskFilters,
+  now: Date = new Date()
+): CalendarEvent[] =>
+  tasks.filter((task) => {
+    if (task.type !== "task") return false;
+    if (filters.priority !== "all" && task.priority !== filters.priority) return false;
+    if (filters.category !== "all" && task.category !== filters.category) return false;
+    if (filters.calendarId !== "all" && task.calendarId !== filters.calendarId) return false;
+    if (filters.status === "open" && task.isCompleted) return false;
+    if (filters.status === "completed" && !task.isCompleted) return false;
+    return matchesDueFilter(task, filters.due, now);
+  });
+
+export const sortTasks = (tasks: CalendarEvent[], sortKey: TaskSortKey): CalendarEvent[] => {
+  const byDue = (a: CalendarEvent, b: CalendarEvent) =>
+    getTaskDueDate(a).getTime() - getTaskDueDate(b).getTime();
+  const rank = (task: CalendarEvent) =>
+    PRIORITY_RANK[(task.priority as TaskPriority) || TaskPriority.MEDIUM];
+
+  return [...tasks].sort((a, b) =>
+    sortKey === "priority" ? rank(a) - rank(b) || byDue(a, b) : byDue(a, b) || rank(a) - rank(b)
+  );
+};
+
+export const TASK_PRIORITY_STYLES: Record<TaskPriority, string> = {
+  [TaskPriority.LOW]: "bg-blue-100 text-blue-800",
+  [TaskPriority.MEDIUM]: "bg-yellow-100 text-yellow-800",
+  [TaskPriority.HIGH]: "bg-red-100 text-red-800",
+};
+
+export const formatTaskPriority = (priority?: string): string =>
+  priority ? priority.charAt(0).toUpperCase() + priority.slice(1) : "None";
+
+/** Done and total checklist items, or null when the task has no checklist. */
+export const getChecklistProgress = (
+  checklist?: ChecklistItem[] | null
+): { done: number; total: number } | null =>
+  checklist && checklist.length > 0
+    ? { done: checklist.filter((item) => item.isDone).length, total: checklist.length }
+    : null;
+
+export const isChecklistComplete = (checklist?: ChecklistItem[] | null): boolean =>
+  !!checklist && checklist.length > 0 && checklist.every((item) => item.isDone);
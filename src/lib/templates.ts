@@ -0,0 +1,37 @@
+import { differenceInMinutes } from "date-fns";
+import { Event } from "../types/eventTypes";
+import { EventTemplate, TemplateParticipant } from "../types/templateTypes";
+
+/** Everyone in the event except the given user, who becomes the creator of anything made from it. */
+export const getOtherParticipants = (event: Event, currentUserId?: number): TemplateParticipant[] =>
+  (event.participations || [])
+    .map((participation) => participation.calendarMember?.user)
+    .filter((user) => user && user.id !== currentUserId)
+    .map((user) => ({ id: user.id, email: user.email }));
+
+export const createTemplateFromEvent = (
+  event: Event,
+  options: { title: string; includeParticipants: boolean; currentUserId?: number }
+): Omit<EventTemplate, "id" | "createdAt"> => ({
+  title: options.title.trim() || event.name,
+  name: event.name,
+  description: event.description || "",
+  duration: Math.max(differenceInMinutes(new Date(event.endedAt), new Date(event.startedAt)), 0),
+  category: event.category,
+  type: event.type,
+  priority: event.task?.priority,
+  color: event.participations?.[0]?.color || "",
+  calendarId: event.participations?.[0]?.calendarMember?.calendarId ?? null,
+  participants: options.includeParticipants ? getOtherParticipants(event, options.currentUserId) : [],
+});
+
+/** The template's end for a form whose start is `startedAt`. */
+export const getTemplateEnd = (template: EventTemplate, startedAt: string): string =>
+  new Date(new Date(startedAt).getTime() + template.duration * 60000).toISOString();
+
+export const formatTemplateDuration = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+};
@@ -0,0 +1,178 @@
+export interface WallClockTime {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Returns the wall-clock time shown in `timeZone` at the given instant.
+ */
+export const getWallClockTime = (date: Date, timeZone: string): WallClockTime => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value || 0);
+
+  return {
+    year: value("year"),
+    month: value("month"),
+    day: value("day"),
+    hours: value("hour"),
+    minutes: value("minute"),
+    seconds: value("second"),
+  };
+};
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in milliseconds
+ * (positive east of Greenwich).
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const wall = getWallClockTime(date, timeZone);
+  const asUtc = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hours,
+    wall.minutes,
+    wall.seconds
+  );
+
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock time in `timeZone` to an instant. The offset is
+ * re-evaluated at the result so times next to a DST switch resolve correctly.
+ */
+export const zonedTimeToUtc = (time: WallClockTime, timeZone: string): Date => {
+  const asUtc = Date.UTC(
+    time.year,
+    time.month - 1,
+    time.day,
+    time.hours,
+    time.minutes,
+    time.seconds
+  );
+  const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+
+  return new Date(asUtc - offset);
+};
+
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/**
+ * Returns a Date whose local fields show the wall-clock time in `timeZone`
+ * at the given instant, so it can be laid out with the regular local-time
+ * date-fns helpers. Use `fromZonedTime` to turn it back into an instant.
+ */
+export const toZonedTime = (date: Date, timeZone: string): Date => {
+  const wall = getWallClockTime(date, timeZone);
+  return new Date(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hours,
+    wall.minutes,
+    wall.seconds,
+    date.getMilliseconds()
+  );
+};
+
+export const fromZonedTime = (date: Date, timeZone: string): Date => {
+  const instant = zonedTimeToUtc(
+    {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hours: date.getHours(),
+      minutes: date.getMinutes(),
+      seconds: date.getSeconds(),
+    },
+    timeZone
+  );
+  return new Date(instant.getTime() + date.getMilliseconds());
+};
+
+/**
+ * Short zone label such as "CET" or "GMT+5:30" at the given instant.
+ */
+export const getTimeZoneLabel = (timeZone: string, date: Date = new Date()): string => {
+  const part = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    timeZoneName: "short",
+  })
+    .formatToParts(date)
+    .find((item) => item.type === "timeZoneName");
+
+  return part?.value || timeZone;
+};
+
+const FALLBACK_TIME_ZONES = [
+  "UTC",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Kyiv",
+  "Europe/Moscow",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "America/Sao_Paulo",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+];
+
+export const getTimeZoneOptions = (): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf("timeZone") : FALLBACK_TIME_ZONES;
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+};
+
+/**
+ * Value for a datetime-local input showing `value` in `timeZone`.
+ */
+export const formatZonedDateInput = (value: string, timeZone: string): string => {
+  if (!value) return "";
+  const wall = getWallClockTime(new Date(value), timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hours)}:${pad(wall.minutes)}`;
+};
+
+/**
+ * Reads a datetime-local input value as a wall-clock time in `timeZone`.
+ */
+export const parseZonedDateInput = (value: string, timeZone: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  return zonedTimeToUtc({ year, month, day, hours, minutes, seconds: 0 }, timeZone);
+};
@@ -4,3 +4,14 @@ import {twMerge} from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
     return twMerge(clsx(inputs))
 }
+
+export function downloadFile(content: string, fileName: string, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], {type: mimeType}))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = fileName
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    URL.revokeObjectURL(url)
+}
@@ -1,8 +1,16 @@
 import { createSlice, PayloadAction } from "@reduxjs/toolkit";
 import { CalendarEvent } from "@/components/CustomCalendar"; // при необходимости обновите путь
+import { Holiday } from "@/types/calendarTypes";
 
 export interface CalendarData {
   id: string;
+  /** Set on memberships, whose own `id` is the membership's. */
+  calendarId?: number;
+  /** The calendar a membership belongs to. */
+  calendar?: { id: number; name: string; color?: string };
+  calendarType?: string;
+  role?: string;
+  isConfirmed?: boolean;
   title: string;
   description: string;
   isVisible: boolean;
@@ -12,12 +20,25 @@ export interface CalendarData {
   createdAt?: string;
 }
 
+type CalendarSettings = Partial<Pick<CalendarData, "color" | "isVisible">>;
+
+interface CalendarSnapshot {
+  /** Settings as the server last confirmed them. */
+  settings: CalendarSettings;
+  /** Changes to the calendar still waiting for the server. */
+  pending: number;
+}
+
 interface CalendarState {
   calendars: CalendarData[];
-  holidays: CalendarEvent[];
+  holidays: Holiday[];
   calendarUsers: any[];
   loading: boolean;
   error: string | null;
+  /** What to go back to while settings changes are waiting for the server, by calendar id. */
+  rollback: Record<string, CalendarSnapshot>;
+  /** Why the last optimistic change was undone; shown as a toast. */
+  rollbackError: string | null;
 }
 
 const initialState: CalendarState = {
@@ -26,6 +47,24 @@ const initialState: CalendarState = {
   calendarUsers: [],
   loading: false,
   error: null,
+  rollback: {},
+  rollbackError: null,
+};
+
+const isCalendar = (cal: CalendarData, calendarId: string) =>
+  String(cal.calendarId ?? cal.id) === calendarId;
+
+// Counts one change as answered and drops the snapshot once none are left.
+const settle = (state: CalendarState, calendarId: string, confirmed: CalendarSettings = {}) => {
+  const snapshot = state.rollback[calendarId];
+  if (!snapshot) return;
+
+  if (snapshot.pending <= 1) {
+    delete state.rollback[calendarId];
+  } else {
+    snapshot.settings = { ...snapshot.settings, ...confirmed };
+    snapshot.pending -= 1;
+  }
 };
 
 const calendarSlice = createSlice({
@@ -51,16 +90,55 @@ const calendarSlice = createSlice({
       state.loading = false;
       state.error = null;
     },
-    toggleCalendarVisibilitySuccess: (
+    calendarSettingsChanged: (
       state,
-      action: PayloadAction<{ calendarId: string; isVisible: boolean }>
+      action: PayloadAction<{ calendarId: string; changes: CalendarSettings }>
     ) => {
-      state.calendars = state.calendars.map((cal) =>
-        cal.id === action.payload.calendarId
-          ? { ...cal, isVisible: action.payload.isVisible }
-          : cal
-      );
+      const { calendarId, changes } = action.payload;
+      const calendar = state.calendars.find((cal) => isCalendar(cal, calendarId));
+      if (!calendar) return;
+
+      // The snapshot is taken before the first of overlapping changes; later ones only add to the count.
+      const snapshot = state.rollback[calendarId];
+      if (snapshot) {
+        snapshot.pending += 1;
+      } else {
+        state.rollback[calendarId] = {
+          settings: { color: calendar.color, isVisible: calendar.isVisible },
+          pending: 1,
+        };
+      }
+      Object.assign(calendar, changes);
+    },
+    calendarSettingsSaved: (
+      state,
+      action: PayloadAction<{ calendarId: string; changes: CalendarSettings }>
+    ) => {
+      const { calendarId, changes } = action.payload;
+      // Once nothing else is on its way, the saved settings are what the server holds.
+      if (state.rollback[calendarId]?.pending === 1) {
+        const calendar = state.calendars.find((cal) => isCalendar(cal, calendarId));
+        if (calendar) Object.assign(calendar, changes);
+      }
+      settle(state, calendarId, changes);
+      state.loading = false;
+    },
+    calendarSettingsRejected: (
+      state,
+      action: PayloadAction<{ calendarId: string; error: string }>
+    ) => {
+      const { calendarId, error } = action.payload;
+      const calendar = state.calendars.find((cal) => isCalendar(cal, calendarId));
+      if (calendar && state.rollback[calendarId]) {
+        Object.assign(calendar, state.rollback[calendarId].settings);
+      }
+      settle(state, calendarId);
       state.loading = false;
+      state.error = error;
+      state.rollbackError = error;
+    },
+    clearCalendarRollbackError: (state) => {
+      state.rollbackError = null;
     },
     updateCalendarSuccess: (state, action: PayloadAction<CalendarData>) => {
       const updatedCalendar = action.payload;
@@ -106,7 +184,7 @@ const calendarSlice = createSlice({
       state.loading = false;
       state.error = null;
     },
-    getHolidaysSuccess: (state, action: PayloadAction<CalendarEvent[]>) => {
+    getHolidaysSuccess: (state, action: PayloadAction<Holiday[]>) => {
       state.holidays = action.payload;
       state.loading = false;
     },
@@ -145,7 +223,10 @@ export const {
   getCalendarsSuccess,
   getCalendarsFailure,
   updateCalendarRequest,
-  toggleCalendarVisibilitySuccess,
+  calendarSettingsChanged,
+  calendarSettingsSaved,
+  calendarSettingsRejected,
+  clearCalendarRollbackError,
   updateCalendarSuccess,
   updateCalendarFailure,
   addCalendarRequest,
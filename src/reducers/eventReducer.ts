@@ -1,17 +1,33 @@
-import { Event } from "../types/eventTypes";
+import { Event, UpdateEventPayload } from "../types/eventTypes";
+import { applyEventChanges, applyParticipantChanges } from "../lib/optimisticEvents";
+
+interface EventSnapshot {
+  /** The event as the server last confirmed it. */
+  event: Event;
+  wasCurrent: boolean;
+  wasListed: boolean;
+  /** Changes to the event still waiting for the server. */
+  pending: number;
+}
 
 interface EventState {
   events: Event[];
   currentEvent: Event | null;
   loading: boolean;
   error: string | null;
+  /** What to go back to while changes to an event are waiting for the server, by event id. */
+  rollback: Record<number, EventSnapshot>;
+  /** Why the last optimistic change was undone; shown as a toast. */
+  rollbackError: string | null;
 }
 
 const initialState: EventState = {
   events: [],
   currentEvent: null,
   loading: false,
-  error: null
+  error: null,
+  rollback: {},
+  rollbackError: null
 };
 
 export enum EventActionTypes {
@@ -30,9 +46,15 @@ export enum EventActionTypes {
   DELETE_EVENT_REQUEST = 'DELETE_EVENT_REQUEST',
   DELETE_EVENT_SUCCESS = 'DELETE_EVENT_SUCCESS',
   DELETE_EVENT_FAILURE = 'DELETE_EVENT_FAILURE',
-  CLEAR_EVENT_ERROR = 'CLEAR_EVENT_ERROR'
+  UPDATE_PARTICIPANT_REQUEST = 'UPDATE_PARTICIPANT_REQUEST',
+  UPDATE_PARTICIPANT_SUCCESS = 'UPDATE_PARTICIPANT_SUCCESS',
+  UPDATE_PARTICIPANT_FAILURE = 'UPDATE_PARTICIPANT_FAILURE',
+  CLEAR_EVENT_ERROR = 'CLEAR_EVENT_ERROR',
+  CLEAR_ROLLBACK_ERROR = 'CLEAR_ROLLBACK_ERROR'
 }
 
+type ParticipantChanges = { responseStatus?: string; color?: string };
+
 interface FetchEventsRequestAction {
   type: EventActionTypes.FETCH_EVENTS_REQUEST;
 }
@@ -61,22 +83,29 @@ interface FetchEventFailureAction {
   payload: string;
 }
 
+// The `meta` of create, update and delete actions lets the reducer apply the change before the server answers.
+// A `silent` failure is reported by the caller, so it's undone without a rollback toast.
+
 interface CreateEventRequestAction {
   type: EventActionTypes.CREATE_EVENT_REQUEST;
+  meta?: { pendingEvent: Event };
 }
 
 interface CreateEventSuccessAction {
   type: EventActionTypes.CREATE_EVENT_SUCCESS;
   payload: Event;
+  meta?: { pendingId: number };
 }
 
 interface CreateEventFailureAction {
   type: EventActionTypes.CREATE_EVENT_FAILURE;
   payload: string;
+  meta?: { pendingId: number; silent?: boolean };
 }
 
 interface UpdateEventRequestAction {
   type: EventActionTypes.UPDATE_EVENT_REQUEST;
+  meta?: { eventId: number; changes: UpdateEventPayload };
 }
 
 interface UpdateEventSuccessAction {
@@ -87,10 +116,12 @@ interface UpdateEventSuccessAction {
 interface UpdateEventFailureAction {
   type: EventActionTypes.UPDATE_EVENT_FAILURE;
   payload: string;
+  meta?: { eventId: number; silent?: boolean };
 }
 
 interface DeleteEventRequestAction {
   type: EventActionTypes.DELETE_EVENT_REQUEST;
+  meta?: { eventId: number };
 }
 
 interface DeleteEventSuccessAction {
@@ -101,12 +132,33 @@ interface DeleteEventSuccessAction {
 interface DeleteEventFailureAction {
   type: EventActionTypes.DELETE_EVENT_FAILURE;
   payload: string;
+  meta?: { eventId: number; silent?: boolean };
+}
+
+interface UpdateParticipantRequestAction {
+  type: EventActionTypes.UPDATE_PARTICIPANT_REQUEST;
+  meta: { eventId: number; calendarMemberId: number; changes: ParticipantChanges };
+}
+
+interface UpdateParticipantSuccessAction {
+  type: EventActionTypes.UPDATE_PARTICIPANT_SUCCESS;
+  meta: { eventId: number; calendarMemberId: number; changes: ParticipantChanges };
+}
+
+interface UpdateParticipantFailureAction {
+  type: EventActionTypes.UPDATE_PARTICIPANT_FAILURE;
+  payload: string;
+  meta: { eventId: number; silent?: boolean };
 }
 
 interface ClearEventErrorAction {
   type: EventActionTypes.CLEAR_EVENT_ERROR;
 }
 
+interface ClearRollbackErrorAction {
+  type: EventActionTypes.CLEAR_ROLLBACK_ERROR;
+}
+
 type EventAction =
   | FetchEventsRequestAction
   | FetchEventsSuccessAction
@@ -123,21 +175,131 @@ type EventAction =
   | DeleteEventRequestAction
   | DeleteEventSuccessAction
   | DeleteEventFailureAction
-  | ClearEventErrorAction;
+  | UpdateParticipantRequestAction
+  | UpdateParticipantSuccessAction
+  | UpdateParticipantFailureAction
+  | ClearEventErrorAction
+  | ClearRollbackErrorAction;
+
+// The snapshot is taken before the first of overlapping changes; later ones only add to the count.
+const remember = (state: EventState, eventId: number): EventState['rollback'] => {
+  const snapshot = state.rollback[eventId];
+  if (snapshot) {
+    return { ...state.rollback, [eventId]: { ...snapshot, pending: snapshot.pending + 1 } };
+  }
+
+  const wasCurrent = state.currentEvent?.id === eventId;
+  const listed = state.events.find(event => event.id === eventId);
+  const event = wasCurrent ? state.currentEvent : listed;
+  if (!event) return state.rollback;
+
+  return { ...state.rollback, [eventId]: { event, wasCurrent, wasListed: !!listed, pending: 1 } };
+};
+
+const forget = (rollback: EventState['rollback'], eventId: number): EventState['rollback'] =>
+  Object.fromEntries(Object.entries(rollback).filter(([id]) => Number(id) !== eventId));
+
+const isStillPending = (state: EventState, eventId: number): boolean =>
+  (state.rollback[eventId]?.pending ?? 0) > 1;
+
+// Counts one change as answered; `confirmed` is what the server now holds when it accepted the change.
+const settle = (
+  rollback: EventState['rollback'],
+  eventId: number,
+  confirmed: (event: Event) => Event = event => event
+): EventState['rollback'] => {
+  const snapshot = rollback[eventId];
+  if (!snapshot) return rollback;
+  if (snapshot.pending <= 1) return forget(rollback, eventId);
+
+  return { ...rollback, [eventId]: { ...snapshot, event: confirmed(snapshot.event), pending: snapshot.pending - 1 } };
+};
+
+const updateEverywhere = (state: EventState, eventId: number, update: (event: Event) => Event): EventState => ({
+  ...state,
+  events: state.events.map(event => event.id === eventId ? update(event) : event),
+  currentEvent: state.currentEvent?.id === eventId ? update(state.currentEvent) : state.currentEvent,
+  rollback: remember(state, eventId)
+});
+
+const restore = (state: EventState, eventId: number, error: string, silent = false): EventState => {
+  const snapshot = state.rollback[eventId];
+  if (!snapshot) return { ...state, loading: false, error };
+
+  const { event, wasCurrent, wasListed } = snapshot;
+  const isListed = state.events.some(item => item.id === eventId);
+
+  return {
+    ...state,
+    events: isListed
+      ? state.events.map(item => item.id === eventId ? event : item)
+      : wasListed ? [...state.events, event] : state.events,
+    currentEvent: state.currentEvent?.id === eventId || (wasCurrent && !state.currentEvent)
+      ? event
+      : state.currentEvent,
+    loading: false,
+    error,
+    rollback: settle(state.rollback, eventId),
+    rollbackError: silent ? state.rollbackError : error
+  };
+};
 
 const eventReducer = (state = initialState, action: EventAction): EventState => {
   switch (action.type) {
     case EventActionTypes.FETCH_EVENTS_REQUEST:
     case EventActionTypes.FETCH_EVENT_REQUEST:
+      return {
+        ...state,
+        loading: true,
+        error: null
+      };
+
     case EventActionTypes.CREATE_EVENT_REQUEST:
+      return {
+        ...state,
+        events: action.meta ? [...state.events, action.meta.pendingEvent] : state.events,
+        loading: true,
+        error: null
+      };
+
     case EventActionTypes.UPDATE_EVENT_REQUEST:
+      if (action.meta) {
+        const { changes } = action.meta;
+        return {
+          ...updateEverywhere(state, action.meta.eventId, event => applyEventChanges(event, changes)),
+          loading: true,
+          error: null
+        };
+      }
+      return {
+        ...state,
+        loading: true,
+        error: null
+      };
+
     case EventActionTypes.DELETE_EVENT_REQUEST:
+      if (action.meta) {
+        const { eventId } = action.meta;
+        return {
+          ...state,
+          events: state.events.filter(event => event.id !== eventId),
+          currentEvent: state.currentEvent?.id === eventId ? null : state.currentEvent,
+          rollback: remember(state, eventId),
+          loading: true,
+          error: null
+        };
+      }
       return {
         ...state,
         loading: true,
         error: null
       };
 
+    case EventActionTypes.UPDATE_PARTICIPANT_REQUEST: {
+      const { eventId, calendarMemberId, changes } = action.meta;
+      return updateEverywhere(state, eventId, event => applyParticipantChanges(event, calendarMemberId, changes));
+    }
+
     case EventActionTypes.FETCH_EVENTS_SUCCESS:
       return {
         ...state,
@@ -152,21 +314,32 @@ const eventReducer = (state = initialState, action: EventAction): EventState =>
         loading: false
       };
 
-    case EventActionTypes.CREATE_EVENT_SUCCESS:
+    case EventActionTypes.CREATE_EVENT_SUCCESS: {
+      const pendingId = action.meta?.pendingId;
       return {
         ...state,
-        events: [...state.events, action.payload],
+        events: [...state.events.filter(event => event.id !== pendingId), action.payload],
         currentEvent: action.payload,
         loading: false
       };
+    }
 
     case EventActionTypes.UPDATE_EVENT_SUCCESS:
+      // A later change still on its way stays on screen; the server's copy is what a failure goes back to.
+      if (isStillPending(state, action.payload.id)) {
+        return {
+          ...state,
+          rollback: settle(state.rollback, action.payload.id, () => action.payload),
+          loading: false
+        };
+      }
       return {
         ...state,
         events: state.events.map(event => 
           event.id === action.payload.id ? action.payload : event
         ),
         currentEvent: action.payload,
+        rollback: forget(state.rollback, action.payload.id),
         loading: false
       };
 
@@ -175,14 +348,40 @@ const eventReducer = (state = initialState, action: EventAction): EventState =>
         ...state,
         events: state.events.filter(event => event.id !== action.payload),
         currentEvent: null,
+        rollback: forget(state.rollback, action.payload),
         loading: false
       };
 
-    case EventActionTypes.FETCH_EVENTS_FAILURE:
-    case EventActionTypes.FETCH_EVENT_FAILURE:
-    case EventActionTypes.CREATE_EVENT_FAILURE:
+    case EventActionTypes.UPDATE_PARTICIPANT_SUCCESS: {
+      const { eventId, calendarMemberId, changes } = action.meta;
+      return {
+        ...state,
+        rollback: settle(state.rollback, eventId, event => applyParticipantChanges(event, calendarMemberId, changes))
+      };
+    }
+
+    case EventActionTypes.CREATE_EVENT_FAILURE: {
+      const pendingId = action.meta?.pendingId;
+      return {
+        ...state,
+        events: state.events.filter(event => event.id !== pendingId),
+        loading: false,
+        error: action.payload,
+        rollbackError: action.meta && !action.meta.silent ? action.payload : state.rollbackError
+      };
+    }
+
     case EventActionTypes.UPDATE_EVENT_FAILURE:
     case EventActionTypes.DELETE_EVENT_FAILURE:
+      return action.meta
+        ? restore(state, action.meta.eventId, action.payload, action.meta.silent)
+        : { ...state, loading: false, error: action.payload };
+
+    case EventActionTypes.UPDATE_PARTICIPANT_FAILURE:
+      return restore(state, action.meta.eventId, action.payload, action.meta.silent);
+
+    case EventActionTypes.FETCH_EVENTS_FAILURE:
+    case EventActionTypes.FETCH_EVENT_FAILURE:
       return {
         ...state,
         loading: false,
@@ -195,6 +394,12 @@ const eventReducer = (state = initialState, action: EventAction): EventState =>
         error: null
       };
 
+    case EventActionTypes.CLEAR_ROLLBACK_ERROR:
+      return {
+        ...state,
+        rollbackError: null
+      };
+
     default:
       return state;
   }
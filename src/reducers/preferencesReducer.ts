@@ -0,0 +1,39 @@
+import {createSlice, PayloadAction} from '@reduxjs/toolkit'
+import preferencesService, {DEFAULT_PREFERENCES} from '../services/preferencesService'
+import {UserPreferences} from '../types/preferenceTypes'
+import {logout, setUser} from './authReducer'
+
+interface PreferencesState {
+    preferences: UserPreferences
+}
+
+const storedUser = JSON.parse(localStorage.getItem('user') || 'null')
+
+const initialState: PreferencesState = {
+    preferences: storedUser ? preferencesService.getPreferences(storedUser.id) : DEFAULT_PREFERENCES,
+}
+
+const preferencesSlice = createSlice({
+    name: 'preferences',
+    initialState,
+    reducers: {
+        setPreferences: (state, action: PayloadAction<UserPreferences>) => {
+            state.preferences = action.payload
+        },
+    },
+    extraReducers: (builder) => {
+        builder
+            .addCase(setUser, (state, action) => {
+                state.preferences = action.payload
+                    ? preferencesService.getPreferences(action.payload.id)
+                    : DEFAULT_PREFERENCES
+            })
+            .addCase(logout, (state) => {
+                state.preferences = DEFAULT_PREFERENCES
+            })
+    },
+})
+
+export const {setPreferences} = preferencesSlice.actions
+
+export default preferencesSlice.reducer
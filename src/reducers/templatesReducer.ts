@@ -0,0 +1,39 @@
+import {createSlice, PayloadAction} from '@reduxjs/toolkit'
+import templateService from '../services/templateService'
+import {EventTemplate} from '../types/templateTypes'
+import {logout, setUser} from './authReducer'
+
+interface TemplatesState {
+    templates: EventTemplate[]
+}
+
+const storedUser = JSON.parse(localStorage.getItem('user') || 'null')
+
+const initialState: TemplatesState = {
+    templates: storedUser ? templateService.getTemplates(storedUser.id) : [],
+}
+
+const templatesSlice = createSlice({
+    name: 'templates',
+    initialState,
+    reducers: {
+        setTemplates: (state, action: PayloadAction<EventTemplate[]>) => {
+            state.templates = action.payload
+        },
+    },
+    extraReducers: (builder) => {
+        builder
+            .addCase(setUser, (state, action) => {
+                state.templates = action.payload
+                    ? templateService.getTemplates(action.payload.id)
+                    : []
+            })
+            .addCase(logout, (state) => {
+                state.templates = []
+            })
+    },
+})
+
+export const {setTemplates} = templatesSlice.actions
+
+export default templatesSlice.reducer
@@ -0,0 +1,22 @@
+import axios from 'axios';
+
+const DEFAULT_API_URL = 'http://localhost:3000/api';
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+/** Base of every API route, set per environment with VITE_API_URL. */
+export const API_URL = trimTrailingSlash(import.meta.env.VITE_API_URL || DEFAULT_API_URL);
+
+/** Uploaded files are served next to the API unless VITE_UPLOADS_URL points elsewhere. */
+export const UPLOADS_URL = trimTrailingSlash(
+    import.meta.env.VITE_UPLOADS_URL || `${API_URL.replace(/\/api$/, '')}/uploads`
+);
+
+export const getAvatarUrl = (fileName: string): string => `${UPLOADS_URL}/avatars/${fileName}`;
+
+/** Shared by every service, so auth and CSRF headers are set up in one place. */
+const apiClient = axios.create({
+    baseURL: API_URL,
+});
+
+export default apiClient;
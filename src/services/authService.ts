@@ -1,8 +1,6 @@
-import axios from 'axios';
+import apiClient, { getAvatarUrl } from './apiClient';
 import userService from './userService';
 
-const API_URL = 'http://localhost:3000/api/auth';
-
 interface RegisterData {
   firstName: string;
   lastName: string;
@@ -36,14 +34,14 @@ interface AuthResponse {
 
 const authService = {
   register: async (userData: RegisterData) => {
-    const response = await axios.post(`${API_URL}/register`, userData, {
+    const response = await apiClient.post(`/auth/register`, userData, {
     });
     return response.data;
   },
 
   login: async (loginData: LoginData) => {
     try {
-      const response = await axios.post<AuthResponse>(`${API_URL}/login`, loginData, {
+      const response = await apiClient.post<AuthResponse>(`/auth/login`, loginData, {
       });
 
       if (response.data.accessToken) {
@@ -51,7 +49,7 @@ const authService = {
 
         const userWithProfileUrl = {
           ...user,
-          profilePictureUrl: `http://localhost:3000/uploads/avatars/${user.profilePictureName}`,
+          profilePictureUrl: getAvatarUrl(user.profilePictureName),
         };
 
         sessionStorage.setItem('accessToken', accessToken);
@@ -76,7 +74,7 @@ const authService = {
       throw new Error('No refresh token found');
     }
     try {
-      await axios.post(`${API_URL}/logout`, { refreshToken });
+      await apiClient.post(`/auth/logout`, { refreshToken });
     } catch (error) {
       console.error('Logout error:', error);
       throw error;
@@ -94,7 +92,7 @@ const authService = {
       throw new Error('No refresh token available');
     }
     try {
-      const response = await axios.post<AuthResponse>(`${API_URL}/access-token/refresh`, { refreshToken });
+      const response = await apiClient.post<AuthResponse>(`/auth/access-token/refresh`, { refreshToken });
       if (response.data.accessToken) {
         sessionStorage.setItem('accessToken', response.data.accessToken);
         userService.setAuthToken(response.data.accessToken);
@@ -107,17 +105,17 @@ const authService = {
   },
 
   verifyEmail: async (token: string) => {
-    const response = await axios.post(`${API_URL}/confirm-email/${token}`);
+    const response = await apiClient.post(`/auth/confirm-email/${token}`);
     return response.data;
   },
 
   sendPasswordResetLink: async (email: string) => {
-    const response = await axios.post(`${API_URL}/reset-password`, { email });
+    const response = await apiClient.post(`/auth/reset-password`, { email });
     return response.data;
   },
 
   resetPassword: async (token: string, newPassword: string) => {
-    const response = await axios.post(`${API_URL}/reset-password/${token}`, { newPassword });
+    const response = await apiClient.post(`/auth/reset-password/${token}`, { newPassword });
     return response.data;
   },
 };
@@ -0,0 +1,97 @@
+import calendarService from "./calendarService";
+import eventService from "./eventService";
+import { Event, EventType, ParticipationWithEvent, ResponseStatus } from "../types/eventTypes";
+import { BusyInterval, intervalsOverlap } from "../lib/availability";
+import { expandRecurringEvents } from "../lib/recurrence";
+
+interface CalendarMembership {
+  id?: number;
+  calendarId?: number;
+  calendarType?: string;
+  isVisible?: boolean;
+  isConfirmed?: boolean;
+}
+
+export interface BusyIntervalOptions {
+  /** The event being rescheduled, so it doesn't clash with itself. */
+  excludeEventId?: number;
+  /** Leave out tasks, which only mark when something is due. */
+  ignoreTasks?: boolean;
+}
+
+/** Reminders mark a moment and finished tasks no longer take up time. */
+const blocksTime = (participation: ParticipationWithEvent, options: BusyIntervalOptions): boolean => {
+  const event = participation.event;
+  return !!event &&
+    event.id !== options.excludeEventId &&
+    participation.responseStatus !== ResponseStatus.DECLINED &&
+    event.type !== EventType.REMINDER &&
+    !(options.ignoreTasks && event.type === EventType.TASK) &&
+    !event.task?.isCompleted;
+};
+
+const availabilityService = {
+  /**
+   * Times the user is taken between `rangeStart` and `rangeEnd`, read from the
+   * events in their visible calendars. Rejects when their calendars can't be
+   * read, so the caller can tell "free" apart from "unknown".
+   */
+  getBusyIntervals: async (
+    userId: number,
+    rangeStart: Date,
+    rangeEnd: Date,
+    options: BusyIntervalOptions = {}
+  ): Promise<BusyInterval[]> => {
+    const memberships: CalendarMembership[] = await calendarService.getUserCalendars(String(userId));
+
+    const calendarIds = memberships
+      .filter((item) =>
+        item.isConfirmed !== false &&
+        item.isVisible !== false &&
+        item.calendarType !== "holiday"
+      )
+      .map((item) => Number(item.calendarId || item.id));
+
+    const participationLists = await Promise.all(
+      calendarIds.map((calendarId) =>
+        eventService.getCalendarEvents(calendarId, userId).catch((error) => {
+          console.error(`Error loading events of calendar ${calendarId}:`, error);
+          return [];
+        })
+      )
+    );
+
+    // The same event shows up once per calendar it was added to.
+    const events = new Map<number, Event>();
+    participationLists.flat().forEach((participation) => {
+      if (blocksTime(participation, options)) {
+        events.set(participation.event!.id, participation.event!);
+      }
+    });
+
+    const occurrences = expandRecurringEvents(
+      [...events.values()].map((event) => ({
+        eventId: event.id,
+        name: event.name,
+        start: event.startedAt,
+        end: event.endedAt,
+        recurrence: event.recurrence,
+        timeZone: event.timeZone,
+      })),
+      rangeStart,
+      rangeEnd
+    );
+
+    return occurrences
+      .map((occurrence) => ({
+        eventId: occurrence.eventId,
+        name: occurrence.name,
+        start: new Date(occurrence.start),
+        end: new Date(occurrence.end),
+      }))
+      .filter((interval) => intervalsOverlap(interval.start, interval.end, rangeStart, rangeEnd))
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  },
+};
+
+export default availabilityService;
@@ -1,15 +1,13 @@
-import axios from "axios";
-
-const API_URL = "http://localhost:3000/api";
+import apiClient from "./apiClient";
 
 const calendarService = {
   getUserCalendars: async (userId: string) => {
-    const response = await axios.get(`${API_URL}/users/${userId}/calendars`);
+    const response = await apiClient.get(`/users/${userId}/calendars`);
     return response.data;
   },
 
   addCalendar: async (calendarData: any) => {
-    const response = await axios.post(`${API_URL}/calendars`, calendarData);
+    const response = await apiClient.post(`/calendars`, calendarData);
     return response.data;
   },
 
@@ -18,38 +16,38 @@ const calendarService = {
     userId: string,
     color: string
   ) => {
-    const response = await axios.patch(
-      `${API_URL}/calendars/${calendarId}/members/${userId}`,
+    const response = await apiClient.patch(
+      `/calendars/${calendarId}/members/${userId}`,
       { color }
     );
     return response.data;
   },
 
   deleteCalendar: async (calendarId: string) => {
-    await axios.delete(`${API_URL}/calendars/${calendarId}`);
+    await apiClient.delete(`/calendars/${calendarId}`);
   },
 
   updateCalendar: async (
     calendarId: string,
     data: { title: string; description: string }
   ) => {
-    const response = await axios.patch(`${API_URL}/calendars/${calendarId}`, data);
+    const response = await apiClient.patch(`/calendars/${calendarId}`, data);
     return response.data;
   },
 
   getHolidays: async () => {
-    const response = await axios.get(`${API_URL}/calendars/holidays`);
+    const response = await apiClient.get(`/calendars/holidays`);
     return response.data;
   },
 
   getCalendarUsers: async (calendarId: string) => {
-    const response = await axios.get(`${API_URL}/calendars/${calendarId}/members`);
+    const response = await apiClient.get(`/calendars/${calendarId}/members`);
     return response.data;
   },
 
   addCalendarUser: async (calendarId: string, payload: any) => {
-    const response = await axios.post(
-      `${API_URL}/calendars/${calendarId}/members`,
+    const response = await apiClient.post(
+      `/calendars/${calendarId}/members`,
       payload
     );
     return response.data;
@@ -59,15 +57,15 @@ const calendarService = {
     userId: string,
     isVisible: boolean
   ) => {
-    const response = await axios.patch(
-      `${API_URL}/calendars/${calendarId}/members/${userId}`,
+    const response = await apiClient.patch(
+      `/calendars/${calendarId}/members/${userId}`,
       { isVisible }
     );
     return response.data;
   },
   leaveCalendar: async (calendarId: string, userId: string) => {
-    const response = await axios.delete(
-      `${API_URL}/calendars/${calendarId}/members/${userId}`
+    const response = await apiClient.delete(
+      `/calendars/${calendarId}/members/${userId}`
     );
     return response.data;
   },
@@ -77,21 +75,21 @@ const calendarService = {
     userId: string,
     role: string
   ) => {
-    const response = await axios.patch(
-      `${API_URL}/calendars/${calendarId}/members/${userId}`,
+    const response = await apiClient.patch(
+      `/calendars/${calendarId}/members/${userId}`,
       { role }
     );
     return response.data;
   },
   
   removeUserFromCalendar: async (calendarId: string, userId: string) => {
-    const url = `${API_URL}/calendars/${calendarId}/members/${userId}`;
-    return axios.delete(url);
+    const url = `/calendars/${calendarId}/members/${userId}`;
+    return apiClient.delete(url);
   },
 
   confirmCalendar: async (token: string) => {
-    const response = await axios.post(
-      `${API_URL}/calendars/0/members/confirm-calendar/${token}`
+    const response = await apiClient.post(
+      `/calendars/0/members/confirm-calendar/${token}`
     );
     return response.data;
   },
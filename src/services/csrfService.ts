@@ -1,6 +1,4 @@
-import axios from 'axios';
-
-const API_URL = 'http://localhost:3000/api/auth';
+import apiClient from './apiClient';
 
 class CsrfService {
     private csrfToken: string | null = null;
@@ -8,7 +6,7 @@ class CsrfService {
     async fetchCsrfToken(): Promise<string | null> {
         try {
 
-            const response = await axios.get(`${API_URL}/csrf-token`, {
+            const response = await apiClient.get('/auth/csrf-token', {
                 withCredentials: true 
             });
 
@@ -27,7 +25,7 @@ class CsrfService {
     }
 
     setupAxiosInterceptors(): void {
-        axios.interceptors.request.use(config => {
+        apiClient.interceptors.request.use(config => {
             if (
                 this.csrfToken &&
                 ['POST', 'PUT', 'PATCH', 'DELETE'].includes(config.method?.toUpperCase() || '')
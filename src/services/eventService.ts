@@ -1,11 +1,9 @@
-import axios from "axios";
-import { CreateEventPayload, Event, UpdateEventPayload } from "../types/eventTypes";
-
-const API_URL = 'http://localhost:3000/api';
+import apiClient from "./apiClient";
+import { CreateEventPayload, Event, ParticipationWithEvent, UpdateEventPayload } from "../types/eventTypes";
 
 const confirmEventParticipation = async (eventId: string, calendarMemberId: string, token: string) => {
-  const response = await axios.post(
-    `${API_URL}/events/${eventId}/calendar-members/${calendarMemberId}/confirm-participation/${token}`
+  const response = await apiClient.post(
+    `/events/${eventId}/calendar-members/${calendarMemberId}/confirm-participation/${token}`
   );
   return response.data;
 };
@@ -52,7 +50,7 @@ export interface SearchEventsResult {
 }
 
 const searchEvents = async (userId: number, params: SearchEventsParams): Promise<SearchEventsResult> => {
-  let url = `${API_URL}/users/${userId}/events?`;
+  let url = `/users/${userId}/events?`;
   
   if (params.startedAt) {
     url += `startedAt=${encodeURIComponent(params.startedAt)}&`;
@@ -75,37 +73,44 @@ const searchEvents = async (userId: number, params: SearchEventsParams): Promise
     url += `limit=${params.limit}`;
   }
   
-  const response = await axios.get(url);
+  const response = await apiClient.get(url);
   return response.data;
 };
 
 const eventService = {
-  getCalendarEvents: async (calendarId: number, userId: number): Promise<Event[]> => {
-    const response = await axios.get(`${API_URL}/calendars/${calendarId}/members/${userId}/events`);
+  // With a range, only the events whose own dates overlap it come back; the server doesn't expand recurring series.
+  getCalendarEvents: async (
+    calendarId: number,
+    userId: number,
+    range?: { startedAt: string; endedAt: string }
+  ): Promise<ParticipationWithEvent[]> => {
+    const response = await apiClient.get(`/calendars/${calendarId}/members/${userId}/events`, {
+      params: range
+    });
     return response.data;
   },
 
   getEvent: async (eventId: number): Promise<Event> => {
-    const response = await axios.get(`${API_URL}/events/${eventId}`);
+    const response = await apiClient.get(`/events/${eventId}`);
     return response.data;
   },
 
   createEvent: async (eventData: CreateEventPayload): Promise<Event> => {
-    const response = await axios.post(`${API_URL}/events/`, eventData);
+    const response = await apiClient.post(`/events/`, eventData);
     return response.data;
   },
 
   updateEvent: async (eventId: number, eventData: UpdateEventPayload): Promise<Event> => {
-    const response = await axios.patch(`${API_URL}/events/${eventId}`, eventData);
+    const response = await apiClient.patch(`/events/${eventId}`, eventData);
     return response.data;
   },
 
   deleteEvent: async (eventId: number): Promise<void> => {
-    await axios.delete(`${API_URL}/events/${eventId}`);
+    await apiClient.delete(`/events/${eventId}`);
   },
 
   addParticipant: async (eventId: number, calendarId: number, userId: number): Promise<any> => {
-    const response = await axios.post(`${API_URL}/events/${eventId}/calendar-members`, {
+    const response = await apiClient.post(`/events/${eventId}/calendar-members`, {
       calendarId,
       userId
     });
@@ -113,16 +118,16 @@ const eventService = {
   },
 
   updateParticipant: async (eventId: number, calendarMemberId: number, data: { responseStatus?: string, color?: string }): Promise<any> => {
-    const response = await axios.patch(`${API_URL}/events/${eventId}/calendar-members/${calendarMemberId}`, data);
+    const response = await apiClient.patch(`/events/${eventId}/calendar-members/${calendarMemberId}`, data);
     return response.data;
   },
 
   removeParticipant: async (eventId: number, calendarMemberId: number): Promise<void> => {
-    await axios.delete(`${API_URL}/events/${eventId}/calendar-members/${calendarMemberId}`);
+    await apiClient.delete(`/events/${eventId}/calendar-members/${calendarMemberId}`);
   },
 
   findUserByEmail: async (email: string): Promise<any> => {
-    const response = await axios.get(`${API_URL}/users?email=${email}`);
+    const response = await apiClient.get(`/users?email=${email}`);
     return response.data;
   },
 
@@ -0,0 +1,122 @@
+import { addMonths } from "date-fns";
+import calendarService from "./calendarService";
+import eventService from "./eventService";
+import { ResponseStatus } from "../types/eventTypes";
+
+export interface CalendarInvitation {
+  calendarId: string;
+  title: string;
+  role: string;
+  invitedAt: string;
+}
+
+export interface EventInvitation {
+  eventId: number;
+  calendarId: number;
+  calendarMemberId: number;
+  name: string;
+  startedAt: string;
+  endedAt: string;
+  responseStatus: ResponseStatus;
+  invitedAt: string;
+}
+
+export interface PendingInvitations {
+  calendars: CalendarInvitation[];
+  events: EventInvitation[];
+}
+
+interface CalendarMembership {
+  id?: number;
+  calendarId?: number;
+  calendarType?: string;
+  role: string;
+  isConfirmed?: boolean;
+  createdAt: string;
+  calendar?: { name?: string };
+}
+
+const PENDING_STATUSES: string[] = [ResponseStatus.INVITED, ResponseStatus.PENDING];
+
+// Polling only reads what's coming up; invitations further out show once they get closer.
+const INVITATION_HORIZON_MONTHS = 6;
+
+const getPendingEventInvitations = async (
+  calendarId: number,
+  userId: number
+): Promise<EventInvitation[]> => {
+  const now = Date.now();
+  const participations = await eventService.getCalendarEvents(calendarId, userId, {
+    startedAt: new Date(now).toISOString(),
+    endedAt: addMonths(now, INVITATION_HORIZON_MONTHS).toISOString(),
+  });
+
+  return participations
+    .filter(
+      (participation) =>
+        participation.event &&
+        PENDING_STATUSES.includes(participation.responseStatus) &&
+        participation.event.creatorId !== userId &&
+        new Date(participation.event.endedAt).getTime() >= now
+    )
+    .map((participation) => ({
+      eventId: participation.eventId,
+      calendarId,
+      calendarMemberId: participation.calendarMemberId,
+      name: participation.event!.name,
+      startedAt: participation.event!.startedAt,
+      endedAt: participation.event!.endedAt,
+      responseStatus: participation.responseStatus,
+      invitedAt: participation.createdAt,
+    }));
+};
+
+const notificationService = {
+  /**
+   * Calendar shares the user hasn't confirmed yet and upcoming events they
+   * haven't answered, newest first.
+   */
+  getPendingInvitations: async (userId: number): Promise<PendingInvitations> => {
+    const memberships: CalendarMembership[] = await calendarService.getUserCalendars(String(userId));
+
+    const calendars: CalendarInvitation[] = memberships
+      .filter((item) => item.isConfirmed === false)
+      .map((item) => ({
+        calendarId: String(item.calendarId || item.id),
+        title: item.calendar?.name || "Untitled",
+        role: item.role,
+        invitedAt: item.createdAt,
+      }));
+
+    const confirmedCalendarIds: number[] = memberships
+      .filter((item) => item.isConfirmed !== false && item.calendarType !== "holiday")
+      .map((item) => Number(item.calendarId || item.id));
+
+    // One failing calendar shouldn't hide the invitations from the others.
+    const eventLists = await Promise.all(
+      confirmedCalendarIds.map((calendarId) =>
+        getPendingEventInvitations(calendarId, userId).catch((error) => {
+          console.error(`Error loading invitations for calendar ${calendarId}:`, error);
+          return [];
+        })
+      )
+    );
+
+    const seenEventIds = new Set<number>();
+    const events = eventLists.flat().filter((invitation) => {
+      if (seenEventIds.has(invitation.eventId)) return false;
+      seenEventIds.add(invitation.eventId);
+      return true;
+    });
+
+    const byNewest = (a: { invitedAt: string }, b: { invitedAt: string }) =>
+      new Date(b.invitedAt).getTime() - new Date(a.invitedAt).getTime();
+
+    return {
+      calendars: calendars.sort(byNewest),
+      events: events.sort(byNewest),
+    };
+  },
+};
+
+export default notificationService;
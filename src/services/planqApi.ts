@@ -0,0 +1,333 @@
+import type { ThunkDispatch, UnknownAction } from "@reduxjs/toolkit";
+import { createApi, fakeBaseQuery } from "@reduxjs/toolkit/query/react";
+import axios from "axios";
+import calendarService from "./calendarService";
+import eventService from "./eventService";
+import type { CalendarData } from "../reducers/calendarReducer";
+import { Holiday } from "../types/calendarTypes";
+import { DateWindow } from "../lib/eventWindows";
+import {
+  applyEventChanges,
+  applyParticipantChanges,
+  buildPendingEvent,
+  createPendingEventId,
+} from "../lib/optimisticEvents";
+import {
+  CreateEventPayload,
+  Event,
+  EventType,
+  ParticipationWithEvent,
+  UpdateEventPayload,
+} from "../types/eventTypes";
+
+/** Serializable form of a failed request, shaped like fetchBaseQuery's errors. */
+export interface ApiError {
+  status?: number;
+  /** Response body, which carries the server's `message`. */
+  data?: unknown;
+}
+
+const toApiError = (error: unknown): ApiError =>
+  axios.isAxiosError(error)
+    ? { status: error.response?.status, data: error.response?.data }
+    : { data: { message: error instanceof Error ? error.message : String(error) } };
+
+/** The server's message from a failed service call or API slice request. */
+export const getApiErrorMessage = (error: unknown): string | undefined => {
+  const data = axios.isAxiosError(error)
+    ? error.response?.data
+    : (error as ApiError | null)?.data;
+  const message = (data as { message?: unknown } | undefined)?.message;
+  return typeof message === "string" ? message : undefined;
+};
+
+// Requests go through the existing services so they share the API client and its interceptors.
+const fromService = async <T>(request: () => Promise<T>): Promise<{ data: T } | { error: ApiError }> => {
+  try {
+    return { data: await request() };
+  } catch (error) {
+    return { error: toApiError(error) };
+  }
+};
+
+// What the services hand back where they don't type their responses.
+type ServiceResult<T extends (...args: never[]) => Promise<unknown>> = Awaited<ReturnType<T>>;
+
+export interface CalendarEventsArgs {
+  calendarId: number;
+  userId: number;
+  /** ISO bounds of the window to load; without them the whole calendar is loaded. */
+  startedAt?: string;
+  endedAt?: string;
+  /**
+   * Only the events that matter outside the window they start in. The server
+   * can't filter on them, so the whole calendar is read but only these are kept.
+   */
+  standing?: boolean;
+}
+
+// Recurring series repeat into windows long after their first occurrence, and open tasks stay due until they're done.
+const isStandingEvent = (event: Event): boolean =>
+  !!event.recurrence || (event.type === EventType.TASK && !event.task?.isCompleted);
+
+type PlanqApiState = Record<typeof planqApi.reducerPath, ReturnType<typeof planqApi.reducer>>;
+
+export const planqApi = createApi({
+  reducerPath: "planqApi",
+  baseQuery: fakeBaseQuery<ApiError>(),
+  tagTypes: ["Calendar", "CalendarEvents", "CalendarUsers", "Event", "Holiday"],
+  endpoints: (builder) => ({
+    getUserCalendars: builder.query<CalendarData[], string>({
+      queryFn: (userId) => fromService(() => calendarService.getUserCalendars(userId)),
+      providesTags: [{ type: "Calendar", id: "LIST" }],
+    }),
+
+    getHolidays: builder.query<Holiday[], void>({
+      queryFn: () => fromService(() => calendarService.getHolidays()),
+      providesTags: ["Holiday"],
+    }),
+
+    getCalendarUsers: builder.query<ServiceResult<typeof calendarService.getCalendarUsers>, string>({
+      queryFn: (calendarId) => fromService(() => calendarService.getCalendarUsers(calendarId)),
+      providesTags: (_result, _error, calendarId) => [{ type: "CalendarUsers", id: calendarId }],
+    }),
+
+    getCalendarEvents: builder.query<ParticipationWithEvent[], CalendarEventsArgs>({
+      queryFn: ({ calendarId, userId, startedAt, endedAt, standing }) =>
+        fromService(async () => {
+          const participations = await eventService.getCalendarEvents(
+            calendarId,
+            userId,
+            startedAt && endedAt ? { startedAt, endedAt } : undefined
+          );
+          return standing
+            ? participations.filter((participation) => participation.event && isStandingEvent(participation.event))
+            : participations;
+        }),
+      // Windows the user navigated away from stay around for a while, so going back is instant.
+      keepUnusedDataFor: 300,
+      // Tagged per event too, so changing one event refetches every calendar it appears in.
+      providesTags: (result, _error, { calendarId }) => [
+        { type: "CalendarEvents", id: calendarId },
+        { type: "CalendarEvents", id: "LIST" },
+        ...(result || [])
+          .filter((participation) => participation.event)
+          .map((participation) => ({ type: "Event" as const, id: participation.event!.id })),
+      ],
+    }),
+
+    getEvent: builder.query<Event, number>({
+      queryFn: (eventId) => fromService(() => eventService.getEvent(eventId)),
+      providesTags: (_result, _error, eventId) => [{ type: "Event", id: eventId }],
+    }),
+
+    // A new event also lands in the creator's main calendar and in the invitees' calendars.
+    createEvent: builder.mutation<Event, CreateEventPayload>({
+      queryFn: (payload) => fromService(() => eventService.createEvent(payload)),
+      async onQueryStarted(payload, { dispatch, getState, queryFulfilled }) {
+        const pending = { event: buildPendingEvent(payload, createPendingEventId()), color: payload.color };
+        const start = new Date(payload.startedAt);
+        const undo = patchCalendarEvents(dispatch, getState(), [{ type: "CalendarEvents", id: payload.calendarId }], (participations, args) => {
+          if (args.standing
+            ? isStandingEvent(pending.event)
+            : !args.startedAt || !args.endedAt || (start >= new Date(args.startedAt) && start < new Date(args.endedAt))) {
+            participations.push(pending as ParticipationWithEvent);
+          }
+        });
+        await queryFulfilled.catch(undo);
+      },
+      invalidatesTags: [{ type: "CalendarEvents", id: "LIST" }],
+    }),
+
+    updateEvent: builder.mutation<Event, { eventId: number; changes: UpdateEventPayload }>({
+      queryFn: ({ eventId, changes }) => fromService(() => eventService.updateEvent(eventId, changes)),
+      async onQueryStarted({ eventId, changes }, { dispatch, getState, queryFulfilled }) {
+        const undo = patchCalendarEvents(dispatch, getState(), [{ type: "Event", id: eventId }], (participations) => {
+          participations.forEach((participation) => {
+            if (participation.event?.id === eventId) {
+              participation.event = applyEventChanges(participation.event, changes);
+              participation.color = changes.color ?? participation.color;
+            }
+          });
+        });
+        await queryFulfilled.catch(undo);
+      },
+      invalidatesTags: (_result, _error, { eventId }) => [{ type: "Event", id: eventId }],
+    }),
+
+    deleteEvent: builder.mutation<number, number>({
+      queryFn: (eventId) => fromService(async () => {
+        await eventService.deleteEvent(eventId);
+        return eventId;
+      }),
+      async onQueryStarted(eventId, { dispatch, getState, queryFulfilled }) {
+        const undo = patchCalendarEvents(dispatch, getState(), [{ type: "Event", id: eventId }], (participations) => {
+          const index = participations.findIndex((participation) => participation.event?.id === eventId);
+          if (index !== -1) participations.splice(index, 1);
+        });
+        await queryFulfilled.catch(undo);
+      },
+      invalidatesTags: (_result, _error, eventId) => [{ type: "Event", id: eventId }],
+    }),
+
+    addEventParticipant: builder.mutation<ServiceResult<typeof eventService.addParticipant>, { eventId: number; calendarId: number; email: string }>({
+      queryFn: ({ eventId, calendarId, email }) => fromService(async () => {
+        const users = await eventService.findUserByEmail(email);
+        if (!users || users.length === 0) {
+          throw new Error("User not found");
+        }
+        return eventService.addParticipant(eventId, calendarId, users.id);
+      }),
+      invalidatesTags: (_result, _error, { eventId }) => [{ type: "Event", id: eventId }],
+    }),
+
+    updateEventParticipant: builder.mutation<
+      ServiceResult<typeof eventService.updateParticipant>,
+      { eventId: number; calendarMemberId: number; changes: { responseStatus?: string; color?: string } }
+    >({
+      queryFn: ({ eventId, calendarMemberId, changes }) =>
+        fromService(() => eventService.updateParticipant(eventId, calendarMemberId, changes)),
+      async onQueryStarted({ eventId, calendarMemberId, changes }, { dispatch, getState, queryFulfilled }) {
+        const undo = patchCalendarEvents(dispatch, getState(), [{ type: "Event", id: eventId }], (participations) => {
+          participations.forEach((participation) => {
+            if (participation.calendarMemberId === calendarMemberId) {
+              Object.assign(participation, changes);
+            }
+            if (participation.event?.id === eventId) {
+              participation.event = applyParticipantChanges(participation.event, calendarMemberId, changes);
+            }
+          });
+        });
+        await queryFulfilled.catch(undo);
+      },
+      invalidatesTags: (_result, _error, { eventId }) => [{ type: "Event", id: eventId }],
+    }),
+
+    removeEventParticipant: builder.mutation<void, { eventId: number; calendarMemberId: number }>({
+      queryFn: ({ eventId, calendarMemberId }) =>
+        fromService(() => eventService.removeParticipant(eventId, calendarMemberId)),
+      invalidatesTags: (_result, _error, { eventId }) => [{ type: "Event", id: eventId }],
+    }),
+
+    confirmEventParticipation: builder.mutation<ServiceResult<typeof eventService.confirmEventParticipation>, { eventId: string; calendarMemberId: string; token: string }>({
+      queryFn: ({ eventId, calendarMemberId, token }) =>
+        fromService(() => eventService.confirmEventParticipation(eventId, calendarMemberId, token)),
+      invalidatesTags: [{ type: "CalendarEvents", id: "LIST" }],
+    }),
+
+    addCalendar: builder.mutation<CalendarData, { name: string; description: string | null; color: string }>({
+      queryFn: (calendar) => fromService(() => calendarService.addCalendar(calendar)),
+      invalidatesTags: [{ type: "Calendar", id: "LIST" }],
+    }),
+
+    updateCalendar: builder.mutation<CalendarData, { calendarId: string; changes: { name?: string; title?: string; description: string } }>({
+      queryFn: ({ calendarId, changes }) =>
+        fromService(() => calendarService.updateCalendar(calendarId, changes as { title: string; description: string })),
+      invalidatesTags: [{ type: "Calendar", id: "LIST" }],
+    }),
+
+    toggleCalendarVisibility: builder.mutation<ServiceResult<typeof calendarService.toggleCalendarVisibility>, { calendarId: string; userId: string; isVisible: boolean }>({
+      queryFn: ({ calendarId, userId, isVisible }) =>
+        fromService(() => calendarService.toggleCalendarVisibility(calendarId, userId, isVisible)),
+      invalidatesTags: [{ type: "Calendar", id: "LIST" }],
+    }),
+
+    changeCalendarColor: builder.mutation<CalendarData, { calendarId: string; userId: string; color: string }>({
+      queryFn: ({ calendarId, userId, color }) =>
+        fromService(() => calendarService.updateCalendarColor(calendarId, userId, color)),
+      invalidatesTags: [{ type: "Calendar", id: "LIST" }],
+    }),
+
+    deleteCalendar: builder.mutation<string, string>({
+      queryFn: (calendarId) => fromService(async () => {
+        await calendarService.deleteCalendar(calendarId);
+        return calendarId;
+      }),
+      invalidatesTags: [{ type: "Calendar", id: "LIST" }, { type: "CalendarEvents", id: "LIST" }],
+    }),
+
+    addCalendarUser: builder.mutation<ServiceResult<typeof calendarService.addCalendarUser>, { calendarId: string; payload: { userEmail: string; role: string } }>({
+      queryFn: ({ calendarId, payload }) => fromService(() => calendarService.addCalendarUser(calendarId, payload)),
+      invalidatesTags: (_result, _error, { calendarId }) => [{ type: "CalendarUsers", id: calendarId }],
+    }),
+
+    updateCalendarUserRole: builder.mutation<ServiceResult<typeof calendarService.updateUserRole>, { calendarId: string; userId: string; role: string }>({
+      queryFn: ({ calendarId, userId, role }) => fromService(() => calendarService.updateUserRole(calendarId, userId, role)),
+      invalidatesTags: (_result, _error, { calendarId }) => [{ type: "CalendarUsers", id: calendarId }],
+    }),
+
+    removeCalendarUser: builder.mutation<void, { calendarId: string; userId: string }>({
+      queryFn: ({ calendarId, userId }) => fromService(async () => {
+        await calendarService.removeUserFromCalendar(calendarId, userId);
+      }),
+      invalidatesTags: (_result, _error, { calendarId }) => [{ type: "CalendarUsers", id: calendarId }],
+    }),
+
+    leaveCalendar: builder.mutation<void, { calendarId: string; userId: string }>({
+      queryFn: ({ calendarId, userId }) => fromService(async () => {
+        await calendarService.leaveCalendar(calendarId, userId);
+      }),
+      invalidatesTags: [{ type: "Calendar", id: "LIST" }, { type: "CalendarEvents", id: "LIST" }],
+    }),
+
+    confirmCalendar: builder.mutation<ServiceResult<typeof calendarService.confirmCalendar>, string>({
+      queryFn: (token) => fromService(() => calendarService.confirmCalendar(token)),
+      invalidatesTags: [{ type: "Calendar", id: "LIST" }],
+    }),
+  }),
+});
+
+export const { useGetCalendarEventsQuery, useGetHolidaysQuery } = planqApi;
+
+/**
+ * Applies `recipe` to every loaded calendar window the tags point at, so a change
+ * shows before the server confirms it. Returns a function that takes it back.
+ */
+const patchCalendarEvents = (
+  dispatch: ThunkDispatch<PlanqApiState, unknown, UnknownAction>,
+  state: PlanqApiState,
+  tags: { type: "CalendarEvents" | "Event"; id: number }[],
+  recipe: (participations: ParticipationWithEvent[], args: CalendarEventsArgs) => void
+): (() => void) => {
+  const patches = planqApi.util
+    .selectInvalidatedBy(state, tags)
+    .filter((entry) => entry.endpointName === "getCalendarEvents")
+    .map(({ originalArgs }) =>
+      dispatch(planqApi.util.updateQueryData("getCalendarEvents", originalArgs, (draft) => recipe(draft, originalArgs)))
+    );
+
+  return () => patches.forEach((patch) => patch.undo());
+};
+
+/**
+ * Load arguments for every calendar and window, plus each calendar's standing
+ * events; without windows, each calendar is loaded whole.
+ */
+export const getCalendarEventsArgs = (
+  calendarIds: number[],
+  userId: number,
+  windows: DateWindow[] | null
+): CalendarEventsArgs[] =>
+  calendarIds.flatMap((calendarId) =>
+    windows
+      ? [
+          { calendarId, userId, standing: true },
+          ...windows.map((window) => ({
+            calendarId,
+            userId,
+            startedAt: window.start.toISOString(),
+            endedAt: window.end.toISOString(),
+          })),
+        ]
+      : [{ calendarId, userId }]
+  );
+
+/**
+ * Loaded events for each of `argsList`, in the same order; undefined where a
+ * window hasn't arrived yet. Compare with `shallowEqual` when selecting.
+ */
+export const selectCalendarEventWindows = (
+  state: PlanqApiState,
+  argsList: CalendarEventsArgs[]
+): (ParticipationWithEvent[] | undefined)[] =>
+  argsList.map((args) => planqApi.endpoints.getCalendarEvents.select(args)(state).data);
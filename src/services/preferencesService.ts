@@ -0,0 +1,34 @@
+import { UserPreferences } from "../types/preferenceTypes";
+
+const STORAGE_KEY_PREFIX = 'preferences:';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  weekStartsOn: 0,
+  workingHoursStart: 9,
+  workingHoursEnd: 17,
+  defaultView: "month",
+  defaultEventDuration: 30,
+  displayTimeZone: "",
+  secondaryTimeZone: "",
+  defaultReminderOffsets: [10],
+};
+
+// Preferences are kept per user in this browser, next to the stored session.
+const preferencesService = {
+  getPreferences: (userId: string | number): UserPreferences => {
+    try {
+      const stored = localStorage.getItem(`${STORAGE_KEY_PREFIX}${userId}`);
+      return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES;
+    } catch (error) {
+      console.error('Error reading preferences:', error);
+      return DEFAULT_PREFERENCES;
+    }
+  },
+
+  savePreferences: (userId: string | number, preferences: UserPreferences): UserPreferences => {
+    localStorage.setItem(`${STORAGE_KEY_PREFIX}${userId}`, JSON.stringify(preferences));
+    return preferences;
+  },
+};
+
+export default preferencesService;
@@ -0,0 +1,22 @@
+import { EventTemplate } from "../types/templateTypes";
+
+const STORAGE_KEY_PREFIX = 'templates:';
+
+// Templates are kept per user in this browser, like the preferences.
+const templateService = {
+  getTemplates: (userId: string | number): EventTemplate[] => {
+    try {
+      return JSON.parse(localStorage.getItem(`${STORAGE_KEY_PREFIX}${userId}`) || '[]');
+    } catch (error) {
+      console.error('Error reading event templates:', error);
+      return [];
+    }
+  },
+
+  saveTemplates: (userId: string | number, templates: EventTemplate[]): EventTemplate[] => {
+    localStorage.setItem(`${STORAGE_KEY_PREFIX}${userId}`, JSON.stringify(templates));
+    return templates;
+  },
+};
+
+export default templateService;
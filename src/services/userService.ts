@@ -1,37 +1,35 @@
-import axios from 'axios'
+import apiClient from './apiClient'
 import authService from './authService'
 
-const API_URL = 'http://localhost:3000/api'
-
 const userService = {
     setAuthToken: (token: string) => {
-        axios.defaults.headers.common['Authorization'] = `Bearer ${token}`
+        apiClient.defaults.headers.common['Authorization'] = `Bearer ${token}`
     },
     clearAuthToken: () => {
-        delete axios.defaults.headers.common['Authorization']
+        delete apiClient.defaults.headers.common['Authorization']
     },
     refreshToken: async () => {
         const refreshToken = localStorage.getItem('refreshToken')
         if (!refreshToken) {
             throw new Error('No refresh token available')
         }
-        const response = await axios.post(`${API_URL}/auth/access-token/refresh`, {refreshToken})
+        const response = await apiClient.post(`/auth/access-token/refresh`, {refreshToken})
         return response.data
     },
     getCurrentUser: async (userId: string) => {
-        const response = await axios.get(`${API_URL}/users/${userId}`)
+        const response = await apiClient.get(`/users/${userId}`)
         return response.data
     },
     updateCurrentUser: async (userData: any, userId: string) => {
-        const response = await axios.patch(`${API_URL}/users/${userId}`, userData)
+        const response = await apiClient.patch(`/users/${userId}`, userData)
         return response.data
     },
     getUserById: async (userId: string) => {
-        const response = await axios.get(`${API_URL}/users/${userId}`)
+        const response = await apiClient.get(`/users/${userId}`)
         return response.data
     },
     uploadAvatar: async (formData: FormData) => {
-        const response = await axios.post(`${API_URL}/users/upload-avatar`, formData, {
+        const response = await apiClient.post(`/users/upload-avatar`, formData, {
             headers: {
                 'Content-Type': 'multipart/form-data',
             },
@@ -40,7 +38,7 @@ const userService = {
     },
 }
 
-axios.interceptors.response.use(
+apiClient.interceptors.response.use(
     (response) => response,
     async (error) => {
         const originalRequest = error.config
@@ -60,7 +58,7 @@ axios.interceptors.response.use(
                 originalRequest.headers['Authorization'] = `Bearer ${refreshedTokenData.accessToken}`
                 sessionStorage.setItem('accessToken', refreshedTokenData.accessToken)
                 userService.setAuthToken(refreshedTokenData.accessToken)
-                return axios(originalRequest)
+                return apiClient(originalRequest)
             } catch (refreshError) {
                 await authService.logout()
                 return Promise.reject(refreshError)
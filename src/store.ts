@@ -1,19 +1,28 @@
-import {configureStore} from '@reduxjs/toolkit'
+import {configureStore, Reducer} from '@reduxjs/toolkit'
 import authReducer from './reducers/authReducer'
 import userReducer from './reducers/userReducer'
 import calendarReducer from './reducers/calendarReducer'
 import eventReducer from './reducers/eventReducer';
+import preferencesReducer from './reducers/preferencesReducer'
+import templatesReducer from './reducers/templatesReducer'
 import categoryReducer from './reducers/categoryReducer'
 import postReducer from './reducers/postReducer'
 import commentReducer from './reducers/commentReducer'
+import { planqApi } from './services/planqApi'
 
 const store = configureStore({
     reducer: {
         auth: authReducer,
         users: userReducer,
         calendar: calendarReducer,
-        event: eventReducer
+        // Typed for its own actions only; the store hands every reducer any action.
+        event: eventReducer as Reducer<ReturnType<typeof eventReducer>>,
+        preferences: preferencesReducer,
+        templates: templatesReducer,
+        [planqApi.reducerPath]: planqApi.reducer,
     },
+    middleware: (getDefaultMiddleware) =>
+        getDefaultMiddleware().concat(planqApi.middleware),
 })
 
 export type RootState = ReturnType<typeof store.getState>
@@ -0,0 +1,6 @@
+/** A public holiday as the holidays endpoint returns it; `startedAt` may be a bare date. */
+export interface Holiday {
+  title: string;
+  description?: string;
+  startedAt: string;
+}
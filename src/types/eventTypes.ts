@@ -22,6 +22,38 @@ export enum EventCategory {
     DECLINED = 'declined'
   }
   
+  export enum RecurrenceFrequency {
+    DAILY = 'daily',
+    WEEKLY = 'weekly',
+    MONTHLY = 'monthly',
+    YEARLY = 'yearly'
+  }
+  
+  export enum Weekday {
+    SUNDAY = 'SU',
+    MONDAY = 'MO',
+    TUESDAY = 'TU',
+    WEDNESDAY = 'WE',
+    THURSDAY = 'TH',
+    FRIDAY = 'FR',
+    SATURDAY = 'SA'
+  }
+  
+  export enum RecurrenceEditScope {
+    THIS = 'this',
+    FOLLOWING = 'following',
+    ALL = 'all'
+  }
+  
+  export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval: number;
+    byWeekday?: Weekday[];
+    count?: number | null;
+    until?: string | null;
+    exceptions?: string[];
+  }
+  
   export interface EventParticipation {
     id: number;
     calendarMemberId: number;
@@ -54,6 +86,14 @@ export enum EventCategory {
     };
   }
   
+  /** What the calendar member events endpoint returns: the member's participation with the event attached. */
+  export type ParticipationWithEvent = EventParticipation & { event?: Event };
+
+  export interface ChecklistItem {
+    text: string;
+    isDone: boolean;
+  }
+
   export interface Event {
     id: number;
     creatorId: number;
@@ -80,9 +120,16 @@ export enum EventCategory {
       eventId: number;
       priority: TaskPriority;
       isCompleted: boolean;
+      /** Ordered steps of the task. */
+      checklist?: ChecklistItem[] | null;
       createdAt: string;
       updatedAt: string;
     };
+    recurrence?: RecurrenceRule | null;
+    /** IANA zone the times were entered in; null means the viewer's zone. */
+    timeZone?: string | null;
+    /** Minutes before the start to remind at; null falls back to the user's default. */
+    reminderOffsets?: number[] | null;
     participations: EventParticipation[];
   }
   
@@ -97,6 +144,10 @@ export enum EventCategory {
     calendarId: number;
     participantIds?: number[];
     priority?: TaskPriority;
+    checklist?: ChecklistItem[] | null;
+    recurrence?: RecurrenceRule | null;
+    timeZone?: string | null;
+    reminderOffsets?: number[] | null;
   }
   
   export interface UpdateEventPayload {
@@ -107,6 +158,10 @@ export enum EventCategory {
     endedAt?: string;
     priority?: TaskPriority;
     isCompleted?: boolean;
+    checklist?: ChecklistItem[] | null;
     color?: string;
+    recurrence?: RecurrenceRule | null;
+    timeZone?: string | null;
+    reminderOffsets?: number[] | null;
   }
   
\ No newline at end of file
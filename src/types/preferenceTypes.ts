@@ -0,0 +1,20 @@
+export type WeekStartDay = 0 | 1 | 6;
+
+export type CalendarView = "day" | "week" | "month" | "year" | "agenda";
+
+export interface UserPreferences {
+  weekStartsOn: WeekStartDay;
+  /** First working hour of the day, 0–23. */
+  workingHoursStart: number;
+  /** Hour the working day ends, 1–24; always after `workingHoursStart`. */
+  workingHoursEnd: number;
+  defaultView: CalendarView;
+  /** Length of newly created events, in minutes. */
+  defaultEventDuration: number;
+  /** IANA zone events are shown in; empty means the browser's zone. */
+  displayTimeZone: string;
+  /** Extra zone shown next to the hours in day and week views; empty hides it. */
+  secondaryTimeZone: string;
+  /** Reminders, in minutes before the start, for events that don't set their own. */
+  defaultReminderOffsets: number[];
+}
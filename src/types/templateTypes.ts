@@ -0,0 +1,24 @@
+import { EventCategory, EventType, TaskPriority } from "./eventTypes";
+
+export interface TemplateParticipant {
+  id: number;
+  email: string;
+}
+
+export interface EventTemplate {
+  id: string;
+  /** Label shown in the template pickers. */
+  title: string;
+  name: string;
+  description: string;
+  /** Length of events created from the template, in minutes. */
+  duration: number;
+  category: EventCategory;
+  type: EventType;
+  priority?: TaskPriority;
+  color: string;
+  /** Calendar new events go to; null uses the form's default. */
+  calendarId: number | null;
+  participants: TemplateParticipant[];
+  createdAt: string;
+}